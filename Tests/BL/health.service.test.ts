@@ -0,0 +1,118 @@
+import { HealthService } from '../../src/BL/health.service';
+import { InfraService } from '../../src/BL/infra.service';
+
+// Mock the infrastructure service
+jest.mock('../../src/BL/infra.service', () => ({
+  InfraService: {
+    healthCheck: jest.fn(),
+    recordHealth: jest.fn(),
+  },
+}));
+
+const healthy = {
+  status: 'healthy',
+  timestamp: '2025-10-16T06:34:37.817Z',
+  database: 'connected',
+};
+
+const unhealthy = {
+  status: 'unhealthy',
+  timestamp: '2025-10-16T06:34:37.817Z',
+  database: 'disconnected',
+  error: 'Database connection failed',
+};
+
+describe('HealthService', () => {
+  beforeEach(() => {
+    HealthService.reset();
+    HealthService.register('', { dependsOnDatabase: true });
+    HealthService.register('infra.InfraService');
+    HealthService.register('user.UserService', { dependsOnDatabase: true });
+  });
+
+  describe('getStatus', () => {
+    it('should report registered services as SERVING', () => {
+      expect(HealthService.getStatus('')).toBe('SERVING');
+      expect(HealthService.getStatus('user.UserService')).toBe('SERVING');
+    });
+
+    it('should return undefined for unknown services', () => {
+      expect(HealthService.getStatus('unknown.Service')).toBeUndefined();
+    });
+  });
+
+  describe('refresh', () => {
+    it('should mark database dependents NOT_SERVING when the database is down', async () => {
+      (InfraService.healthCheck as jest.Mock).mockResolvedValue(unhealthy);
+
+      await HealthService.refresh();
+
+      expect(HealthService.getStatus('')).toBe('NOT_SERVING');
+      expect(HealthService.getStatus('user.UserService')).toBe('NOT_SERVING');
+      expect(HealthService.getStatus('infra.InfraService')).toBe('SERVING');
+      expect(InfraService.recordHealth).toHaveBeenCalledWith(unhealthy);
+    });
+
+    it('should restore SERVING when the database comes back', async () => {
+      (InfraService.healthCheck as jest.Mock).mockResolvedValueOnce(unhealthy).mockResolvedValueOnce(healthy);
+
+      await HealthService.refresh();
+      await HealthService.refresh();
+
+      expect(HealthService.getStatus('user.UserService')).toBe('SERVING');
+    });
+  });
+
+  describe('watch', () => {
+    it('should push transitions only', async () => {
+      const listener = jest.fn();
+      HealthService.watch('user.UserService', listener);
+      (InfraService.healthCheck as jest.Mock)
+        .mockResolvedValueOnce(healthy)
+        .mockResolvedValueOnce(unhealthy)
+        .mockResolvedValueOnce(unhealthy)
+        .mockResolvedValueOnce(healthy);
+
+      for (let i = 0; i < 4; i++) {
+        await HealthService.refresh();
+      }
+
+      expect(listener.mock.calls).toEqual([['NOT_SERVING'], ['SERVING']]);
+    });
+
+    it('should stop notifying after unsubscribe', () => {
+      const listener = jest.fn();
+      const unsubscribe = HealthService.watch('', listener);
+
+      unsubscribe();
+      HealthService.setStatus('', 'NOT_SERVING');
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('shutdown', () => {
+    it('should mark every service NOT_SERVING and close watchers', async () => {
+      const listener = jest.fn();
+      const onClose = jest.fn();
+      HealthService.watch('infra.InfraService', listener, onClose);
+
+      HealthService.shutdown();
+
+      expect(HealthService.getStatus('')).toBe('NOT_SERVING');
+      expect(HealthService.getStatus('infra.InfraService')).toBe('NOT_SERVING');
+      expect(listener).toHaveBeenCalledWith('NOT_SERVING');
+      expect(onClose).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ignore health checks once shutting down', async () => {
+      (InfraService.healthCheck as jest.Mock).mockResolvedValue(healthy);
+
+      HealthService.shutdown();
+      await HealthService.refresh();
+
+      expect(HealthService.getStatus('user.UserService')).toBe('NOT_SERVING');
+      expect(InfraService.healthCheck).not.toHaveBeenCalled();
+    });
+  });
+});
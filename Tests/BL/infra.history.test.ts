@@ -0,0 +1,72 @@
+import { summarizeHealthHistory } from '../../src/BL/infra.history';
+
+const at = (minute: number) => new Date(Date.UTC(2025, 9, 16, 6, minute));
+const check = (minute: number, status: string, error: string | null = null) => ({
+  status,
+  timestamp: at(minute),
+  error,
+});
+const MINUTE = 60_000;
+
+describe('summarizeHealthHistory', () => {
+  it('should compute uptime, outages and transitions over the range', () => {
+    const history = summarizeHealthHistory(
+      [check(0, 'healthy'), check(10, 'unhealthy', 'database: timeout'), check(15, 'unhealthy'), check(20, 'healthy')],
+      { from: at(0), to: at(40) },
+      20 * MINUTE
+    );
+
+    expect(history).toEqual({
+      from: at(0).toISOString(),
+      to: at(40).toISOString(),
+      samples: 4,
+      uptimePercent: 75,
+      coveredMs: 40 * MINUTE,
+      outages: [
+        {
+          start: at(10).toISOString(),
+          end: at(20).toISOString(),
+          durationMs: 10 * MINUTE,
+          error: 'database: timeout',
+        },
+      ],
+      transitions: [
+        { timestamp: at(10).toISOString(), from: 'healthy', to: 'unhealthy', error: 'database: timeout' },
+        { timestamp: at(20).toISOString(), from: 'unhealthy', to: 'healthy', error: undefined },
+      ],
+    });
+  });
+
+  it('should start from the status recorded before the range and leave ongoing outages open', () => {
+    const history = summarizeHealthHistory(
+      [check(0, 'unhealthy', 'disk: 12 MiB free'), check(20, 'healthy'), check(30, 'unhealthy', 'memory: heap full')],
+      { from: at(10), to: at(40) },
+      60 * MINUTE
+    );
+
+    expect(history.samples).toBe(2);
+    expect(history.uptimePercent).toBeCloseTo(100 / 3);
+    expect(history.outages).toEqual([
+      { start: at(10).toISOString(), end: at(20).toISOString(), durationMs: 10 * MINUTE, error: 'disk: 12 MiB free' },
+      { start: at(30).toISOString(), durationMs: 10 * MINUTE, error: 'memory: heap full' },
+    ]);
+    expect(history.transitions.map(transition => transition.to)).toEqual(['healthy', 'unhealthy']);
+  });
+
+  it('should leave gaps between checks out of the covered time', () => {
+    const history = summarizeHealthHistory(
+      [check(0, 'healthy'), check(30, 'unhealthy')],
+      { from: at(0), to: at(40) },
+      MINUTE
+    );
+
+    expect(history.coveredMs).toBe(2 * MINUTE);
+    expect(history.uptimePercent).toBe(50);
+  });
+
+  it('should report no uptime without checks', () => {
+    const history = summarizeHealthHistory([], { from: at(0), to: at(40) }, MINUTE);
+
+    expect(history).toEqual(expect.objectContaining({ samples: 0, uptimePercent: 0, coveredMs: 0, outages: [] }));
+  });
+});
@@ -0,0 +1,71 @@
+import { diskProbe, eventLoopProbe, grpcDependencyProbe, memoryProbe } from '../../src/BL/infra.probes';
+import type { HealthCheckResponse_ServingStatus, HealthHandlers } from '../../src/DTO/generated/health';
+import { GrpcServer } from '../../src/lib/grpc';
+
+describe('health probes', () => {
+  it('should compare the free disk space with the minimum', async () => {
+    await expect(diskProbe({ path: '.', minFreeBytes: 0 }).check()).resolves.toEqual({
+      status: 'healthy',
+      message: expect.stringMatching(/^\d+ MiB free$/),
+    });
+    await expect(diskProbe({ path: '.', minFreeBytes: Number.MAX_SAFE_INTEGER }).check()).resolves.toEqual(
+      expect.objectContaining({ status: 'unhealthy' })
+    );
+  });
+
+  it('should mark the process probes as liveness probes', async () => {
+    const eventLoop = eventLoopProbe({ maxLagMs: 10_000 });
+    const memory = memoryProbe({ maxHeapUsedRatio: 1e-9 });
+
+    try {
+      expect(eventLoop).toEqual(expect.objectContaining({ critical: false, liveness: true }));
+      await expect(eventLoop.check()).resolves.toEqual(expect.objectContaining({ status: 'healthy' }));
+      await expect(memory.check()).resolves.toEqual({
+        status: 'unhealthy',
+        message: expect.stringMatching(/^heap [\d.]+% of limit, rss \d+ MiB$/),
+      });
+    } finally {
+      eventLoop.close?.();
+    }
+  });
+
+  describe('grpcDependencyProbe', () => {
+    let server: GrpcServer;
+    let address: string;
+    const statuses: Record<string, HealthCheckResponse_ServingStatus> = {
+      '': 'SERVING',
+      'billing.Billing': 'NOT_SERVING',
+    };
+
+    beforeAll(async () => {
+      server = new GrpcServer({ reflection: false });
+      server.addService({
+        protoPath: 'health.proto',
+        packageName: 'grpc.health.v1',
+        serviceName: 'Health',
+        implementation: {
+          check: (call, callback) => callback(null, { status: statuses[call.request.service] }),
+          watch: call => call.end(),
+        } satisfies HealthHandlers,
+      });
+      address = `127.0.0.1:${await server.start('127.0.0.1:0')}`;
+    });
+
+    afterAll(() => {
+      server.forceShutdown();
+    });
+
+    it('should follow the serving status of the dependency', async () => {
+      const overall = grpcDependencyProbe({ name: 'upstream', address, timeoutMs: 2000 });
+      const billing = grpcDependencyProbe({ name: 'billing', address, service: 'billing.Billing', timeoutMs: 2000 });
+
+      try {
+        await expect(overall.check()).resolves.toBeUndefined();
+        await expect(billing.check()).resolves.toEqual({ status: 'unhealthy', message: 'Serving status NOT_SERVING' });
+      } finally {
+        overall.close?.();
+        billing.close?.();
+      }
+    });
+  });
+});
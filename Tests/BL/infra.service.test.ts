@@ -1,44 +1,187 @@
 import { InfraService } from '../../src/BL/infra.service';
 import { InfraRepository } from '../../src/DAL/infra.repository';
+import { registry } from '../../src/lib/metrics';
 
 // Mock the repository
 jest.mock('../../src/DAL/infra.repository', () => ({
   InfraRepository: {
-    getHealthStatus: jest.fn(),
+    ping: jest.fn(),
+    recordHealthChecks: jest.fn(),
+    findHealthChecks: jest.fn(),
+    deleteHealthChecksBefore: jest.fn(),
   },
 }));
 
 describe('InfraService', () => {
+  beforeEach(() => {
+    InfraService.reset();
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
   describe('healthCheck', () => {
-    it('should return healthy status when repository returns healthy', async () => {
-      const mockHealthStatus = {
+    it('should return healthy status when the database answers the ping', async () => {
+      (InfraRepository.ping as jest.Mock).mockResolvedValue(undefined);
+
+      const result = await InfraService.healthCheck();
+
+      expect(result).toEqual({
         status: 'healthy',
-        timestamp: '2025-10-16T06:34:37.817Z',
+        timestamp: expect.any(String),
         database: 'connected',
-      };
+        error: undefined,
+        live: true,
+        ready: true,
+        components: [
+          {
+            name: 'database',
+            status: 'healthy',
+            latencyMs: expect.any(Number),
+            message: undefined,
+            critical: true,
+            liveness: false,
+            checkedAt: expect.any(String),
+          },
+        ],
+      });
+      expect(InfraRepository.ping).toHaveBeenCalledTimes(1);
+    });
 
-      (InfraRepository.getHealthStatus as jest.Mock).mockResolvedValue(mockHealthStatus);
+    it('should return unhealthy status when the ping fails', async () => {
+      (InfraRepository.ping as jest.Mock).mockRejectedValue(new Error('Database connection failed'));
 
       const result = await InfraService.healthCheck();
 
-      expect(result).toEqual(mockHealthStatus);
-      expect(InfraRepository.getHealthStatus).toHaveBeenCalledTimes(1);
+      expect(result).toEqual(
+        expect.objectContaining({
+          status: 'unhealthy',
+          database: 'disconnected',
+          error: 'database: Database connection failed',
+          live: true,
+          ready: false,
+        })
+      );
     });
 
-    it('should return unhealthy status when repository returns unhealthy', async () => {
-      const mockHealthStatus = {
-        status: 'unhealthy',
-        timestamp: '2025-10-16T06:34:37.817Z',
-        database: 'disconnected',
-        error: 'Database connection failed',
-      };
-
-      (InfraRepository.getHealthStatus as jest.Mock).mockResolvedValue(mockHealthStatus);
+    it('should fail probes that exceed their timeout', async () => {
+      (InfraRepository.ping as jest.Mock).mockResolvedValue(undefined);
+      InfraService.registerProbe({ name: 'slow', timeoutMs: 20, check: () => new Promise(() => {}) });
 
       const result = await InfraService.healthCheck();
 
-      expect(result).toEqual(mockHealthStatus);
+      expect(result.components).toContainEqual(
+        expect.objectContaining({ name: 'slow', status: 'unhealthy', message: 'Timed out after 20ms' })
+      );
       expect(result.status).toBe('unhealthy');
     });
+
+    it('should aggregate liveness and readiness from the probe kinds', async () => {
+      (InfraRepository.ping as jest.Mock).mockResolvedValue(undefined);
+      const optional = { name: 'cache', critical: false, check: jest.fn().mockRejectedValue(new Error('down')) };
+      const process = { name: 'memory', critical: false, liveness: true, check: jest.fn() };
+      InfraService.registerProbe(optional);
+      InfraService.registerProbe(process);
+
+      process.check.mockResolvedValue(undefined);
+      const degraded = await InfraService.healthCheck();
+      expect(degraded).toEqual(
+        expect.objectContaining({ status: 'healthy', live: true, ready: true, error: undefined })
+      );
+      expect(degraded.components).toContainEqual(expect.objectContaining({ name: 'cache', status: 'unhealthy' }));
+
+      InfraService.registerProbe({ ...process, check: async () => ({ status: 'unhealthy', message: 'heap full' }) });
+      const dead = await InfraService.healthCheck();
+      expect(dead).toEqual(
+        expect.objectContaining({ status: 'unhealthy', live: false, ready: false, error: 'memory: heap full' })
+      );
+    });
+
+    it('should reuse probe results until they expire', async () => {
+      (InfraRepository.ping as jest.Mock).mockResolvedValue(undefined);
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+
+      await Promise.all([InfraService.healthCheck(), InfraService.healthCheck()]);
+      await InfraService.healthCheck();
+      expect(InfraRepository.ping).toHaveBeenCalledTimes(1);
+
+      now.mockReturnValue(1_000_000 + 60_000);
+      await InfraService.healthCheck();
+      expect(InfraRepository.ping).toHaveBeenCalledTimes(2);
+    });
+
+    it('should export the result of each check as metrics', async () => {
+      registry.resetMetrics();
+      (InfraRepository.ping as jest.Mock).mockResolvedValue(undefined);
+      await InfraService.healthCheck();
+
+      InfraService.reset();
+      (InfraRepository.ping as jest.Mock).mockRejectedValue(new Error('Database connection failed'));
+      await InfraService.healthCheck();
+
+      const metrics = await registry.metrics();
+      expect(metrics).toContain('health_checks_total{status="healthy"} 1');
+      expect(metrics).toContain('health_checks_total{status="unhealthy"} 1');
+      expect(metrics).toContain('health_check_healthy 0');
+      expect(metrics).toContain('health_probe_healthy{probe="database"} 0');
+      expect(metrics).toMatch(/health_probe_latency_seconds\{probe="database"\} [\d.e-]+/);
+    });
+  });
+
+  describe('recordHealth', () => {
+    const unhealthy = {
+      status: 'unhealthy' as const,
+      timestamp: '2025-10-16T06:34:37.817Z',
+      database: 'disconnected' as const,
+      error: 'database: Database connection failed',
+    };
+
+    it('should keep failed checks until they can be recorded', async () => {
+      (InfraRepository.recordHealthChecks as jest.Mock)
+        .mockRejectedValueOnce(new Error('Database connection failed'))
+        .mockResolvedValueOnce(undefined);
+
+      await InfraService.recordHealth(unhealthy);
+      await InfraService.recordHealth({ ...unhealthy, status: 'healthy', error: undefined });
+
+      expect(InfraRepository.recordHealthChecks).toHaveBeenLastCalledWith([
+        {
+          status: 'unhealthy',
+          timestamp: new Date(unhealthy.timestamp),
+          error: 'database: Database connection failed',
+        },
+        { status: 'healthy', timestamp: new Date(unhealthy.timestamp), error: null },
+      ]);
+
+      await InfraService.recordHealth(unhealthy);
+      expect((InfraRepository.recordHealthChecks as jest.Mock).mock.lastCall[0]).toHaveLength(1);
+    });
+  });
+
+  describe('getHealthHistory', () => {
+    it('should summarize the checks recorded in the range', async () => {
+      const from = new Date('2025-10-16T06:00:00.000Z');
+      const to = new Date('2025-10-16T07:00:00.000Z');
+      (InfraRepository.findHealthChecks as jest.Mock).mockResolvedValue([
+        { status: 'healthy', timestamp: from, error: null },
+      ]);
+
+      const history = await InfraService.getHealthHistory({ from, to });
+
+      expect(InfraRepository.findHealthChecks).toHaveBeenCalledWith(from, to);
+      expect(history).toEqual(expect.objectContaining({ samples: 1, uptimePercent: 100, coveredMs: 60_000 }));
+    });
+  });
+
+  describe('pruneHealthHistory', () => {
+    it('should delete the checks older than the retention period', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2025-10-31T00:00:00.000Z'));
+      (InfraRepository.deleteHealthChecksBefore as jest.Mock).mockResolvedValue(42);
+
+      await expect(InfraService.pruneHealthHistory()).resolves.toBe(42);
+      expect(InfraRepository.deleteHealthChecksBefore).toHaveBeenCalledWith(new Date('2025-10-01T00:00:00.000Z'));
+    });
   });
 });
@@ -0,0 +1,125 @@
+import { OutboxService, retryDelayMs } from '../../src/BL/outbox.service';
+import { inProcessSink } from '../../src/BL/outbox.sinks';
+import { OutboxRepository } from '../../src/DAL/outbox.repository';
+import { configure, getConfig } from '../../src/lib/config';
+import { registry } from '../../src/lib/metrics';
+
+// Mock the repository
+jest.mock('../../src/DAL/outbox.repository', () => ({
+  OutboxRepository: {
+    findDue: jest.fn(),
+    markDelivered: jest.fn(),
+    markFailed: jest.fn(),
+    requeue: jest.fn(),
+  },
+}));
+
+const message = {
+  id: '7',
+  type: 'UserCreated' as const,
+  userId: 'user_1',
+  user: {
+    id: 'user_1',
+    name: 'Alice',
+    email: 'alice@example.com',
+    createdAt: '2025-10-16T06:00:00.000Z',
+    updatedAt: '2025-10-16T06:00:00.000Z',
+    version: 1,
+  },
+  occurredAt: '2025-10-16T06:00:00.000Z',
+  attempt: 1,
+};
+
+const pending = (attempts = 0) => ({ id: 7, attempts, message: { ...message, attempt: attempts + 1 } });
+
+describe('OutboxService', () => {
+  beforeEach(() => {
+    OutboxService.reset();
+    jest.clearAllMocks();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('dispatch', () => {
+    it('should deliver due events to every sink', async () => {
+      (OutboxRepository.findDue as jest.Mock).mockResolvedValue([pending()]);
+      const first = inProcessSink('first');
+      const second = inProcessSink('second');
+      OutboxService.registerSink(first);
+      OutboxService.registerSink(second);
+
+      await expect(OutboxService.dispatch()).resolves.toBe(1);
+
+      expect(first.messages).toEqual([message]);
+      expect(second.messages).toEqual([message]);
+      expect(OutboxRepository.markDelivered).toHaveBeenCalledWith(7, 1);
+    });
+
+    it('should leave events pending while no sink is registered', async () => {
+      await expect(OutboxService.dispatch()).resolves.toBe(0);
+      expect(OutboxRepository.findDue).not.toHaveBeenCalled();
+    });
+
+    it('should share the pass in progress', async () => {
+      (OutboxRepository.findDue as jest.Mock).mockResolvedValue([pending()]);
+      OutboxService.registerSink(inProcessSink());
+
+      await Promise.all([OutboxService.dispatch(), OutboxService.dispatch()]);
+      expect(OutboxRepository.findDue).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry failed deliveries with backoff, then dead-letter them', async () => {
+      registry.resetMetrics();
+      jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      const { maxAttempts } = getConfig().outbox;
+      OutboxService.registerSink(inProcessSink('ok'));
+      OutboxService.registerSink(
+        inProcessSink('flaky', () => {
+          throw new Error('Webhook responded 503');
+        })
+      );
+
+      (OutboxRepository.findDue as jest.Mock).mockResolvedValueOnce([pending(2)]);
+      await OutboxService.dispatch();
+      expect(OutboxRepository.markFailed).toHaveBeenLastCalledWith(
+        7,
+        3,
+        'flaky: Webhook responded 503',
+        new Date(1_000_000 + retryDelayMs(3))
+      );
+
+      (OutboxRepository.findDue as jest.Mock).mockResolvedValueOnce([pending(maxAttempts - 1)]);
+      await OutboxService.dispatch();
+      expect(OutboxRepository.markFailed).toHaveBeenLastCalledWith(7, maxAttempts, 'flaky: Webhook responded 503');
+      expect(OutboxRepository.markDelivered).not.toHaveBeenCalled();
+
+      const metrics = await registry.metrics();
+      expect(metrics).toContain('outbox_deliveries_total{outcome="retried"} 1');
+      expect(metrics).toContain('outbox_deliveries_total{outcome="dead"} 1');
+    });
+  });
+
+  describe('retryDelayMs', () => {
+    it('should double the delay on each failure up to the maximum', () => {
+      const config = getConfig();
+      try {
+        configure({ ...config, outbox: { ...config.outbox, retryBaseDelayMs: 1000, retryMaxDelayMs: 5000 } });
+
+        expect([1, 2, 3, 4].map(retryDelayMs)).toEqual([1000, 2000, 4000, 5000]);
+      } finally {
+        configure(config);
+      }
+    });
+  });
+
+  describe('replayEvents', () => {
+    it('should requeue the given events', async () => {
+      (OutboxRepository.requeue as jest.Mock).mockResolvedValue(2);
+
+      await expect(OutboxService.replayEvents(['1', '2'])).resolves.toBe(2);
+      expect(OutboxRepository.requeue).toHaveBeenCalledWith([1, 2]);
+    });
+  });
+});
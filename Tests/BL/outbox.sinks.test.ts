@@ -0,0 +1,68 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER, signWebhook, webhookSink } from '../../src/BL/outbox.sinks';
+
+const message = {
+  id: '7',
+  type: 'UserDeleted' as const,
+  userId: 'user_1',
+  user: {
+    id: 'user_1',
+    name: 'Alice',
+    email: 'alice@example.com',
+    createdAt: '2025-10-16T06:00:00.000Z',
+    updatedAt: '2025-10-17T00:00:00.000Z',
+    deletedAt: '2025-10-17T00:00:00.000Z',
+    version: 2,
+  },
+  occurredAt: '2025-10-17T00:00:00.000Z',
+  attempt: 1,
+};
+
+describe('webhookSink', () => {
+  let server: http.Server;
+  let url: string;
+  let status = 204;
+  const received: Array<{ headers: http.IncomingHttpHeaders; body: string }> = [];
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => (body += chunk));
+      request.on('end', () => {
+        received.push({ headers: request.headers, body });
+        response.writeHead(status).end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/events`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received.length = 0;
+    status = 204;
+  });
+
+  it('should POST the event signed with the secret', async () => {
+    await webhookSink({ url, secret: 'shh', timeoutMs: 1000 }).deliver(message);
+
+    const [{ headers, body }] = received;
+    expect(JSON.parse(body)).toEqual(message);
+    expect(headers).toEqual(
+      expect.objectContaining({ 'x-outbox-event-id': '7', 'x-outbox-event-type': 'UserDeleted' })
+    );
+    expect(headers[SIGNATURE_HEADER]).toBe(signWebhook('shh', headers[TIMESTAMP_HEADER] as string, body));
+  });
+
+  it('should fail the delivery on an error response', async () => {
+    status = 503;
+
+    await expect(
+      webhookSink({ name: 'billing', url, secret: 'shh', timeoutMs: 1000 }).deliver(message)
+    ).rejects.toThrow('Webhook responded 503 Service Unavailable');
+  });
+});
@@ -0,0 +1,59 @@
+import { UserEvents } from '../../src/BL/user.events';
+import { FailedPreconditionError, ValidationError } from '../../src/lib/errors';
+
+describe('UserEvents', () => {
+  beforeEach(() => {
+    UserEvents.reset();
+  });
+
+  it('should deliver published events to subscribers', () => {
+    const listener = jest.fn();
+    UserEvents.subscribe('', listener);
+
+    UserEvents.publish('DELETED', { id: 'user_1' });
+
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'DELETED', user: { id: 'user_1' }, resumeToken: expect.any(String) })
+    );
+  });
+
+  it('should replay events missed after a resume token', () => {
+    const first = UserEvents.publish('CREATED', { id: 'user_1' });
+    UserEvents.publish('UPDATED', { id: 'user_1' });
+    UserEvents.publish('DELETED', { id: 'user_1' });
+    const listener = jest.fn();
+
+    UserEvents.subscribe(first.resumeToken, listener);
+
+    expect(listener.mock.calls.map(([event]) => event.type)).toEqual(['UPDATED', 'DELETED']);
+  });
+
+  it('should reject malformed resume tokens', () => {
+    expect(() => UserEvents.subscribe('garbage', jest.fn())).toThrow(ValidationError);
+  });
+
+  it('should reject resume tokens from another server instance', () => {
+    const token = Buffer.from('other-epoch:1').toString('base64url');
+
+    expect(() => UserEvents.subscribe(token, jest.fn())).toThrow(FailedPreconditionError);
+  });
+
+  it('should stop delivering after unsubscribe', () => {
+    const listener = jest.fn();
+    const unsubscribe = UserEvents.subscribe('', listener);
+
+    unsubscribe();
+    UserEvents.publish('CREATED', { id: 'user_1' });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should close every subscription', () => {
+    const onClose = jest.fn();
+    UserEvents.subscribe('', jest.fn(), onClose);
+
+    UserEvents.closeAll();
+
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,18 +1,32 @@
 import { UserService } from '../../src/BL/user.service';
 import { UserRepository } from '../../src/DAL/user.repository';
+import { AbortedError, AlreadyExistsError, NotFoundError, ValidationError } from '../../src/lib/errors';
+import { UserEvents } from '../../src/BL/user.events';
+import { getConfig } from '../../src/lib/config';
 
 // Mock the repository
 jest.mock('../../src/DAL/user.repository', () => ({
   UserRepository: {
     findById: jest.fn(),
+    findByIds: jest.fn(),
     findAll: jest.fn(),
+    findPage: jest.fn(),
+    streamBatches: jest.fn(),
     create: jest.fn(),
     update: jest.fn(),
-    delete: jest.fn(),
+    softDelete: jest.fn(),
+    restore: jest.fn(),
+    purge: jest.fn(),
+    createMany: jest.fn(),
+    deleteMany: jest.fn(),
   },
 }));
 
 describe('UserService', () => {
+  beforeEach(() => {
+    UserService.reset();
+  });
+
   describe('getUser', () => {
     it('should return user when found', async () => {
       const mockUser = {
@@ -28,15 +42,59 @@ describe('UserService', () => {
       const result = await UserService.getUser('user_1');
 
       expect(result).toEqual(mockUser);
-      expect(UserRepository.findById).toHaveBeenCalledWith('user_1');
+      expect(UserRepository.findById).toHaveBeenCalledWith('user_1', {});
+    });
+
+    it('should throw NotFoundError when user not found', async () => {
+      (UserRepository.findById as jest.Mock).mockResolvedValue(null);
+
+      await expect(UserService.getUser('nonexistent')).rejects.toThrow(NotFoundError);
+    });
+
+    it('should pass include_deleted on to the repository', async () => {
+      (UserRepository.findById as jest.Mock).mockResolvedValue({ id: 'user_1', deletedAt: '2025-10-16T06:34:37.817Z' });
+
+      await UserService.getUser('user_1', { includeDeleted: true });
+
+      expect(UserRepository.findById).toHaveBeenCalledWith('user_1', { includeDeleted: true });
+    });
+  });
+
+  describe('caching', () => {
+    const user = { id: 'user_1', name: 'John Doe', email: 'john@example.com' };
+
+    it('should serve repeated lookups from the cache', async () => {
+      (UserRepository.findById as jest.Mock).mockResolvedValue(user);
+
+      await UserService.getUser('user_1');
+      await expect(UserService.getUser('user_1')).resolves.toEqual(user);
+
+      expect(UserRepository.findById).toHaveBeenCalledTimes(1);
+      expect(UserService.cacheStats()).toEqual({ hits: 1, misses: 1 });
     });
 
-    it('should return null when user not found', async () => {
+    it('should remember users that were not found', async () => {
       (UserRepository.findById as jest.Mock).mockResolvedValue(null);
 
-      const result = await UserService.getUser('nonexistent');
+      await expect(UserService.getUser('nonexistent')).rejects.toThrow(NotFoundError);
+      await expect(UserService.getUser('nonexistent')).rejects.toThrow(NotFoundError);
+
+      expect(UserRepository.findById).toHaveBeenCalledTimes(1);
+    });
+
+    it('should drop the cached user and list pages on writes', async () => {
+      (UserRepository.findById as jest.Mock).mockResolvedValue(user);
+      (UserRepository.findAll as jest.Mock).mockResolvedValue({ users: [user], total: 1 });
+      (UserRepository.update as jest.Mock).mockResolvedValue({ ...user, name: 'Jane Doe' });
+      await UserService.getUser('user_1');
+      await UserService.listUsers(1, 10);
+
+      await UserService.updateUser({ id: 'user_1', name: 'Jane Doe' });
+      await UserService.getUser('user_1');
+      await UserService.listUsers(1, 10);
 
-      expect(result).toBeNull();
+      expect(UserRepository.findById).toHaveBeenCalledTimes(2);
+      expect(UserRepository.findAll).toHaveBeenCalledTimes(2);
     });
   });
 
@@ -59,6 +117,17 @@ describe('UserService', () => {
       expect(result).toEqual(mockUser);
       expect(UserRepository.create).toHaveBeenCalledWith(input);
     });
+
+    it('should publish a CREATED event', async () => {
+      const listener = jest.fn();
+      const unsubscribe = UserService.watchUsers('', listener);
+      (UserRepository.create as jest.Mock).mockResolvedValue({ id: 'user_2', name: 'Jane', email: 'jane@example.com' });
+
+      await UserService.createUser({ name: 'Jane', email: 'jane@example.com' });
+      unsubscribe();
+
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ type: 'CREATED' }));
+    });
   });
 
   describe('updateUser', () => {
@@ -79,7 +148,7 @@ describe('UserService', () => {
       expect(UserRepository.update).toHaveBeenCalledWith(input);
     });
 
-    it('should return null when user not found', async () => {
+    it('should throw NotFoundError when user not found', async () => {
       const input = {
         id: 'nonexistent',
         name: 'Test',
@@ -87,28 +156,103 @@ describe('UserService', () => {
 
       (UserRepository.update as jest.Mock).mockResolvedValue(null);
 
-      const result = await UserService.updateUser(input);
+      await expect(UserService.updateUser(input)).rejects.toThrow(NotFoundError);
+    });
+
+    it('should neither publish nor swallow conflicting updates', async () => {
+      const publish = jest.spyOn(UserEvents, 'publish');
+      (UserRepository.update as jest.Mock).mockRejectedValue(new AbortedError('User user_1 has changed'));
 
-      expect(result).toBeNull();
+      await expect(UserService.updateUser({ id: 'user_1', name: 'Test', etag: '1' })).rejects.toThrow(AbortedError);
+      expect(publish).not.toHaveBeenCalled();
     });
   });
 
   describe('deleteUser', () => {
-    it('should delete user and return true', async () => {
-      (UserRepository.delete as jest.Mock).mockResolvedValue(true);
+    it('should soft-delete user and return true', async () => {
+      (UserRepository.softDelete as jest.Mock).mockResolvedValue(true);
 
       const result = await UserService.deleteUser('user_1');
 
       expect(result).toBe(true);
-      expect(UserRepository.delete).toHaveBeenCalledWith('user_1');
+      expect(UserRepository.softDelete).toHaveBeenCalledWith('user_1');
+    });
+
+    it('should publish a DELETED event with the user id', async () => {
+      const publish = jest.spyOn(UserEvents, 'publish');
+      (UserRepository.softDelete as jest.Mock).mockResolvedValue(true);
+
+      await UserService.deleteUser('user_1');
+
+      expect(publish).toHaveBeenCalledWith('DELETED', { id: 'user_1' });
+      publish.mockRestore();
+    });
+
+    it('should succeed without publishing when the user is already deleted', async () => {
+      const publish = jest.spyOn(UserEvents, 'publish');
+      (UserRepository.softDelete as jest.Mock).mockResolvedValue(false);
+
+      await expect(UserService.deleteUser('user_1')).resolves.toBe(true);
+
+      expect(publish).not.toHaveBeenCalled();
+      publish.mockRestore();
     });
 
-    it('should return false when user not found', async () => {
-      (UserRepository.delete as jest.Mock).mockResolvedValue(false);
+    it('should throw NotFoundError when user not found', async () => {
+      (UserRepository.softDelete as jest.Mock).mockResolvedValue(null);
+
+      await expect(UserService.deleteUser('nonexistent')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('restoreUser', () => {
+    const user = { id: 'user_1', name: 'John Doe', email: 'john@example.com', deletedAt: null };
+
+    it('should restore a deleted user and publish a RESTORED event', async () => {
+      const publish = jest.spyOn(UserEvents, 'publish');
+      (UserRepository.restore as jest.Mock).mockResolvedValue({ user, restored: true });
+
+      await expect(UserService.restoreUser('user_1')).resolves.toEqual(user);
+
+      expect(publish).toHaveBeenCalledWith('RESTORED', user);
+      publish.mockRestore();
+    });
+
+    it('should return a live user unchanged', async () => {
+      const publish = jest.spyOn(UserEvents, 'publish');
+      (UserRepository.restore as jest.Mock).mockResolvedValue({ user, restored: false });
+
+      await expect(UserService.restoreUser('user_1')).resolves.toEqual(user);
+
+      expect(publish).not.toHaveBeenCalled();
+      publish.mockRestore();
+    });
 
-      const result = await UserService.deleteUser('nonexistent');
+    it('should throw NotFoundError when user not found', async () => {
+      (UserRepository.restore as jest.Mock).mockResolvedValue(null);
 
-      expect(result).toBe(false);
+      await expect(UserService.restoreUser('nonexistent')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('purgeUser', () => {
+    it('should publish DELETED only for users that were not soft-deleted', async () => {
+      const publish = jest.spyOn(UserEvents, 'publish');
+      (UserRepository.purge as jest.Mock)
+        .mockResolvedValueOnce({ id: 'user_1', deletedAt: '2025-10-16T06:34:37.817Z' })
+        .mockResolvedValueOnce({ id: 'user_2', deletedAt: null });
+
+      await expect(UserService.purgeUser('user_1')).resolves.toBe(true);
+      await expect(UserService.purgeUser('user_2')).resolves.toBe(true);
+
+      expect(publish.mock.calls).toEqual([['DELETED', { id: 'user_2' }]]);
+      publish.mockRestore();
+    });
+
+    it('should propagate NotFoundError for unknown users', async () => {
+      (UserRepository.purge as jest.Mock).mockRejectedValue(new NotFoundError('User', 'missing'));
+
+      await expect(UserService.purgeUser('missing')).rejects.toThrow(NotFoundError);
     });
   });
 
@@ -132,7 +276,100 @@ describe('UserService', () => {
       const result = await UserService.listUsers(1, 10);
 
       expect(result).toEqual(mockResponse);
-      expect(UserRepository.findAll).toHaveBeenCalledWith(1, 10);
+      expect(UserRepository.findAll).toHaveBeenCalledWith(1, 10, false);
+    });
+
+    it('should cap the page size whatever the caller asks for', async () => {
+      (UserRepository.findAll as jest.Mock).mockResolvedValue({ users: [], total: 0 });
+
+      await UserService.listUsers(0, 100_000);
+
+      expect(UserRepository.findAll).toHaveBeenCalledWith(1, getConfig().pagination.maxPageSize, false);
+    });
+  });
+
+  describe('listUsersByCursor', () => {
+    it('should return a page of users with the next page token', async () => {
+      const query = {
+        pageSize: 10,
+        page_token: '',
+        order_by: { field: 'name' as const, direction: 'asc' as const },
+        filter: {},
+        include_deleted: false,
+      };
+      const mockResponse = { users: [], total: 0, nextPageToken: '' };
+
+      (UserRepository.findPage as jest.Mock).mockResolvedValue(mockResponse);
+
+      const result = await UserService.listUsersByCursor(query);
+
+      expect(result).toEqual(mockResponse);
+      expect(UserRepository.findPage).toHaveBeenCalledWith(query);
+    });
+  });
+
+  describe('batchGetUsers', () => {
+    it('should return users in request order and NotFoundError for missing ids', async () => {
+      const user = { id: 'user_1', name: 'John Doe', email: 'john@example.com' };
+      (UserRepository.findByIds as jest.Mock).mockResolvedValue([user]);
+
+      const result = await UserService.batchGetUsers(['missing', 'user_1']);
+
+      expect(result[0]).toEqual({ id: 'missing', error: expect.any(NotFoundError) });
+      expect(result[1]).toEqual({ id: 'user_1', user });
+    });
+  });
+
+  describe('batchCreateUsers', () => {
+    const valid = { name: 'Jane Doe', email: 'jane@example.com' };
+    const invalid = { name: '', email: 'not-an-email' };
+
+    it('should report each item outcome in partial mode', async () => {
+      (UserRepository.create as jest.Mock)
+        .mockResolvedValueOnce({ id: 'user_2', ...valid })
+        .mockRejectedValueOnce(new AlreadyExistsError('User with the same email already exists'));
+
+      const result = await UserService.batchCreateUsers([valid, invalid, valid], false);
+
+      expect(result[0]).toEqual({ index: 0, user: { id: 'user_2', ...valid } });
+      expect(result[1].error).toBeInstanceOf(ValidationError);
+      expect(result[2].error).toBeInstanceOf(AlreadyExistsError);
+      expect(UserRepository.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject the whole batch in atomic mode when an item is invalid', async () => {
+      const promise = UserService.batchCreateUsers([valid, invalid], true);
+
+      await expect(promise).rejects.toThrow(ValidationError);
+      await expect(promise).rejects.toMatchObject({
+        violations: expect.arrayContaining([expect.objectContaining({ field: 'users.1.email' })]),
+      });
+      expect(UserRepository.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should create every user in one transaction in atomic mode', async () => {
+      (UserRepository.createMany as jest.Mock).mockResolvedValue([{ id: 'user_2', ...valid }]);
+
+      const result = await UserService.batchCreateUsers([valid], true);
+
+      expect(result).toEqual([{ index: 0, user: { id: 'user_2', ...valid } }]);
+      expect(UserRepository.createMany).toHaveBeenCalledWith([valid]);
+    });
+  });
+
+  describe('batchDeleteUsers', () => {
+    it('should report each item outcome in partial mode', async () => {
+      (UserRepository.softDelete as jest.Mock).mockResolvedValueOnce(true).mockResolvedValueOnce(null);
+
+      const result = await UserService.batchDeleteUsers(['user_1', 'missing'], false);
+
+      expect(result).toEqual([{ id: 'user_1' }, { id: 'missing', error: expect.any(NotFoundError) }]);
+    });
+
+    it('should propagate the failure in atomic mode', async () => {
+      (UserRepository.deleteMany as jest.Mock).mockRejectedValue(new NotFoundError('User', 'missing'));
+
+      await expect(UserService.batchDeleteUsers(['user_1', 'missing'], true)).rejects.toThrow(NotFoundError);
     });
   });
 });
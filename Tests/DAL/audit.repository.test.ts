@@ -0,0 +1,131 @@
+import * as grpc from '@grpc/grpc-js';
+import { prismaMock } from '../../__mocks__/singleton';
+import { AuditRepository } from '../../src/DAL/audit.repository';
+import type { TransactionClient } from '../../src/DAL/prismaClient';
+import { ListAuditEventsQuerySchema } from '../../src/DTO/audit.dto';
+import { configure, getConfig } from '../../src/lib/config';
+import { runWithRequestContext } from '../../src/lib/context';
+import { ValidationError } from '../../src/lib/errors';
+import { encodePageToken, queryFingerprint } from '../../src/lib/pagination';
+
+const tx = prismaMock as unknown as TransactionClient;
+const alice = { name: 'Alice', email: 'alice@example.com', deletedAt: null };
+
+const rows = [3, 2, 1].map(id => ({
+  id,
+  userId: 'user_1',
+  action: 'UPDATED',
+  actor: 'admin',
+  method: '/user.UserService/UpdateUser',
+  requestId: `req-${id}`,
+  changes: JSON.stringify([{ field: 'name', before: 'Alice', after: 'Alicia' }]),
+  timestamp: new Date('2025-10-16T06:00:00.000Z'),
+}));
+
+describe('AuditRepository', () => {
+  describe('record', () => {
+    it('should attribute the event to the actor, method and request of the call', async () => {
+      const context = { requestId: 'req-1', method: '/user.UserService/UpdateUser', actor: 'admin' };
+
+      await runWithRequestContext(context, () =>
+        AuditRepository.record(tx, 'UPDATED', 'user_1', alice, { ...alice, name: 'Alicia' })
+      );
+
+      expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+        data: {
+          userId: 'user_1',
+          action: 'UPDATED',
+          actor: 'admin',
+          method: '/user.UserService/UpdateUser',
+          requestId: 'req-1',
+          changes: JSON.stringify([{ field: 'name', before: 'Alice', after: 'Alicia' }]),
+        },
+      });
+    });
+
+    it('should redact emails as configured', async () => {
+      const config = getConfig();
+      const changed = { ...alice, email: 'alice@example.org' };
+
+      try {
+        configure({ ...config, audit: { emailRedaction: 'hash' } });
+        await AuditRepository.record(tx, 'UPDATED', 'user_1', alice, changed);
+        configure({ ...config, audit: { emailRedaction: 'none' } });
+        await AuditRepository.record(tx, 'UPDATED', 'user_1', alice, changed);
+      } finally {
+        configure(config);
+      }
+
+      const [hashed, plain] = prismaMock.auditEvent.create.mock.calls.map(([args]) =>
+        JSON.parse(args.data.changes as string)
+      );
+      expect(hashed).toEqual([
+        { field: 'email', before: expect.stringMatching(/^sha256:[0-9a-f]{16}$/), after: expect.any(String) },
+      ]);
+      expect(hashed[0].before).not.toBe(hashed[0].after);
+      expect(plain).toEqual([{ field: 'email', before: 'alice@example.com', after: 'alice@example.org' }]);
+    });
+  });
+
+  describe('findPage', () => {
+    it('should filter and page newest first', async () => {
+      prismaMock.auditEvent.findMany.mockResolvedValue(rows);
+      const query = ListAuditEventsQuerySchema.parse({
+        page_size: 2,
+        user_id: 'user_1',
+        action: 'UPDATED',
+        from: '2025-10-16T00:00:00.000Z',
+      });
+
+      const page = await AuditRepository.findPage(query);
+
+      expect(prismaMock.auditEvent.findMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user_1',
+          actor: undefined,
+          action: 'UPDATED',
+          timestamp: { gte: new Date('2025-10-16T00:00:00.000Z'), lt: undefined },
+        },
+        orderBy: { id: 'desc' },
+        take: 3,
+      });
+      expect(page.events.map(event => event.id)).toEqual(['3', '2']);
+      expect(page.events[0]).toEqual({
+        id: '3',
+        userId: 'user_1',
+        action: 'UPDATED',
+        actor: 'admin',
+        method: '/user.UserService/UpdateUser',
+        requestId: 'req-3',
+        changes: [{ field: 'name', before: 'Alice', after: 'Alicia' }],
+        occurredAt: '2025-10-16T06:00:00.000Z',
+      });
+
+      await AuditRepository.findPage({ ...query, page_token: page.nextPageToken });
+      expect(prismaMock.auditEvent.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({ where: expect.objectContaining({ id: { lt: 2 } }) })
+      );
+    });
+
+    it('should reject tokens issued for other filters', async () => {
+      prismaMock.auditEvent.findMany.mockResolvedValue(rows);
+      const query = ListAuditEventsQuerySchema.parse({ page_size: 2, actor: 'admin' });
+      const { nextPageToken } = await AuditRepository.findPage(query);
+
+      await expect(AuditRepository.findPage({ ...query, actor: 'someone', page_token: nextPageToken })).rejects.toThrow(
+        ValidationError
+      );
+    });
+
+    it('should reject tokens whose cursor is not an event id', async () => {
+      const query = ListAuditEventsQuerySchema.parse({ actor: 'admin' });
+      const page_token = encodePageToken('abc', queryFingerprint({ actor: 'admin' }));
+
+      await expect(AuditRepository.findPage({ ...query, page_token })).rejects.toMatchObject({
+        code: grpc.status.INVALID_ARGUMENT,
+        violations: [{ field: 'page_token', description: 'Malformed token' }],
+      });
+      expect(prismaMock.auditEvent.findMany).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { Prisma } from '@prisma/client';
+import { prismaMock } from '../../__mocks__/singleton';
+import { IdempotencyRepository } from '../../src/DAL/idempotency.repository';
+
+const expiresAt = new Date('2025-10-17T06:00:00.000Z');
+
+describe('IdempotencyRepository', () => {
+  describe('claim', () => {
+    it('should create the key when it is not taken', async () => {
+      prismaMock.idempotencyKey.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(IdempotencyRepository.claim('billing:key-1', 'hash', expiresAt)).resolves.toBeNull();
+      expect(prismaMock.idempotencyKey.create).toHaveBeenCalledWith({
+        data: { key: 'billing:key-1', requestHash: 'hash', expiresAt },
+      });
+    });
+
+    it('should take over an expired key', async () => {
+      prismaMock.idempotencyKey.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(IdempotencyRepository.claim('billing:key-1', 'hash', expiresAt)).resolves.toBeNull();
+      expect(prismaMock.idempotencyKey.updateMany).toHaveBeenCalledWith({
+        where: { key: 'billing:key-1', expiresAt: { lte: expect.any(Date) } },
+        data: { requestHash: 'hash', response: null, expiresAt, createdAt: expect.any(Date) },
+      });
+      expect(prismaMock.idempotencyKey.create).not.toHaveBeenCalled();
+    });
+
+    it('should resolve the record of a key already taken', async () => {
+      prismaMock.idempotencyKey.updateMany.mockResolvedValue({ count: 0 });
+      prismaMock.idempotencyKey.create.mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+          code: 'P2002',
+          clientVersion: '6.17.1',
+          meta: { target: ['key'] },
+        })
+      );
+      prismaMock.idempotencyKey.findUnique.mockResolvedValue({
+        key: 'billing:key-1',
+        requestHash: 'hash',
+        response: JSON.stringify({ user: { id: 'user_1' } }),
+        expiresAt,
+        createdAt: new Date('2025-10-16T06:00:00.000Z'),
+      });
+
+      await expect(IdempotencyRepository.claim('billing:key-1', 'hash', expiresAt)).resolves.toEqual({
+        requestHash: 'hash',
+        response: { user: { id: 'user_1' } },
+        expiresAt,
+      });
+    });
+  });
+
+  describe('release', () => {
+    it('should only drop keys without a stored response', async () => {
+      await IdempotencyRepository.release('billing:key-1');
+
+      expect(prismaMock.idempotencyKey.deleteMany).toHaveBeenCalledWith({
+        where: { key: 'billing:key-1', response: null },
+      });
+    });
+  });
+});
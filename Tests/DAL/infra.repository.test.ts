@@ -0,0 +1,39 @@
+import { prismaMock } from '../../__mocks__/singleton';
+import { InfraRepository } from '../../src/DAL/infra.repository';
+
+const check = (id: number, timestamp: string) => ({ id, status: 'healthy', timestamp: new Date(timestamp), error: null });
+
+describe('InfraRepository', () => {
+  describe('findHealthChecks', () => {
+    it('should put the last check before the range first', async () => {
+      const previous = check(1, '2025-10-16T05:59:30.000Z');
+      const within = [check(2, '2025-10-16T06:00:00.000Z'), check(3, '2025-10-16T06:00:30.000Z')];
+      prismaMock.$transaction.mockResolvedValue([previous, within]);
+      const from = new Date('2025-10-16T06:00:00.000Z');
+      const to = new Date('2025-10-16T07:00:00.000Z');
+
+      await expect(InfraRepository.findHealthChecks(from, to)).resolves.toEqual([previous, ...within]);
+      expect(prismaMock.healthCheck.findMany).toHaveBeenCalledWith({
+        where: { timestamp: { gte: from, lte: to } },
+        orderBy: { timestamp: 'asc' },
+      });
+    });
+
+    it('should return the checks in range alone when none precedes it', async () => {
+      const within = [check(2, '2025-10-16T06:00:00.000Z')];
+      prismaMock.$transaction.mockResolvedValue([null, within]);
+
+      await expect(InfraRepository.findHealthChecks(new Date(0), new Date())).resolves.toEqual(within);
+    });
+  });
+
+  describe('deleteHealthChecksBefore', () => {
+    it('should return the number of deleted checks', async () => {
+      prismaMock.healthCheck.deleteMany.mockResolvedValue({ count: 3 });
+      const cutoff = new Date('2025-10-01T00:00:00.000Z');
+
+      await expect(InfraRepository.deleteHealthChecksBefore(cutoff)).resolves.toBe(3);
+      expect(prismaMock.healthCheck.deleteMany).toHaveBeenCalledWith({ where: { timestamp: { lt: cutoff } } });
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { prismaMock } from '../../__mocks__/singleton';
+import { OutboxRepository } from '../../src/DAL/outbox.repository';
+import type { TransactionClient } from '../../src/DAL/prismaClient';
+
+const user = {
+  id: 'user_1',
+  name: 'Alice',
+  email: 'alice@example.com',
+  createdAt: '2025-10-16T06:00:00.000Z',
+  updatedAt: '2025-10-16T06:00:00.000Z',
+  deletedAt: null,
+  version: 1,
+};
+
+const row = {
+  id: 7,
+  type: 'UserCreated',
+  userId: 'user_1',
+  payload: JSON.stringify(user),
+  status: 'pending',
+  attempts: 2,
+  nextAttemptAt: new Date('2025-10-16T06:00:04.000Z'),
+  lastError: 'webhook: Webhook responded 503',
+  createdAt: new Date('2025-10-16T06:00:00.000Z'),
+  deliveredAt: null,
+};
+
+describe('OutboxRepository', () => {
+  describe('enqueue', () => {
+    it('should store the user with ISO 8601 timestamps', async () => {
+      const stored = { ...user, updatedAt: '2025-10-16 07:30:00', deletedAt: '2025-10-16 07:30:00' };
+
+      await OutboxRepository.enqueue(prismaMock as unknown as TransactionClient, 'UserDeleted', stored);
+
+      expect(prismaMock.outboxEvent.create).toHaveBeenCalledWith({
+        data: {
+          type: 'UserDeleted',
+          userId: 'user_1',
+          payload: JSON.stringify({ ...user, updatedAt: '2025-10-16T07:30:00Z', deletedAt: '2025-10-16T07:30:00Z' }),
+        },
+      });
+    });
+  });
+
+  describe('findDue', () => {
+    it('should turn due pending events into messages, oldest first', async () => {
+      prismaMock.outboxEvent.findMany.mockResolvedValue([row]);
+      const now = new Date('2025-10-16T06:00:05.000Z');
+
+      await expect(OutboxRepository.findDue(now, 10)).resolves.toEqual([
+        {
+          id: 7,
+          attempts: 2,
+          message: {
+            id: '7',
+            type: 'UserCreated',
+            userId: 'user_1',
+            user,
+            occurredAt: '2025-10-16T06:00:00.000Z',
+            attempt: 3,
+          },
+        },
+      ]);
+      expect(prismaMock.outboxEvent.findMany).toHaveBeenCalledWith({
+        where: { status: 'pending', nextAttemptAt: { lte: now } },
+        orderBy: { id: 'asc' },
+        take: 10,
+      });
+    });
+  });
+
+  describe('markFailed', () => {
+    it('should schedule a retry, or dead-letter the event without one', async () => {
+      const retryAt = new Date('2025-10-16T06:00:08.000Z');
+
+      await OutboxRepository.markFailed(7, 3, 'boom', retryAt);
+      await OutboxRepository.markFailed(7, 10, 'boom');
+
+      expect(prismaMock.outboxEvent.update.mock.calls.map(([args]) => args.data)).toEqual([
+        { attempts: 3, lastError: 'boom', nextAttemptAt: retryAt },
+        { status: 'dead', attempts: 10, lastError: 'boom' },
+      ]);
+    });
+  });
+
+  describe('requeue', () => {
+    it('should requeue the given events or else the dead letters', async () => {
+      prismaMock.outboxEvent.updateMany.mockResolvedValue({ count: 2 });
+
+      await expect(OutboxRepository.requeue([1, 2])).resolves.toBe(2);
+      await OutboxRepository.requeue([]);
+
+      const reset = {
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: expect.any(Date),
+        lastError: null,
+        deliveredAt: null,
+      };
+      expect(prismaMock.outboxEvent.updateMany).toHaveBeenNthCalledWith(1, {
+        where: { id: { in: [1, 2] } },
+        data: reset,
+      });
+      expect(prismaMock.outboxEvent.updateMany).toHaveBeenNthCalledWith(2, { where: { status: 'dead' }, data: reset });
+    });
+  });
+});
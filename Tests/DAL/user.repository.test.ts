@@ -0,0 +1,301 @@
+import type { PrismaClient } from '@prisma/client';
+import { prismaMock } from '../../__mocks__/singleton';
+import type { TransactionClient } from '../../src/DAL/prismaClient';
+import { UserRepository } from '../../src/DAL/user.repository';
+import { ListUsersQuerySchema, StreamUsersQuerySchema } from '../../src/DTO/user.dto';
+import { AbortedError, ValidationError } from '../../src/lib/errors';
+
+const users = [
+  {
+    id: 'user_1',
+    name: 'Alice',
+    email: 'alice@example.com',
+    createdAt: '2025-10-16T06:00:00.000Z',
+    updatedAt: '2025-10-16T09:00:00.000Z',
+    deletedAt: null,
+    version: 1,
+  },
+  {
+    id: 'user_2',
+    name: 'Bob',
+    email: 'bob@example.com',
+    createdAt: '2025-10-16T07:00:00.000Z',
+    updatedAt: '2025-10-16T09:00:00.000Z',
+    deletedAt: null,
+    version: 1,
+  },
+  {
+    id: 'user_3',
+    name: 'Carol',
+    email: 'carol@example.com',
+    createdAt: '2025-10-16T08:00:00.000Z',
+    updatedAt: '2025-10-16T09:00:00.000Z',
+    deletedAt: null,
+    version: 1,
+  },
+];
+
+const tx = prismaMock as unknown as TransactionClient;
+
+// Format of the column defaults, which written timestamps must follow too
+const storedTimestamp = expect.stringMatching(/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d+)?$/);
+
+describe('UserRepository', () => {
+  describe('findPage', () => {
+    it('should return a next page token when more rows exist', async () => {
+      prismaMock.$transaction.mockResolvedValue([users, 3]);
+
+      const result = await UserRepository.findPage(ListUsersQuerySchema.parse({ pageSize: 2, order_by: 'name' }));
+
+      expect(result.users).toEqual(users.slice(0, 2));
+      expect(result.total).toBe(3);
+      expect(result.nextPageToken).not.toBe('');
+      expect(prismaMock.user.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ orderBy: [{ name: 'asc' }, { id: 'asc' }], take: 3 })
+      );
+    });
+
+    it('should keep users created on the boundary day on the right side of created_after/created_before', async () => {
+      prismaMock.$transaction.mockResolvedValue([[], 0]);
+
+      await UserRepository.findPage(
+        ListUsersQuerySchema.parse({
+          filter: 'created_after=2024-01-01T00:00:00Z AND created_before=2024-01-02T00:00:00Z',
+        })
+      );
+
+      const bounds = { gt: '2024-01-01 00:00:00', lt: '2024-01-02 00:00:00' };
+      expect(prismaMock.user.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { AND: [{ deletedAt: null, createdAt: bounds }] } })
+      );
+      // SQLite compares the strings byte by byte, as JavaScript does
+      const storedOnBoundaryDay = '2024-01-01 10:00:00';
+      expect(storedOnBoundaryDay > bounds.gt && storedOnBoundaryDay < bounds.lt).toBe(true);
+      expect('2024-01-02 10:00:00' < bounds.lt).toBe(false);
+    });
+
+    it('should resume after the cursor of the previous page', async () => {
+      prismaMock.$transaction.mockResolvedValue([users, 3]);
+      const first = await UserRepository.findPage(ListUsersQuerySchema.parse({ pageSize: 2, order_by: 'name' }));
+
+      prismaMock.$transaction.mockResolvedValue([users.slice(2), 3]);
+      const second = await UserRepository.findPage(
+        ListUsersQuerySchema.parse({ pageSize: 2, order_by: 'name', page_token: first.nextPageToken })
+      );
+
+      expect(second.users).toEqual(users.slice(2));
+      expect(second.nextPageToken).toBe('');
+      expect(prismaMock.user.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: {
+            AND: [{ deletedAt: null }, { OR: [{ name: { gt: 'Bob' } }, { name: 'Bob', id: { gt: 'user_2' } }] }],
+          },
+        })
+      );
+    });
+
+    it('should translate filters into where clauses', async () => {
+      prismaMock.$transaction.mockResolvedValue([[], 0]);
+
+      await UserRepository.findPage(
+        ListUsersQuerySchema.parse({ filter: 'email_domain = example.com AND name_contains = li' })
+      );
+
+      expect(prismaMock.user.count).toHaveBeenCalledWith({
+        where: { deletedAt: null, email: { endsWith: '@example.com' }, name: { contains: 'li' } },
+      });
+    });
+
+    it('should reject a token issued for another ordering', async () => {
+      prismaMock.$transaction.mockResolvedValue([users, 3]);
+      const first = await UserRepository.findPage(ListUsersQuerySchema.parse({ pageSize: 2, order_by: 'name' }));
+
+      await expect(
+        UserRepository.findPage(
+          ListUsersQuerySchema.parse({ pageSize: 2, order_by: 'email', page_token: first.nextPageToken })
+        )
+      ).rejects.toThrow(ValidationError);
+    });
+  });
+
+  describe('streamBatches', () => {
+    it('should query batch after batch until a short batch is returned', async () => {
+      prismaMock.user.findMany.mockResolvedValueOnce(users.slice(0, 2)).mockResolvedValueOnce(users.slice(2));
+
+      const batches = [];
+      for await (const batch of UserRepository.streamBatches(StreamUsersQuerySchema.parse({ batch_size: 2 }))) {
+        batches.push(batch);
+      }
+
+      expect(batches).toEqual([users.slice(0, 2), users.slice(2)]);
+      expect(prismaMock.user.findMany).toHaveBeenCalledTimes(2);
+      expect(prismaMock.user.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: {
+            AND: [
+              { deletedAt: null },
+              {
+                OR: [
+                  { createdAt: { gt: '2025-10-16T07:00:00.000Z' } },
+                  { createdAt: '2025-10-16T07:00:00.000Z', id: { gt: 'user_2' } },
+                ],
+              },
+            ],
+          },
+        })
+      );
+    });
+  });
+
+  describe('findById', () => {
+    it('should hide soft-deleted users unless asked for', async () => {
+      const deleted = { ...users[0], deletedAt: '2025-10-17T00:00:00.000Z' };
+      prismaMock.user.findUnique.mockResolvedValue(deleted);
+
+      await expect(UserRepository.findById('user_1')).resolves.toBeNull();
+      await expect(UserRepository.findById('user_1', { includeDeleted: true })).resolves.toEqual(deleted);
+    });
+  });
+
+  describe('mutations', () => {
+    const deleted = { ...users[0], deletedAt: '2025-10-17T00:00:00.000Z' };
+
+    beforeEach(() => {
+      const runInTransaction = (callback: (tx: TransactionClient) => Promise<unknown>) => callback(tx);
+      prismaMock.$transaction.mockImplementation(runInTransaction as PrismaClient['$transaction']);
+    });
+
+    describe('create', () => {
+      it('should record the creation in the same transaction', async () => {
+        prismaMock.user.create.mockResolvedValue(users[0]);
+
+        await expect(UserRepository.create({ name: 'Alice', email: 'alice@example.com' })).resolves.toEqual(users[0]);
+        expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+          data: {
+            userId: 'user_1',
+            action: 'CREATED',
+            actor: 'system',
+            method: null,
+            requestId: null,
+            changes: JSON.stringify([
+              { field: 'name', after: 'Alice' },
+              { field: 'email', after: 'a***@example.com' },
+            ]),
+          },
+        });
+        expect(prismaMock.outboxEvent.create).toHaveBeenCalledWith({
+          data: { type: 'UserCreated', userId: 'user_1', payload: JSON.stringify(users[0]) },
+        });
+      });
+    });
+
+    describe('update', () => {
+      it('should only write the version the etag names', async () => {
+        const updated = { ...users[0], name: 'Alicia', version: 3 };
+        prismaMock.user.findUnique.mockResolvedValue({ ...users[0], version: 2 });
+        prismaMock.user.updateMany.mockResolvedValue({ count: 1 });
+        prismaMock.user.findUniqueOrThrow.mockResolvedValue(updated);
+
+        await expect(UserRepository.update({ id: 'user_1', etag: '2', name: 'Alicia' })).resolves.toEqual(updated);
+        expect(prismaMock.user.updateMany).toHaveBeenCalledWith({
+          where: { id: 'user_1', version: 2 },
+          data: { name: 'Alicia', updatedAt: storedTimestamp, version: { increment: 1 } },
+        });
+        expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({
+            action: 'UPDATED',
+            changes: JSON.stringify([{ field: 'name', before: 'Alice', after: 'Alicia' }]),
+          }),
+        });
+      });
+
+      it('should reject stale etags with ABORTED', async () => {
+        prismaMock.user.findUnique.mockResolvedValue({ ...users[0], version: 3 });
+
+        await expect(UserRepository.update({ id: 'user_1', etag: '2', name: 'Alicia' })).rejects.toThrow(
+          new AbortedError('User user_1 has changed since etag 2 was read, current etag is 3')
+        );
+        expect(prismaMock.user.updateMany).not.toHaveBeenCalled();
+      });
+
+      it('should abort when a concurrent update wins the race', async () => {
+        prismaMock.user.findUnique.mockResolvedValue(users[0]);
+        prismaMock.user.updateMany.mockResolvedValue({ count: 0 });
+
+        await expect(UserRepository.update({ id: 'user_1', name: 'Alicia' })).rejects.toThrow(AbortedError);
+        expect(prismaMock.auditEvent.create).not.toHaveBeenCalled();
+        expect(prismaMock.outboxEvent.create).not.toHaveBeenCalled();
+      });
+
+      it('should resolve null for missing or deleted users', async () => {
+        prismaMock.user.findUnique.mockResolvedValueOnce(null).mockResolvedValueOnce(deleted);
+
+        await expect(UserRepository.update({ id: 'missing', etag: '1', name: 'Alicia' })).resolves.toBeNull();
+        await expect(UserRepository.update({ id: 'user_1', name: 'Alicia' })).resolves.toBeNull();
+      });
+    });
+
+    describe('softDelete', () => {
+      it('should only mark users that are not deleted yet', async () => {
+        prismaMock.user.findUnique.mockResolvedValue(users[0]);
+        prismaMock.user.update.mockResolvedValue(deleted);
+
+        await expect(UserRepository.softDelete('user_1')).resolves.toBe(true);
+        expect(prismaMock.user.update).toHaveBeenCalledWith({
+          where: { id: 'user_1' },
+          data: { deletedAt: storedTimestamp, updatedAt: storedTimestamp, version: { increment: 1 } },
+        });
+        expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({
+            action: 'DELETED',
+            changes: JSON.stringify([{ field: 'deletedAt', after: deleted.deletedAt }]),
+          }),
+        });
+      });
+
+      it('should tell already deleted users from missing ones', async () => {
+        prismaMock.user.findUnique.mockResolvedValueOnce(deleted).mockResolvedValueOnce(null);
+
+        await expect(UserRepository.softDelete('user_1')).resolves.toBe(false);
+        await expect(UserRepository.softDelete('missing')).resolves.toBeNull();
+        expect(prismaMock.user.update).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('restore', () => {
+      it('should clear the deletion mark of deleted users only', async () => {
+        prismaMock.user.findUnique.mockResolvedValueOnce(deleted).mockResolvedValueOnce(users[1]);
+        prismaMock.user.update.mockResolvedValue(users[0]);
+
+        await expect(UserRepository.restore('user_1')).resolves.toEqual({ user: users[0], restored: true });
+        await expect(UserRepository.restore('user_2')).resolves.toEqual({ user: users[1], restored: false });
+        expect(prismaMock.user.update).toHaveBeenCalledTimes(1);
+        expect(prismaMock.user.update).toHaveBeenCalledWith({
+          where: { id: 'user_1' },
+          data: { deletedAt: null, updatedAt: storedTimestamp, version: { increment: 1 } },
+        });
+        expect(prismaMock.auditEvent.create).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('purge', () => {
+      it('should keep a trace of the removed user', async () => {
+        prismaMock.user.delete.mockResolvedValue(users[0]);
+
+        await UserRepository.purge('user_1');
+        expect(prismaMock.auditEvent.create).toHaveBeenCalledWith({
+          data: expect.objectContaining({
+            action: 'PURGED',
+            changes: JSON.stringify([
+              { field: 'name', before: 'Alice' },
+              { field: 'email', before: 'a***@example.com' },
+            ]),
+          }),
+        });
+        expect(prismaMock.outboxEvent.create).toHaveBeenCalledWith({
+          data: { type: 'UserPurged', userId: 'user_1', payload: JSON.stringify(users[0]) },
+        });
+      });
+    });
+  });
+});
@@ -62,4 +62,48 @@ describe('HealthStatusSchema', () => {
     const result = HealthStatusSchema.safeParse(invalidHealthStatus);
     expect(result.success).toBe(false);
   });
+
+  it('should validate per-component results alongside liveness and readiness', () => {
+    const result = HealthStatusSchema.safeParse({
+      status: 'unhealthy',
+      timestamp: '2025-10-16T06:34:37.817Z',
+      database: 'connected',
+      error: 'disk: 12 MiB free',
+      live: true,
+      ready: false,
+      components: [
+        {
+          name: 'disk',
+          status: 'unhealthy',
+          latencyMs: 0.42,
+          message: '12 MiB free',
+          critical: true,
+          liveness: false,
+          checkedAt: '2025-10-16T06:34:37.800Z',
+        },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject components with an unknown status', () => {
+    const result = HealthStatusSchema.safeParse({
+      status: 'healthy',
+      timestamp: '2025-10-16T06:34:37.817Z',
+      database: 'connected',
+      components: [
+        {
+          name: 'disk',
+          status: 'degraded',
+          latencyMs: 1,
+          critical: true,
+          liveness: false,
+          checkedAt: '2025-10-16T06:34:37.800Z',
+        },
+      ],
+    });
+
+    expect(result.success).toBe(false);
+  });
 });
@@ -1,4 +1,11 @@
-import { UserSchema, CreateUserSchema, UpdateUserSchema } from '../../src/DTO/user.dto';
+import {
+  UserSchema,
+  CreateUserSchema,
+  UpdateUserSchema,
+  ListUsersQuerySchema,
+  BatchIdsSchema,
+} from '../../src/DTO/user.dto';
+import { configure, getConfig, loadConfig } from '../../src/lib/config';
 
 describe('User DTOs', () => {
   describe('UserSchema', () => {
@@ -9,6 +16,7 @@ describe('User DTOs', () => {
         email: 'john@example.com',
         createdAt: '2025-10-16T06:34:37.817Z',
         updatedAt: '2025-10-16T06:34:37.817Z',
+        version: 1,
       };
 
       const result = UserSchema.safeParse(validUser);
@@ -25,6 +33,7 @@ describe('User DTOs', () => {
         email: 'not-an-email',
         createdAt: '2025-10-16T06:34:37.817Z',
         updatedAt: '2025-10-16T06:34:37.817Z',
+        version: 1,
       };
 
       const result = UserSchema.safeParse(invalidUser);
@@ -38,6 +47,7 @@ describe('User DTOs', () => {
         email: 'john@example.com',
         createdAt: 'not-a-datetime',
         updatedAt: '2025-10-16T06:34:37.817Z',
+        version: 1,
       };
 
       const result = UserSchema.safeParse(invalidUser);
@@ -117,5 +127,103 @@ describe('User DTOs', () => {
       const result = UpdateUserSchema.safeParse(invalidInput);
       expect(result.success).toBe(false);
     });
+
+    it('should treat proto3 empty strings as unset fields', () => {
+      const result = UpdateUserSchema.parse({ id: 'user_1', name: '', email: 'john.updated@example.com' });
+
+      expect(result.name).toBeUndefined();
+      expect(result.email).toBe('john.updated@example.com');
+    });
+
+    it('should reject an empty id', () => {
+      const result = UpdateUserSchema.safeParse({ id: '', name: 'John Updated' });
+      expect(result.success).toBe(false);
+    });
+
+    it('should write only the fields of the update mask', () => {
+      const request = { id: 'user_1', name: 'John Updated', email: 'john.updated@example.com', etag: '3' };
+
+      expect(UpdateUserSchema.parse({ ...request, update_mask: { paths: ['name'] } })).toEqual({
+        id: 'user_1',
+        name: 'John Updated',
+        etag: '3',
+      });
+      expect(UpdateUserSchema.parse({ ...request, update_mask: { paths: ['*'] } })).toEqual(request);
+    });
+
+    it('should validate masked fields even when empty', () => {
+      const result = UpdateUserSchema.safeParse({ id: 'user_1', name: '', update_mask: { paths: ['name'] } });
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].path).toEqual(['name']);
+    });
+
+    it('should reject unknown mask paths and foreign etags', () => {
+      expect(UpdateUserSchema.safeParse({ id: 'user_1', update_mask: { paths: ['createdAt'] } }).error?.issues).toEqual(
+        [expect.objectContaining({ path: ['update_mask', 'paths'], message: 'Unknown field: createdAt' })]
+      );
+      expect(UpdateUserSchema.safeParse({ id: 'user_1', name: 'John', etag: 'W/"3"' }).success).toBe(false);
+    });
+  });
+
+  describe('ListUsersQuerySchema', () => {
+    it('should apply defaults for proto3 empty values', () => {
+      const result = ListUsersQuerySchema.parse({ pageSize: 0, page_token: '', order_by: '', filter: '' });
+
+      expect(result).toEqual({
+        pageSize: 10,
+        page_token: '',
+        order_by: { field: 'createdAt', direction: 'asc' },
+        filter: {},
+        include_deleted: false,
+      });
+    });
+
+    it('should parse order_by and filter expressions', () => {
+      const result = ListUsersQuerySchema.parse({
+        pageSize: 25,
+        order_by: 'email DESC',
+        filter: 'email_domain = "example.com" AND name_contains=john AND created_after=2025-01-01T00:00:00Z',
+      });
+
+      expect(result.order_by).toEqual({ field: 'email', direction: 'desc' });
+      expect(result.filter).toEqual({
+        emailDomain: 'example.com',
+        nameContains: 'john',
+        createdAfter: '2025-01-01T00:00:00Z',
+      });
+    });
+
+    it('should reject unknown order_by fields', () => {
+      const result = ListUsersQuerySchema.safeParse({ order_by: 'password' });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject unsupported filter terms', () => {
+      const result = ListUsersQuerySchema.safeParse({ filter: 'role = admin' });
+      expect(result.success).toBe(false);
+    });
+
+    it('should reject negative and oversized page sizes', () => {
+      expect(ListUsersQuerySchema.safeParse({ pageSize: -1 }).success).toBe(false);
+      expect(ListUsersQuerySchema.safeParse({ pageSize: 100000 }).success).toBe(false);
+    });
+
+    it('should follow the pagination limits configured after the module was loaded', () => {
+      const previous = getConfig();
+      configure(
+        loadConfig({ env: { USER_DEFAULT_PAGE_SIZE: '2', USER_MAX_PAGE_SIZE: '5', USER_MAX_BATCH_SIZE: '1' } })
+      );
+
+      try {
+        expect(ListUsersQuerySchema.parse({}).pageSize).toBe(2);
+        expect(ListUsersQuerySchema.safeParse({ pageSize: 6 }).error?.issues).toEqual([
+          expect.objectContaining({ code: 'too_big', maximum: 5, path: ['pageSize'] }),
+        ]);
+        expect(BatchIdsSchema.safeParse({ ids: ['user_1', 'user_2'] }).success).toBe(false);
+      } finally {
+        configure(previous);
+      }
+    });
   });
 });
@@ -0,0 +1,164 @@
+import * as grpc from '@grpc/grpc-js';
+import { createHmac } from 'crypto';
+import {
+  createApiKeyAuthenticator,
+  createAuthInterceptor,
+  createJwtAuthenticator,
+  getPrincipal,
+  requestId,
+} from '../../src/lib/auth';
+import { runWithRequestContext } from '../../src/lib/context';
+import { PermissionDeniedError, UnauthenticatedError } from '../../src/lib/errors';
+import type { CallContext } from '../../src/lib/interceptors';
+
+const secret = 'test-secret';
+
+function sign(claims: Record<string, unknown>, key = secret, header: Record<string, unknown> = {}): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const unsigned = `${encode({ alg: 'HS256', typ: 'JWT', ...header })}.${encode(claims)}`;
+  return `${unsigned}.${createHmac('sha256', key).update(unsigned).digest('base64url')}`;
+}
+
+function createContext(method: string, authorization?: string, request: unknown = {}): CallContext {
+  const metadata = new grpc.Metadata();
+  if (authorization) metadata.set('authorization', authorization);
+
+  return {
+    path: `/user.UserService/${method}`,
+    service: 'user.UserService',
+    method,
+    type: 'unary',
+    call: {} as CallContext['call'],
+    metadata,
+    deadline: Infinity,
+    peer: 'ipv4:127.0.0.1:1234',
+    request,
+    state: {},
+  };
+}
+
+describe('auth', () => {
+  const jwt = createJwtAuthenticator({ keys: { default: secret } });
+  const apiKey = createApiKeyAuthenticator({ 'key-123': { subject: 'billing', scopes: ['users:read'] } });
+
+  describe('createJwtAuthenticator', () => {
+    it('should return the principal of a valid token', () => {
+      const token = sign({ sub: 'user_1', scope: 'users:read users:write' });
+
+      expect(jwt('Bearer', token)).toEqual({ subject: 'user_1', scopes: ['users:read', 'users:write'], method: 'jwt' });
+    });
+
+    it('should pick the key matching the kid header', () => {
+      const authenticator = createJwtAuthenticator({ keys: { k1: 'one', k2: 'two' } });
+      const token = sign({ sub: 'user_1' }, 'two', { kid: 'k2' });
+
+      expect(authenticator('Bearer', token)?.subject).toBe('user_1');
+    });
+
+    it('should reject tokens with a bad signature', () => {
+      const token = sign({ sub: 'user_1' }, 'other-secret');
+
+      expect(() => jwt('Bearer', token)).toThrow(UnauthenticatedError);
+    });
+
+    it('should reject expired tokens', () => {
+      const token = sign({ sub: 'user_1', exp: Math.floor(Date.now() / 1000) - 10 });
+
+      expect(() => jwt('Bearer', token)).toThrow('Token expired');
+    });
+
+    it('should reject expiry and not-before claims that are not numbers', () => {
+      const expiry = String(Math.floor(Date.now() / 1000) - 10);
+
+      expect(() => jwt('Bearer', sign({ sub: 'user_1', exp: expiry }))).toThrow('Invalid token exp');
+      expect(() => jwt('Bearer', sign({ sub: 'user_1', nbf: null }))).toThrow('Invalid token nbf');
+    });
+
+    it('should reject algorithms and key ids naming object prototype members', () => {
+      for (const header of [{ alg: 'constructor' }, { kid: '__proto__' }, { kid: 'toString' }, { alg: ['HS256'] }]) {
+        expect(() => jwt('Bearer', sign({ sub: 'user_1' }, secret, header))).toThrow(
+          new UnauthenticatedError('Unsupported token algorithm or key')
+        );
+      }
+    });
+
+    it('should reject scopes that are not a list of strings', () => {
+      expect(() => jwt('Bearer', sign({ sub: 'user_1', scopes: ['users:read', 42] }))).toThrow('Invalid token scopes');
+      expect(() => jwt('Bearer', sign({ sub: 'user_1', scopes: 'users:read' }))).toThrow('Invalid token scopes');
+      expect(jwt('Bearer', sign({ sub: 'user_1', scopes: ['users:read'] }))?.scopes).toEqual(['users:read']);
+    });
+
+    it('should ignore other schemes', () => {
+      expect(jwt('ApiKey', 'key-123')).toBeNull();
+    });
+  });
+
+  describe('createApiKeyAuthenticator', () => {
+    it('should return the principal of a known key', () => {
+      expect(apiKey('ApiKey', 'key-123')).toEqual({ subject: 'billing', scopes: ['users:read'], method: 'apiKey' });
+    });
+
+    it('should reject unknown keys', () => {
+      expect(() => apiKey('ApiKey', 'nope')).toThrow(UnauthenticatedError);
+    });
+  });
+
+  describe('createAuthInterceptor', () => {
+    const interceptor = createAuthInterceptor({
+      authenticators: [jwt, apiKey],
+      policies: {
+        'user.UserService/GetUser': { scopes: ['users:read'], self: requestId },
+        'user.UserService/DeleteUser': { scopes: ['admin'] },
+        'user.UserService/Ping': { public: true },
+      },
+    });
+    const next = jest.fn().mockResolvedValue('response');
+
+    it('should reject calls without credentials', async () => {
+      await expect(interceptor(createContext('GetUser'), next)).rejects.toThrow(UnauthenticatedError);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should let public methods through without credentials', async () => {
+      await expect(interceptor(createContext('Ping'), next)).resolves.toBe('response');
+    });
+
+    it('should attach the principal and call the handler when scopes match', async () => {
+      const ctx = createContext('GetUser', 'ApiKey key-123', { id: 'user_9' });
+
+      await expect(interceptor(ctx, next)).resolves.toBe('response');
+      expect(getPrincipal(ctx)?.subject).toBe('billing');
+    });
+
+    it('should allow users to read themselves without the scope', async () => {
+      const ctx = createContext('GetUser', `Bearer ${sign({ sub: 'user_1' })}`, { id: 'user_1' });
+
+      await expect(interceptor(ctx, next)).resolves.toBe('response');
+    });
+
+    it('should deny users reading someone else', async () => {
+      const ctx = createContext('GetUser', `Bearer ${sign({ sub: 'user_1' })}`, { id: 'user_2' });
+
+      await expect(interceptor(ctx, next)).rejects.toThrow(PermissionDeniedError);
+    });
+
+    it('should require the admin scope to delete users', async () => {
+      const reader = createContext('DeleteUser', 'ApiKey key-123', { id: 'user_1' });
+      const admin = createContext('DeleteUser', `Bearer ${sign({ sub: 'ops', scope: 'admin' })}`, { id: 'user_1' });
+
+      await expect(interceptor(reader, next)).rejects.toThrow(PermissionDeniedError);
+      await expect(interceptor(admin, next)).resolves.toBe('response');
+    });
+
+    it('should replace the actor claimed in metadata with the principal', async () => {
+      const context = { requestId: 'req-1', actor: 'someone-else' };
+      const ctx = createContext('GetUser', 'ApiKey key-123', { id: 'user_9' });
+
+      await runWithRequestContext(context, () => interceptor(ctx, next));
+      expect(context.actor).toBe('billing');
+
+      await runWithRequestContext(context, () => interceptor(createContext('Ping'), next));
+      expect(context.actor).toBeUndefined();
+    });
+  });
+});
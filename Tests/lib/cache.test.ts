@@ -0,0 +1,119 @@
+import { createLruCacheStore, createReadThroughCache, type CacheStore } from '../../src/lib/cache';
+
+describe('createLruCacheStore', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should drop the least recently used entry once full', async () => {
+    const store = createLruCacheStore({ maxEntries: 2 });
+    await store.set('a', 1, 60_000);
+    await store.set('b', 2, 60_000);
+
+    await store.get('a');
+    await store.set('c', 3, 60_000);
+
+    expect(await store.get('a')).toBe(1);
+    expect(await store.get('b')).toBeUndefined();
+    expect(await store.get('c')).toBe(3);
+  });
+
+  it('should expire entries after their TTL', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    const store = createLruCacheStore({ maxEntries: 10 });
+    await store.set('a', null, 1000);
+
+    expect(await store.get('a')).toBeNull();
+    now.mockReturnValue(1_000_000 + 1000);
+    expect(await store.get('a')).toBeUndefined();
+  });
+
+  it('should delete keys by name or prefix', async () => {
+    const store = createLruCacheStore({ maxEntries: 10 });
+    await Promise.all(['user:1', 'list:a', 'list:b'].map(key => store.set(key, key, 60_000)));
+
+    await store.deletePrefix('list:');
+    expect(await store.get('list:a')).toBeUndefined();
+    expect(await store.get('user:1')).toBe('user:1');
+
+    await store.delete(['user:1']);
+    expect(await store.get('user:1')).toBeUndefined();
+  });
+});
+
+describe('createReadThroughCache', () => {
+  const options = { name: 'test', ttlMs: 60_000, negativeTtlMs: 5000 };
+  let store: CacheStore;
+  let cache: ReturnType<typeof createReadThroughCache>;
+
+  beforeEach(() => {
+    store = createLruCacheStore({ maxEntries: 10 });
+    cache = createReadThroughCache({ ...options, store });
+  });
+
+  it('should load a value once and serve it from the store after', async () => {
+    const load = jest.fn().mockResolvedValue({ id: 'user_1' });
+
+    await cache.get('user:1', load);
+    await expect(cache.get('user:1', load)).resolves.toEqual({ id: 'user_1' });
+
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(cache.stats()).toEqual({ hits: 1, misses: 1 });
+  });
+
+  it('should remember values that were not found, unless negative caching is off', async () => {
+    const load = jest.fn().mockResolvedValue(null);
+
+    await cache.get('user:1', load);
+    await expect(cache.get('user:1', load)).resolves.toBeNull();
+    expect(load).toHaveBeenCalledTimes(1);
+
+    const uncached = createReadThroughCache({ ...options, store, negativeTtlMs: 0 });
+    await uncached.get('user:2', load);
+    await uncached.get('user:2', load);
+    expect(load).toHaveBeenCalledTimes(3);
+  });
+
+  it('should share one load between concurrent misses', async () => {
+    const load = jest.fn().mockResolvedValue({ id: 'user_1' });
+
+    await Promise.all([cache.get('user:1', load), cache.get('user:1', load)]);
+
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('should load again after an invalidation', async () => {
+    const load = jest.fn().mockResolvedValueOnce({ name: 'Alice' }).mockResolvedValue({ name: 'Alicia' });
+
+    await cache.get('user:1', load);
+    await cache.invalidate(['user:1']);
+
+    await expect(cache.get('user:1', load)).resolves.toEqual({ name: 'Alicia' });
+  });
+
+  it('should not store a value loaded before an invalidation', async () => {
+    let finish: (value: unknown) => void = () => {};
+    const stale = cache.get('user:1', () => new Promise(resolve => (finish = resolve)));
+    // Let the lookup miss, so that the load is under way when the write lands
+    await new Promise(setImmediate);
+
+    await cache.invalidatePrefix('user:');
+    finish({ name: 'Alice' });
+    await expect(stale).resolves.toEqual({ name: 'Alice' });
+
+    expect(await store.get('user:1')).toBeUndefined();
+  });
+
+  it('should fall back to loading when the store fails', async () => {
+    const failing: CacheStore = {
+      get: jest.fn().mockRejectedValue(new Error('connection refused')),
+      set: jest.fn().mockRejectedValue(new Error('connection refused')),
+      delete: jest.fn().mockRejectedValue(new Error('connection refused')),
+      deletePrefix: jest.fn(),
+    };
+    cache = createReadThroughCache({ ...options, store: failing });
+
+    await expect(cache.get('user:1', async () => ({ id: 'user_1' }))).resolves.toEqual({ id: 'user_1' });
+    await expect(cache.invalidate(['user:1'])).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,172 @@
+import * as grpc from '@grpc/grpc-js';
+import type { BatchCreateUsersResult, UserServiceHandlers } from '../../src/DTO/generated/user';
+import { createUserClient, type UserClient } from '../../src/grpc/user.client';
+import {
+  AppError,
+  NotFoundError,
+  UnavailableError,
+  ValidationError,
+} from '../../src/lib/errors';
+import { GrpcServer } from '../../src/lib/grpc';
+
+const user = {
+  id: '1',
+  name: 'Ada',
+  email: 'ada@example.com',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  deletedAt: '',
+  etag: '1',
+};
+
+describe('createUserClient', () => {
+  let server: GrpcServer;
+  let address: string;
+  let client: UserClient;
+  let attempts: Record<string, number>;
+  let idempotencyKeys: string[];
+  let streamCancelled: Promise<void>;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    let onStreamCancelled = () => {};
+    streamCancelled = new Promise(resolve => (onStreamCancelled = () => resolve()));
+    const count = (method: string) => (attempts[method] = (attempts[method] ?? 0) + 1);
+
+    server = new GrpcServer({ reflection: false });
+    server.addService({
+      protoPath: 'user.proto',
+      packageName: 'user',
+      serviceName: 'UserService',
+      implementation: {
+        getUser: async (call, callback) => {
+          const attempt = count('GetUser');
+          if (call.request.id === 'missing') throw new NotFoundError('User', 'missing');
+          if (call.request.id === 'flaky' && attempt < 3) throw new UnavailableError('Database unavailable');
+          if (call.request.id === 'slow') await new Promise(resolve => setTimeout(resolve, 300));
+
+          const [caller] = call.metadata.get('authorization');
+          callback(null, { user: { ...user, id: call.request.id, name: caller?.toString() ?? user.name } });
+        },
+        createUser: async call => {
+          count('CreateUser');
+          idempotencyKeys.push(...call.metadata.get('idempotency-key').map(String));
+          if (!call.request.email) {
+            throw new ValidationError('Invalid request', [{ field: 'email', description: 'Required' }]);
+          }
+          throw new UnavailableError('Database unavailable');
+        },
+        streamUsers: async call => {
+          call.on('cancelled', onStreamCancelled);
+          for (let i = 0; i < 3; i++) call.write({ ...user, id: String(i) });
+          if (call.request.batch_size === 1) return;
+          call.end();
+        },
+        uploadUsers: async (call, callback) => {
+          const results: BatchCreateUsersResult[] = [];
+          for await (const chunk of call) {
+            chunk.users.forEach(() => results.push({ index: results.length, user, status: { code: 0 } }));
+          }
+          callback(null, { results });
+        },
+      } satisfies Partial<UserServiceHandlers>,
+    });
+    address = `127.0.0.1:${await server.start('127.0.0.1:0')}`;
+  });
+
+  beforeEach(() => {
+    attempts = {};
+    idempotencyKeys = [];
+    client = createUserClient(address, {
+      metadata: { authorization: 'Bearer token' },
+      retry: { initialBackoffMs: 10 },
+    });
+  });
+
+  afterEach(() => {
+    client.close();
+  });
+
+  afterAll(() => {
+    server.forceShutdown();
+  });
+
+  it('should resolve typed responses and send the client metadata', async () => {
+    const response = await client.getUser({ id: '1' });
+
+    expect(response.user).toEqual({ ...user, name: 'Bearer token' });
+  });
+
+  it('should rethrow statuses as domain errors with their field violations', async () => {
+    await expect(client.getUser({ id: 'missing' })).rejects.toEqual(expect.any(NotFoundError));
+    await expect(client.getUser({ id: 'missing' })).rejects.toThrow('User missing not found');
+
+    const error = await client.createUser({ name: 'Ada', email: '' }).catch(err => err);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.violations).toEqual([{ field: 'email', description: 'Required' }]);
+  });
+
+  it('should retry idempotent methods on UNAVAILABLE', async () => {
+    const response = await client.getUser({ id: 'flaky' });
+
+    expect(response.user?.id).toBe('flaky');
+    expect(attempts.GetUser).toBe(3);
+  });
+
+  it('should not retry non-idempotent methods', async () => {
+    await expect(client.createUser({ name: 'Ada', email: 'ada@example.com' })).rejects.toEqual(
+      expect.any(UnavailableError)
+    );
+    expect(attempts.CreateUser).toBe(1);
+  });
+
+  it('should retry writes sent with an idempotency key', async () => {
+    await expect(
+      client.createUser({ name: 'Ada', email: 'ada@example.com' }, { idempotencyKey: 'key-1' })
+    ).rejects.toEqual(expect.any(UnavailableError));
+    expect(attempts.CreateUser).toBe(3);
+    expect(idempotencyKeys).toEqual(['key-1', 'key-1', 'key-1']);
+  });
+
+  it('should apply the deadline', async () => {
+    const error = await client.getUser({ id: 'slow' }, { deadlineMs: 50 }).catch(err => err);
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.code).toBe(grpc.status.DEADLINE_EXCEEDED);
+  });
+
+  it('should iterate server streams', async () => {
+    const ids: string[] = [];
+    for await (const streamed of client.streamUsers({})) ids.push(streamed.id);
+
+    expect(ids).toEqual(['0', '1', '2']);
+  });
+
+  it('should cancel a server stream left early', async () => {
+    for await (const streamed of client.streamUsers({ batch_size: 1 })) {
+      expect(streamed.id).toBe('0');
+      break;
+    }
+
+    await expect(streamCancelled).resolves.toBeUndefined();
+  });
+
+  it('should write client streams from an async iterable', async () => {
+    async function* chunks() {
+      yield { users: [{ name: 'Ada', email: 'ada@example.com' }] };
+      yield { users: [{ name: 'Bob', email: 'bob@example.com' }] };
+    }
+
+    const response = await client.uploadUsers(chunks());
+
+    expect(response.results.map(result => result.index)).toEqual([0, 1]);
+  });
+
+  it('should keep a shared channel open until its last client closes', async () => {
+    const other = createUserClient(address);
+    other.close();
+
+    await expect(client.getUser({ id: '1' })).resolves.toBeDefined();
+  });
+});
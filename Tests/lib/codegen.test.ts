@@ -0,0 +1,120 @@
+import type { MethodDefinition, ServiceDefinition } from '@grpc/proto-loader';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { generateProtoModule } from '../../src/lib/codegen';
+import { loadPackageDefinition } from '../../src/lib/grpc';
+import { ListUsersResponseSchema, UserEventSchema } from '../../src/DTO/generated/user';
+
+const protoDir = path.resolve(__dirname, '../../proto');
+const generatedDir = path.resolve(__dirname, '../../src/DTO/generated');
+
+const fixture = `
+syntax = "proto3";
+package demo.v1;
+
+import "google/protobuf/field_mask.proto";
+
+service Catalog {
+  rpc Get (Item) returns (Item);
+  rpc List (Item) returns (stream Item);
+  rpc Upload (stream Item) returns (Item);
+  rpc Sync (stream Item) returns (stream Item);
+}
+
+// An item of the catalog
+message Item {
+  enum Kind {
+    KIND_UNSPECIFIED = 0;
+    BOOK = 1;
+  }
+  string id = 1;
+  Kind kind = 2;
+  int64 stock = 3;
+  oneof price {
+    int32 cents = 4;
+    string label = 5;
+  }
+  optional string note = 6;
+  map<string, Tag> tags = 7;
+  repeated string aliases = 8;
+  bytes blob = 9 [deprecated = true];
+  google.protobuf.FieldMask mask = 10;
+}
+
+message Tag {
+  string value = 1;
+}
+`;
+
+describe('generateProtoModule', () => {
+  let source: string;
+
+  beforeAll(() => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'codegen-'));
+    fs.writeFileSync(path.join(dir, 'demo.proto'), fixture);
+    source = generateProtoModule(path.join(dir, 'demo.proto'), 'demo.proto');
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should generate the committed code of every proto file', () => {
+    const protoFiles = fs.readdirSync(protoDir).filter(file => file.endsWith('.proto'));
+
+    protoFiles.forEach(file => {
+      const generated = fs.readFileSync(path.join(generatedDir, `${path.basename(file, '.proto')}.ts`), 'utf8');
+      expect(generateProtoModule(path.join(protoDir, file), `proto/${file}`)).toBe(generated);
+    });
+  });
+
+  it('should map fields following the proto-loader options', () => {
+    expect(source).toContain("export const Item_KindSchema = z.enum(['KIND_UNSPECIFIED', 'BOOK']);");
+    expect(source).toContain('  stock?: number | string;');
+    expect(source).toContain('  stock: z.string(),');
+    expect(source).toContain('  kind: Item_KindSchema,');
+    expect(source).toContain('  tags: z.record(z.string(), TagSchema),');
+    expect(source).toContain('  aliases?: string[];');
+    expect(source).toContain('  blob: z.instanceof(Buffer),');
+    expect(source).toContain('  /** @deprecated */\n  blob?: Buffer | Uint8Array | string;');
+    expect(source).toContain('/**\n * An item of the catalog\n * `demo.v1.Item` as sent\n */');
+  });
+
+  it('should leave oneof members and optional fields unset on receipt', () => {
+    expect(source).toContain('  cents: z.number().int().optional(),');
+    expect(source).toContain('  note: z.string().optional(),');
+    expect(source).toContain("  price: z.enum(['cents', 'label']).optional(),");
+  });
+
+  it('should declare schemas after the schemas they reference', () => {
+    expect(source.indexOf('export const TagSchema')).toBeLessThan(source.indexOf('export const ItemSchema'));
+  });
+
+  it('should declare the well-known types the messages reference', () => {
+    expect(source).toContain('export const FieldMaskSchema = z.object({\n  paths: z.array(z.string()),\n});');
+    expect(source).toContain('  mask: FieldMaskSchema.nullable(),');
+    expect(source.indexOf('export const FieldMaskSchema')).toBeLessThan(source.indexOf('export const ItemSchema'));
+    expect(source).not.toContain("from './");
+  });
+
+  it('should generate handler signatures for every kind of method', () => {
+    expect(source).toContain('  get: grpc.handleUnaryCall<Item__Output, Item>;');
+    expect(source).toContain('  list: grpc.handleServerStreamingCall<Item__Output, Item>;');
+    expect(source).toContain('  upload: grpc.handleClientStreamingCall<Item__Output, Item>;');
+    expect(source).toContain('  sync: grpc.handleBidiStreamingCall<Item__Output, Item>;');
+  });
+});
+
+describe('generated schemas', () => {
+  const packageDefinition = loadPackageDefinition(path.join(protoDir, 'user.proto'));
+
+  it('should accept messages decoded by proto-loader', () => {
+    const service = packageDefinition['user.UserService'] as ServiceDefinition;
+    const decode = (method: MethodDefinition<object, object>, message: object) =>
+      method.responseDeserialize(method.responseSerialize(message));
+    const decodeList = (message: object) => decode(service.ListUsers, message);
+    const decodeEvent = (message: object) => decode(service.WatchUsers, message);
+
+    expect(ListUsersResponseSchema.safeParse(decodeList({ users: [{ id: '1' }] })).success).toBe(true);
+    expect(UserEventSchema.safeParse(decodeEvent({ type: 'DELETED', user: { id: '1' } })).success).toBe(true);
+    expect(UserEventSchema.parse(decodeEvent({})).user).toBeNull();
+  });
+});
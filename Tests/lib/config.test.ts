@@ -0,0 +1,121 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConfigError, loadConfig } from '../../src/lib/config';
+
+describe('loadConfig', () => {
+  let dir: string;
+
+  beforeAll(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-'));
+    fs.writeFileSync(
+      path.join(dir, 'config.yaml'),
+      `server:
+  address: 0.0.0.0:6000
+  maxMessageBytes: 1048576
+pagination:
+  maxPageSize: 50
+`
+    );
+    fs.writeFileSync(path.join(dir, 'config.json'), JSON.stringify({ health: { checkIntervalMs: 5000 } }));
+    fs.writeFileSync(path.join(dir, 'typo.json'), JSON.stringify({ servr: {} }));
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should fall back to the defaults', () => {
+    const config = loadConfig({ env: { NODE_ENV: 'production' } });
+
+    expect(config.server).toEqual({
+      address: '0.0.0.0:50051',
+      maxMessageBytes: 4 * 1024 * 1024,
+      keepalive: { timeMs: 7200000, timeoutMs: 20000, permitWithoutCalls: false },
+    });
+    expect(config.pagination).toEqual({
+      defaultPageSize: 10,
+      maxPageSize: 100,
+      defaultStreamBatchSize: 100,
+      maxStreamBatchSize: 1000,
+      maxBatchSize: 500,
+    });
+    expect(config.features).toEqual({
+      reflection: false,
+      validateResponses: false,
+      metrics: true,
+      tracing: false,
+      userCache: true,
+    });
+    expect(config.logging.level).toBe('info');
+  });
+
+  it('should layer the config file, then env vars, then CLI flags', () => {
+    const config = loadConfig({
+      argv: ['--config', 'config.yaml', '--pagination.maxPageSize=20', '--features.validateResponses'],
+      env: { GRPC_PORT: '0.0.0.0:7000', USER_MAX_PAGE_SIZE: '30', GRPC_REFLECTION: 'false' },
+      cwd: dir,
+    });
+
+    expect(config.server.address).toBe('0.0.0.0:7000');
+    expect(config.server.maxMessageBytes).toBe(1048576);
+    expect(config.pagination.maxPageSize).toBe(20);
+    expect(config.features.reflection).toBe(false);
+    expect(config.features.validateResponses).toBe(true);
+  });
+
+  it('should read a JSON config file named by CONFIG_FILE', () => {
+    const config = loadConfig({ env: { CONFIG_FILE: 'config.json' }, cwd: dir });
+
+    expect(config.health.checkIntervalMs).toBe(5000);
+  });
+
+  it('should parse JSON env vars and build the TLS section from its variables', () => {
+    const config = loadConfig({
+      env: {
+        AUTH_API_KEYS: '{"k1":{"subject":"svc","scopes":["admin"]}}',
+        GRPC_TLS_CERT: 'server.crt',
+        GRPC_TLS_KEY: 'server.key',
+        GRPC_TLS_REQUIRE_CLIENT_CERT: 'true',
+        HEALTH_DEPENDENCIES: '[{"name":"billing","address":"billing:50051"}]',
+        HEALTH_MAX_HEAP_USED_RATIO: '0.8',
+        RATE_LIMITS: '{"user.UserService/*":{"ratePerSecond":50,"key":"metadata:x-api-client"}}',
+      },
+    });
+
+    expect(config.auth.apiKeys).toEqual({ k1: { subject: 'svc', scopes: ['admin'] } });
+    expect(config.server.tls).toEqual({ certFile: 'server.crt', keyFile: 'server.key', requireClientCert: true });
+    expect(config.health.dependencies).toEqual([
+      { name: 'billing', address: 'billing:50051', service: '', critical: false },
+    ]);
+    expect(config.health.maxHeapUsedRatio).toBe(0.8);
+    expect(config.limits.rateLimits).toEqual({
+      'user.UserService/*': { ratePerSecond: 50, key: 'metadata:x-api-client' },
+    });
+  });
+
+  it('should report every invalid setting with where it came from', () => {
+    const load = () =>
+      loadConfig({
+        argv: ['--metrics.port', 'abc'],
+        env: { USER_DEFAULT_PAGE_SIZE: '500', GRPC_TLS_CERT: 'server.crt' },
+      });
+
+    expect(load).toThrow(ConfigError);
+    expect(load).toThrow(/metrics\.port: .* \(from flag --metrics\.port\)/);
+    expect(load).toThrow(
+      /pagination\.defaultPageSize: defaultPageSize must not exceed maxPageSize \(from env USER_DEFAULT_PAGE_SIZE\)/
+    );
+    expect(load).toThrow(/server\.tls\.keyFile: /);
+  });
+
+  it('should reject unknown settings and unreadable files', () => {
+    expect(() => loadConfig({ argv: ['--config=typo.json'], cwd: dir })).toThrow(
+      'servr: Unknown setting (from config file typo.json)'
+    );
+    expect(() => loadConfig({ argv: ['--config=missing.yaml'], cwd: dir })).toThrow(
+      /Cannot read config file .*missing\.yaml/
+    );
+    expect(() => loadConfig({ argv: ['positional'] })).toThrow('Unexpected argument "positional"');
+  });
+});
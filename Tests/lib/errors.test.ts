@@ -0,0 +1,106 @@
+import * as grpc from '@grpc/grpc-js';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import {
+  AlreadyExistsError,
+  NotFoundError,
+  ResourceExhaustedError,
+  UnavailableError,
+  ValidationError,
+  fromPrismaError,
+  fromServiceError,
+  getFieldViolations,
+  toServiceError,
+} from '../../src/lib/errors';
+
+describe('errors', () => {
+  describe('fromPrismaError', () => {
+    it('should map unique constraint violations to AlreadyExistsError', () => {
+      const error = new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+        code: 'P2002',
+        clientVersion: '6.17.1',
+        meta: { target: ['email'] },
+      });
+
+      const result = fromPrismaError(error, 'User');
+
+      expect(result).toBeInstanceOf(AlreadyExistsError);
+      expect((result as AlreadyExistsError).message).toBe('User with the same email already exists');
+    });
+
+    it('should map missing records to NotFoundError', () => {
+      const error = new Prisma.PrismaClientKnownRequestError('Record not found', {
+        code: 'P2025',
+        clientVersion: '6.17.1',
+      });
+
+      const result = fromPrismaError(error, 'User', 'user_1');
+
+      expect(result).toBeInstanceOf(NotFoundError);
+      expect((result as NotFoundError).message).toBe('User user_1 not found');
+    });
+
+    it('should map initialization failures to UnavailableError', () => {
+      const error = new Prisma.PrismaClientInitializationError("Can't reach database server", '6.17.1');
+
+      const result = fromPrismaError(error, 'User');
+
+      expect(result).toBeInstanceOf(UnavailableError);
+      expect((result as UnavailableError).message).toBe('Database unavailable');
+    });
+
+    it('should leave unrelated errors untouched', () => {
+      const error = new Error('boom');
+
+      expect(fromPrismaError(error, 'User')).toBe(error);
+    });
+  });
+
+  describe('toServiceError', () => {
+    it('should use the status code of domain errors', () => {
+      const result = toServiceError(new NotFoundError('User', 'user_1'));
+
+      expect(result.code).toBe(grpc.status.NOT_FOUND);
+      expect(result.details).toBe('User user_1 not found');
+      expect(result.metadata?.get('error-type')).toEqual(['NotFoundError']);
+    });
+
+    it('should map Zod errors to INVALID_ARGUMENT with field violations', () => {
+      const parsed = z.object({ email: z.string().email() }).safeParse({ email: 'nope' });
+      if (parsed.success) throw new Error('expected validation to fail');
+
+      const result = toServiceError(parsed.error);
+
+      expect(result.code).toBe(grpc.status.INVALID_ARGUMENT);
+      expect(getFieldViolations(result.metadata!)).toEqual([
+        { field: 'email', description: expect.any(String) },
+      ]);
+    });
+
+    it('should keep violations from ValidationError', () => {
+      const error = new ValidationError('Invalid request', [{ field: 'id', description: 'Required' }]);
+
+      const result = toServiceError(error);
+
+      expect(getFieldViolations(result.metadata!)).toEqual([{ field: 'id', description: 'Required' }]);
+    });
+
+    it('should carry the retry-after hint of RESOURCE_EXHAUSTED errors', () => {
+      const result = toServiceError(new ResourceExhaustedError('Rate limit exceeded', 250));
+
+      expect(result.code).toBe(grpc.status.RESOURCE_EXHAUSTED);
+      expect(result.metadata?.get('retry-after-ms')).toEqual(['250']);
+
+      const rebuilt = fromServiceError(result as grpc.ServiceError);
+      expect(rebuilt).toBeInstanceOf(ResourceExhaustedError);
+      expect((rebuilt as ResourceExhaustedError).retryAfterMs).toBe(250);
+    });
+
+    it('should map unknown errors to INTERNAL without their details', () => {
+      const result = toServiceError(new Error('SQLITE_ERROR: no such table: main.User'));
+
+      expect(result.code).toBe(grpc.status.INTERNAL);
+      expect(result.details).toBe('Internal error');
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import * as grpc from '@grpc/grpc-js';
+import { runWithRequestContext } from '../../src/lib/context';
+import { AbortedError, NotFoundError, ValidationError } from '../../src/lib/errors';
+import { createIdempotencyInterceptor, createMemoryIdempotencyStore } from '../../src/lib/idempotency';
+import type { CallContext } from '../../src/lib/interceptors';
+
+function createContext(method: string, request: unknown, idempotencyKey?: string): CallContext {
+  const metadata = new grpc.Metadata();
+  if (idempotencyKey !== undefined) metadata.set('idempotency-key', idempotencyKey);
+
+  return {
+    path: `/user.UserService/${method}`,
+    service: 'user.UserService',
+    method,
+    type: 'unary',
+    call: {} as CallContext['call'],
+    metadata,
+    deadline: Infinity,
+    peer: 'ipv4:127.0.0.1:1234',
+    request,
+    state: {},
+  };
+}
+
+describe('createIdempotencyInterceptor', () => {
+  const alice = { name: 'Alice', email: 'alice@example.com' };
+  let interceptor: ReturnType<typeof createIdempotencyInterceptor>;
+  let next: jest.Mock;
+
+  beforeEach(() => {
+    interceptor = createIdempotencyInterceptor({
+      methods: ['CreateUser', 'DeleteUser'],
+      store: createMemoryIdempotencyStore(),
+      ttlMs: 60_000,
+    });
+    next = jest
+      .fn()
+      .mockResolvedValueOnce({ user: { id: 'user_1' } })
+      .mockResolvedValue({ user: { id: 'user_2' } });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should replay the stored response to retries with the same key', async () => {
+    const first = await interceptor(createContext('CreateUser', alice, 'key-1'), next);
+    const retry = await interceptor(createContext('CreateUser', alice, 'key-1'), next);
+
+    expect(retry).toEqual({ user: { id: 'user_1' } });
+    expect(retry).toEqual(first);
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject a key reused with another request or method', async () => {
+    await interceptor(createContext('CreateUser', alice, 'key-1'), next);
+
+    await expect(interceptor(createContext('CreateUser', { ...alice, name: 'Bob' }, 'key-1'), next)).rejects.toThrow(
+      new ValidationError('idempotency-key was already used with a different request')
+    );
+    await expect(interceptor(createContext('DeleteUser', { id: 'user_1' }, 'key-1'), next)).rejects.toThrow(
+      ValidationError
+    );
+  });
+
+  it('should reject retries while the first call is running', async () => {
+    let finish: (value: unknown) => void = () => {};
+    next.mockReset().mockReturnValueOnce(new Promise(resolve => (finish = resolve)));
+
+    const first = interceptor(createContext('CreateUser', alice, 'key-1'), next);
+    await expect(interceptor(createContext('CreateUser', alice, 'key-1'), next)).rejects.toThrow(AbortedError);
+
+    finish({ user: { id: 'user_1' } });
+    await expect(first).resolves.toEqual({ user: { id: 'user_1' } });
+  });
+
+  it('should let failed calls be retried with the same key', async () => {
+    next.mockReset().mockRejectedValueOnce(new NotFoundError('User', 'user_1')).mockResolvedValue({ success: true });
+
+    await expect(interceptor(createContext('DeleteUser', { id: 'user_1' }, 'key-1'), next)).rejects.toThrow(
+      NotFoundError
+    );
+    await expect(interceptor(createContext('DeleteUser', { id: 'user_1' }, 'key-1'), next)).resolves.toEqual({
+      success: true,
+    });
+  });
+
+  it('should release the key when the response cannot be stored', async () => {
+    const store = createMemoryIdempotencyStore();
+    jest.spyOn(store, 'complete').mockRejectedValueOnce(new Error('database is locked'));
+    interceptor = createIdempotencyInterceptor({ methods: ['CreateUser'], store, ttlMs: 60_000 });
+
+    await expect(interceptor(createContext('CreateUser', alice, 'key-1'), next)).resolves.toEqual({
+      user: { id: 'user_1' },
+    });
+    await expect(interceptor(createContext('CreateUser', alice, 'key-1'), next)).resolves.toEqual({
+      user: { id: 'user_2' },
+    });
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it('should run the call again once the key has expired', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    await interceptor(createContext('CreateUser', alice, 'key-1'), next);
+
+    now.mockReturnValue(1_000_000 + 60_000);
+    await expect(interceptor(createContext('CreateUser', alice, 'key-1'), next)).resolves.toEqual({
+      user: { id: 'user_2' },
+    });
+  });
+
+  it('should scope keys to the actor of the call', async () => {
+    const call = (actor: string) =>
+      runWithRequestContext({ requestId: 'req-1', actor }, () =>
+        interceptor(createContext('CreateUser', alice, 'key-1'), next)
+      );
+
+    await call('billing');
+    await expect(call('crm')).resolves.toEqual({ user: { id: 'user_2' } });
+  });
+
+  it('should leave calls without a key, or to other methods, alone', async () => {
+    await interceptor(createContext('CreateUser', alice), next);
+    await interceptor(createContext('CreateUser', alice), next);
+    await interceptor(createContext('GetUser', { id: 'user_1' }, 'key-1'), next);
+    await interceptor(createContext('GetUser', { id: 'user_1' }, 'key-1'), next);
+
+    expect(next).toHaveBeenCalledTimes(4);
+  });
+
+  it('should reject malformed keys', async () => {
+    await expect(interceptor(createContext('CreateUser', alice, 'k'.repeat(256)), next)).rejects.toThrow(
+      ValidationError
+    );
+  });
+});
@@ -0,0 +1,141 @@
+import * as grpc from '@grpc/grpc-js';
+import type { InfraServiceHandlers } from '../../src/DTO/generated/infra';
+import { findServiceDefinition, GrpcServer, loadProtoFile, type ServerInterceptor } from '../../src/lib/grpc';
+import { getCallContext } from '../../src/lib/interceptors';
+import { NotFoundError } from '../../src/lib/errors';
+import path from 'path';
+
+const healthy = {
+  status: 'healthy',
+  timestamp: '2025-10-16T06:34:37.817Z',
+  database: 'connected',
+  error: '',
+  live: true,
+  ready: true,
+  components: [],
+};
+
+describe('GrpcServer interceptors', () => {
+  let server: GrpcServer;
+  let client: InstanceType<grpc.ServiceClientConstructor>;
+  let handler: jest.Mock;
+  let interceptors: ServerInterceptor[];
+
+  const healthCheck = (metadata = new grpc.Metadata()) =>
+    new Promise<{ error: grpc.ServiceError | null; response: unknown }>(resolve => {
+      client.healthCheck({}, metadata, (error: grpc.ServiceError | null, response: unknown) =>
+        resolve({ error, response })
+      );
+    });
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    handler = jest.fn();
+    interceptors = [];
+    server = new GrpcServer();
+    server.use((ctx, next) => (interceptors[0] ? interceptors[0](ctx, next) : next()));
+    server.addService({
+      protoPath: 'infra.proto',
+      packageName: 'infra',
+      serviceName: 'InfraService',
+      implementation: {
+        healthCheck: (call, callback) => handler(call, callback),
+      } satisfies Partial<InfraServiceHandlers>,
+      interceptors: [(ctx, next) => (interceptors[1] ? interceptors[1](ctx, next) : next())],
+    });
+    const port = await server.start('127.0.0.1:0');
+
+    const proto = loadProtoFile(path.resolve(__dirname, '../../proto/infra.proto'));
+    const InfraService = grpc.makeClientConstructor(
+      findServiceDefinition(proto, 'infra.InfraService')!,
+      'InfraService'
+    );
+    client = new InfraService(`127.0.0.1:${port}`, grpc.credentials.createInsecure());
+  });
+
+  afterAll(async () => {
+    client.close();
+    server.forceShutdown();
+  });
+
+  beforeEach(() => {
+    interceptors = [];
+    handler.mockImplementation((call, callback) => callback(null, healthy));
+  });
+
+  it('should run global interceptors before service interceptors with call details', async () => {
+    const order: string[] = [];
+    interceptors = [
+      async (ctx, next) => {
+        order.push(`global:${ctx.path}:${ctx.type}`);
+        const response = await next();
+        order.push('global:after');
+        return response;
+      },
+      async (ctx, next) => {
+        order.push(`service:${ctx.metadata.get('x-test')[0]}`);
+        return next();
+      },
+    ];
+    const metadata = new grpc.Metadata();
+    metadata.set('x-test', 'value');
+
+    const { error, response } = await healthCheck(metadata);
+
+    expect(error).toBeNull();
+    expect(response).toEqual(healthy);
+    expect(order).toEqual(['global:/infra.InfraService/HealthCheck:unary', 'service:value', 'global:after']);
+  });
+
+  it('should let interceptors short-circuit with a status', async () => {
+    interceptors = [
+      async () => {
+        throw new NotFoundError('Thing');
+      },
+    ];
+
+    const { error } = await healthCheck();
+
+    expect(error?.code).toBe(grpc.status.NOT_FOUND);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should let interceptors replace the response', async () => {
+    interceptors = [
+      async (ctx, next) => {
+        await next();
+        return { ...healthy, status: 'unhealthy' };
+      },
+    ];
+
+    const { response } = await healthCheck();
+
+    expect(response).toEqual({ ...healthy, status: 'unhealthy' });
+  });
+
+  it('should map errors thrown by handlers to a status', async () => {
+    handler.mockRejectedValue(new NotFoundError('User', 'user_1'));
+
+    const { error } = await healthCheck();
+
+    expect(error?.code).toBe(grpc.status.NOT_FOUND);
+    expect(error?.details).toBe('User user_1 not found');
+  });
+
+  it('should expose the call context to handlers', async () => {
+    interceptors = [
+      async (ctx, next) => {
+        ctx.state.seen = true;
+        return next();
+      },
+    ];
+    handler.mockImplementation((call, callback) => {
+      callback(null, { ...healthy, error: String(getCallContext(call)?.state.seen) });
+    });
+
+    const { response } = await healthCheck();
+
+    expect(response).toEqual({ ...healthy, error: 'true' });
+  });
+});
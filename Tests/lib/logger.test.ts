@@ -0,0 +1,194 @@
+import * as grpc from '@grpc/grpc-js';
+import type { InfraServiceHandlers } from '../../src/DTO/generated/infra';
+import { createInfraClient, type InfraClient } from '../../src/grpc/infra.client';
+import { getRequestContext, runWithRequestContext } from '../../src/lib/context';
+import { NotFoundError } from '../../src/lib/errors';
+import { GrpcServer } from '../../src/lib/grpc';
+import { Logger, type LoggerOptions } from '../../src/lib/logger';
+
+function createTestLogger(options: LoggerOptions = {}) {
+  const lines: Array<Record<string, unknown>> = [];
+  const log = new Logger({ level: 'debug', ...options, write: line => lines.push(JSON.parse(line)) });
+
+  return { log, lines };
+}
+
+const healthy = {
+  status: 'healthy',
+  timestamp: '2025-10-16T06:34:37.817Z',
+  database: 'connected',
+  error: '',
+};
+
+describe('Logger', () => {
+  it('should write JSON lines with level, message and fields', () => {
+    const { log, lines } = createTestLogger();
+
+    log.info('User created', { userId: '1' });
+
+    expect(lines).toEqual([{ time: expect.any(String), level: 'info', msg: 'User created', userId: '1' }]);
+  });
+
+  it('should skip levels below the configured one', () => {
+    const { log, lines } = createTestLogger({ level: 'warn' });
+
+    log.debug('debug');
+    log.info('info');
+    log.warn('warn');
+    log.error('error');
+
+    expect(lines.map(line => line.level)).toEqual(['warn', 'error']);
+  });
+
+  it('should redact sensitive fields at any depth', () => {
+    const { log, lines } = createTestLogger();
+
+    log.info('Request', { user: { id: '1', Email: 'ada@example.com' }, users: [{ email: 'bob@example.com' }] });
+
+    expect(lines[0].user).toEqual({ id: '1', Email: '[REDACTED]' });
+    expect(lines[0].users).toEqual([{ email: '[REDACTED]' }]);
+  });
+
+  it('should serialize errors with their stack', () => {
+    const { log, lines } = createTestLogger();
+
+    log.error('Failed', { error: new NotFoundError('User', '1') });
+
+    expect(lines[0].error).toEqual({
+      name: 'NotFoundError',
+      message: 'User 1 not found',
+      code: grpc.status.NOT_FOUND,
+      stack: expect.stringContaining('NotFoundError'),
+    });
+  });
+
+  it('should add the bindings of child loggers', () => {
+    const { log, lines } = createTestLogger({ bindings: { service: 'api' } });
+
+    log.child({ component: 'UserService' }).child({ component: 'UserRepository' }).info('Query');
+
+    expect(lines[0]).toEqual(expect.objectContaining({ service: 'api', component: 'UserRepository' }));
+  });
+
+  it('should carry the request ID of the current context across awaits', async () => {
+    const { log, lines } = createTestLogger();
+
+    await runWithRequestContext({ requestId: 'req-1' }, async () => {
+      await new Promise(resolve => setImmediate(resolve));
+      log.info('inside');
+    });
+    log.info('outside');
+
+    expect(lines.map(line => line.requestId)).toEqual(['req-1', undefined]);
+  });
+});
+
+describe('GrpcServer access log', () => {
+  let server: GrpcServer;
+  let client: InfraClient;
+  let handler: jest.Mock;
+  const { log, lines } = createTestLogger();
+
+  beforeAll(async () => {
+    handler = jest.fn();
+    server = new GrpcServer({ reflection: false, logger: log });
+    server.addService({
+      protoPath: 'infra.proto',
+      packageName: 'infra',
+      serviceName: 'InfraService',
+      implementation: {
+        healthCheck: (call, callback) => handler(call, callback),
+      } satisfies Partial<InfraServiceHandlers>,
+    });
+    const port = await server.start('127.0.0.1:0');
+    client = createInfraClient(`127.0.0.1:${port}`, { retry: false });
+  });
+
+  afterAll(() => {
+    client.close();
+    server.forceShutdown();
+  });
+
+  beforeEach(() => {
+    lines.length = 0;
+  });
+
+  const accessLines = () => lines.filter(line => line.component === 'access');
+
+  it('should log one line per call with method, peer, status and duration', async () => {
+    handler.mockImplementation((call, callback) => callback(null, healthy));
+
+    await client.healthCheck();
+
+    expect(accessLines()).toEqual([
+      expect.objectContaining({
+        level: 'info',
+        msg: 'RPC finished',
+        method: '/infra.InfraService/HealthCheck',
+        type: 'unary',
+        peer: expect.stringContaining('127.0.0.1'),
+        code: grpc.status.OK,
+        status: 'OK',
+        durationMs: expect.any(Number),
+        requestId: expect.stringMatching(/^[0-9a-f-]{36}$/),
+      }),
+    ]);
+  });
+
+  it('should share the x-request-id of the call with logs written while handling it', async () => {
+    handler.mockImplementation(async (call, callback) => {
+      await new Promise(resolve => setImmediate(resolve));
+      log.info('Handling');
+      callback(null, healthy);
+    });
+
+    await client.healthCheck({ metadata: { 'x-request-id': 'abc-123' } });
+
+    expect(lines.map(line => [line.msg, line.requestId])).toEqual([
+      ['Handling', 'abc-123'],
+      ['RPC finished', 'abc-123'],
+    ]);
+  });
+
+  it('should expose the actor claimed in x-actor to the handler', async () => {
+    let actor: string | undefined;
+    handler.mockImplementation((call, callback) => {
+      actor = getRequestContext()?.actor;
+      callback(null, healthy);
+    });
+
+    await client.healthCheck({ metadata: { 'x-actor': 'ops' } });
+
+    expect(actor).toBe('ops');
+  });
+
+  it('should log failed calls with their status code', async () => {
+    handler.mockImplementation((call, callback) => callback(new NotFoundError('Health record')));
+    await expect(client.healthCheck()).rejects.toThrow();
+
+    handler.mockImplementation(() => {
+      throw new Error('database exploded');
+    });
+    await expect(client.healthCheck()).rejects.toThrow();
+
+    const [notFound, internal] = accessLines();
+    expect(notFound).toEqual(
+      expect.objectContaining({ level: 'warn', status: 'NOT_FOUND', details: 'Health record not found' })
+    );
+    expect(internal).toEqual(
+      expect.objectContaining({
+        level: 'error',
+        status: 'INTERNAL',
+        error: expect.objectContaining({ message: 'database exploded' }),
+      })
+    );
+  });
+
+  it('should forward the request ID of the current context on outgoing calls', async () => {
+    handler.mockImplementation((call, callback) => callback(null, healthy));
+
+    await runWithRequestContext({ requestId: 'upstream-1' }, () => client.healthCheck());
+
+    expect(accessLines()).toEqual([expect.objectContaining({ requestId: 'upstream-1' })]);
+  });
+});
@@ -0,0 +1,100 @@
+import type { InfraServiceHandlers } from '../../src/DTO/generated/infra';
+import { createInfraClient, type InfraClient } from '../../src/grpc/infra.client';
+import { NotFoundError } from '../../src/lib/errors';
+import { GrpcServer } from '../../src/lib/grpc';
+import { registry } from '../../src/lib/metrics';
+
+const healthy = {
+  status: 'healthy',
+  timestamp: '2025-10-16T06:34:37.817Z',
+  database: 'connected',
+  error: '',
+};
+
+describe('GrpcServer metrics', () => {
+  let server: GrpcServer;
+  let client: InfraClient;
+  let handler: jest.Mock;
+
+  const scrape = async (path = '/metrics') => fetch(`http://127.0.0.1:${server.metricsPort}${path}`);
+
+  beforeAll(async () => {
+    handler = jest.fn();
+    server = new GrpcServer({ reflection: false, metrics: { port: 0, host: '127.0.0.1' } });
+    server.addService({
+      protoPath: 'infra.proto',
+      packageName: 'infra',
+      serviceName: 'InfraService',
+      implementation: {
+        healthCheck: (call, callback) => handler(call, callback),
+      } satisfies Partial<InfraServiceHandlers>,
+    });
+    const port = await server.start('127.0.0.1:0');
+    client = createInfraClient(`127.0.0.1:${port}`, { retry: false });
+  });
+
+  afterAll(() => {
+    client.close();
+    server.forceShutdown();
+  });
+
+  beforeEach(() => {
+    registry.resetMetrics();
+  });
+
+  it('should count and time calls by status code', async () => {
+    handler.mockImplementation((call, callback) => callback(null, healthy));
+    await client.healthCheck();
+    await client.healthCheck();
+    handler.mockImplementation((call, callback) => callback(new NotFoundError('Health record')));
+    await expect(client.healthCheck()).rejects.toThrow();
+
+    const body = await (await scrape()).text();
+
+    const labels = 'grpc_service="infra.InfraService",grpc_method="HealthCheck",grpc_type="unary"';
+    expect(body).toContain(`grpc_server_handled_total{${labels},grpc_code="OK"} 2`);
+    expect(body).toContain(`grpc_server_handled_total{${labels},grpc_code="NOT_FOUND"} 1`);
+    expect(body).toContain(`grpc_server_handling_seconds_count{${labels},grpc_code="OK"} 2`);
+  });
+
+  it('should track calls in flight', async () => {
+    let respond: () => void = () => undefined;
+    handler.mockImplementation((call, callback) => {
+      respond = () => callback(null, healthy);
+    });
+
+    const pending = client.healthCheck();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    const during = await (await scrape()).text();
+    respond();
+    await pending;
+    const after = await (await scrape()).text();
+
+    const gauge = 'grpc_server_in_flight_calls{grpc_service="infra.InfraService",grpc_method="HealthCheck"}';
+    expect(during).toContain(`${gauge} 1`);
+    expect(after).toContain(`${gauge} 0`);
+  });
+
+  it('should serve Node process stats in Prometheus text format', async () => {
+    const response = await scrape();
+
+    expect(response.headers.get('content-type')).toContain('text/plain');
+    expect(await response.text()).toContain('process_cpu_user_seconds_total');
+  });
+
+  it('should answer 404 outside of the metrics path', async () => {
+    expect((await scrape('/other')).status).toBe(404);
+  });
+
+  it('should stop the endpoint together with the server', async () => {
+    const other = new GrpcServer({ reflection: false, metrics: { port: 0, host: '127.0.0.1' } });
+    await other.start('127.0.0.1:0');
+    const port = other.metricsPort;
+
+    expect(port).toEqual(expect.any(Number));
+    await other.stop();
+
+    expect(other.metricsPort).toBeUndefined();
+    await expect(fetch(`http://127.0.0.1:${port}/metrics`)).rejects.toThrow();
+  });
+});
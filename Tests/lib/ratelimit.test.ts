@@ -0,0 +1,258 @@
+import { EventEmitter } from 'events';
+import * as grpc from '@grpc/grpc-js';
+import { ResourceExhaustedError, UnauthenticatedError } from '../../src/lib/errors';
+import type { CallContext } from '../../src/lib/interceptors';
+import {
+  createAuthFailureLimitInterceptor,
+  createConcurrencyLimitInterceptor,
+  createRateLimitInterceptor,
+} from '../../src/lib/ratelimit';
+
+function createContext(method: string, options: Partial<CallContext> = {}): CallContext {
+  return {
+    path: `/user.UserService/${method}`,
+    service: 'user.UserService',
+    method,
+    type: 'unary',
+    call: new EventEmitter() as CallContext['call'],
+    metadata: new grpc.Metadata(),
+    deadline: Infinity,
+    peer: 'ipv4:127.0.0.1:1234',
+    request: {},
+    state: {},
+    ...options,
+  };
+}
+
+describe('createRateLimitInterceptor', () => {
+  const next = jest.fn().mockResolvedValue({ success: true });
+  let now: jest.SpyInstance;
+
+  beforeEach(() => {
+    now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    next.mockClear();
+  });
+
+  it('should allow a burst, then reject calls until a token is refilled', async () => {
+    const interceptor = createRateLimitInterceptor({ 'user.UserService/*': { ratePerSecond: 2, burst: 3 } });
+
+    for (let i = 0; i < 3; i += 1) await interceptor(createContext('GetUser'), next);
+    const rejected = interceptor(createContext('GetUser'), next);
+
+    await expect(rejected).rejects.toThrow(ResourceExhaustedError);
+    await expect(rejected).rejects.toMatchObject({ code: grpc.status.RESOURCE_EXHAUSTED, retryAfterMs: 500 });
+
+    now.mockReturnValue(1_000_000 + 500);
+    await expect(interceptor(createContext('GetUser'), next)).resolves.toEqual({ success: true });
+    expect(next).toHaveBeenCalledTimes(4);
+  });
+
+  it('should apply the most specific rule only', async () => {
+    const interceptor = createRateLimitInterceptor({
+      '*': { ratePerSecond: 100 },
+      'user.UserService/CreateUser': { ratePerSecond: 1 },
+    });
+
+    await interceptor(createContext('CreateUser'), next);
+    await expect(interceptor(createContext('CreateUser'), next)).rejects.toThrow(ResourceExhaustedError);
+    await expect(interceptor(createContext('GetUser'), next)).resolves.toEqual({ success: true });
+  });
+
+  it('should keep a bucket per principal, falling back to the peer address', async () => {
+    const interceptor = createRateLimitInterceptor({ '*': { ratePerSecond: 1 } });
+    const as = (subject: string) => createContext('GetUser', { state: { principal: { subject } } });
+
+    await interceptor(as('billing'), next);
+    await expect(interceptor(as('billing'), next)).rejects.toThrow(ResourceExhaustedError);
+    await expect(interceptor(as('crm'), next)).resolves.toEqual({ success: true });
+
+    await interceptor(createContext('GetUser', { peer: 'ipv4:10.0.0.1:5000' }), next);
+    await expect(interceptor(createContext('GetUser', { peer: 'ipv4:10.0.0.1:5001' }), next)).rejects.toThrow(
+      ResourceExhaustedError
+    );
+  });
+
+  it('should key buckets by a metadata entry', async () => {
+    const interceptor = createRateLimitInterceptor({ '*': { ratePerSecond: 1, key: 'metadata:x-api-client' } });
+    const from = (client: string) => {
+      const metadata = new grpc.Metadata();
+      metadata.set('x-api-client', client);
+      return createContext('GetUser', { metadata });
+    };
+
+    await interceptor(from('billing'), next);
+    await expect(interceptor(from('billing'), next)).rejects.toThrow(ResourceExhaustedError);
+    await expect(interceptor(from('crm'), next)).resolves.toEqual({ success: true });
+  });
+
+  it('should leave methods without a rule alone', async () => {
+    const interceptor = createRateLimitInterceptor({ 'user.UserService/CreateUser': { ratePerSecond: 1 } });
+
+    for (let i = 0; i < 5; i += 1) await interceptor(createContext('GetUser'), next);
+
+    expect(next).toHaveBeenCalledTimes(5);
+  });
+});
+
+describe('createAuthFailureLimitInterceptor', () => {
+  const unauthenticated = jest.fn().mockRejectedValue(new UnauthenticatedError('Invalid API key'));
+  const authenticated = jest.fn().mockResolvedValue({ success: true });
+  let now: jest.SpyInstance;
+
+  beforeEach(() => {
+    now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should turn a peer away once its failed authentications use up the burst', async () => {
+    const interceptor = createAuthFailureLimitInterceptor({ ratePerSecond: 1, burst: 2 });
+
+    for (let i = 0; i < 2; i += 1) {
+      await expect(interceptor(createContext('GetUser'), unauthenticated)).rejects.toThrow(UnauthenticatedError);
+    }
+    await expect(interceptor(createContext('GetUser'), authenticated)).rejects.toMatchObject({
+      code: grpc.status.RESOURCE_EXHAUSTED,
+      retryAfterMs: 1000,
+    });
+    expect(unauthenticated).toHaveBeenCalledTimes(2);
+    expect(authenticated).not.toHaveBeenCalled();
+
+    // Other peers are not affected, and the peer gets another attempt once a token is refilled
+    const otherPeer = createContext('GetUser', { peer: 'ipv4:10.0.0.2:5678' });
+    await expect(interceptor(otherPeer, authenticated)).resolves.toEqual({ success: true });
+    now.mockReturnValue(1_000_000 + 1000);
+    await expect(interceptor(createContext('GetUser'), authenticated)).resolves.toEqual({ success: true });
+  });
+
+  it('should not count calls that authenticate or fail otherwise', async () => {
+    const interceptor = createAuthFailureLimitInterceptor({ ratePerSecond: 1, burst: 1 });
+    const failing = jest.fn().mockRejectedValue(new ResourceExhaustedError('Rate limit exceeded'));
+
+    for (let i = 0; i < 3; i += 1) {
+      await interceptor(createContext('GetUser'), authenticated);
+      await expect(interceptor(createContext('GetUser'), failing)).rejects.toThrow('Rate limit exceeded');
+    }
+  });
+});
+
+describe('createConcurrencyLimitInterceptor', () => {
+  function deferred() {
+    let resolve: (value: unknown) => void = () => {};
+    const promise = new Promise(done => (resolve = done));
+    return { promise, resolve };
+  }
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should shed calls beyond the limit when nothing may be queued', async () => {
+    const interceptor = createConcurrencyLimitInterceptor({ maxConcurrentCalls: 1 });
+    const running = deferred();
+
+    const first = interceptor(createContext('GetUser'), () => running.promise);
+    await expect(interceptor(createContext('GetUser'), jest.fn())).rejects.toMatchObject({
+      code: grpc.status.RESOURCE_EXHAUSTED,
+      retryAfterMs: 1000,
+    });
+
+    running.resolve({ user: { id: 'user_1' } });
+    await expect(first).resolves.toEqual({ user: { id: 'user_1' } });
+    await expect(interceptor(createContext('GetUser'), async () => 'ok')).resolves.toBe('ok');
+  });
+
+  it('should queue calls and start them in order as slots free up', async () => {
+    const interceptor = createConcurrencyLimitInterceptor({ maxConcurrentCalls: 1, maxQueuedCalls: 2 });
+    const running = deferred();
+    const started: string[] = [];
+
+    const first = interceptor(createContext('GetUser'), () => running.promise);
+    const second = interceptor(createContext('GetUser'), async () => started.push('second'));
+    const third = interceptor(createContext('GetUser'), async () => started.push('third'));
+    await expect(interceptor(createContext('GetUser'), jest.fn())).rejects.toThrow(ResourceExhaustedError);
+    expect(started).toEqual([]);
+
+    running.resolve('first');
+    await Promise.all([first, second, third]);
+
+    expect(started).toEqual(['second', 'third']);
+  });
+
+  it('should shed queued calls that wait too long', async () => {
+    jest.useFakeTimers();
+    const interceptor = createConcurrencyLimitInterceptor({
+      maxConcurrentCalls: 1,
+      maxQueuedCalls: 1,
+      queueTimeoutMs: 100,
+    });
+    const running = deferred();
+    const next = jest.fn();
+
+    void interceptor(createContext('GetUser'), () => running.promise);
+    const queued = interceptor(createContext('GetUser'), next);
+    jest.advanceTimersByTime(100);
+
+    await expect(queued).rejects.toThrow(ResourceExhaustedError);
+    expect(next).not.toHaveBeenCalled();
+    running.resolve('done');
+  });
+
+  it('should take cancelled calls out of the queue', async () => {
+    const interceptor = createConcurrencyLimitInterceptor({ maxConcurrentCalls: 1, maxQueuedCalls: 1 });
+    const running = deferred();
+    const ctx = createContext('GetUser');
+    const next = jest.fn();
+
+    const first = interceptor(createContext('GetUser'), () => running.promise);
+    const cancelled = interceptor(ctx, next);
+    ctx.call.emit('cancelled');
+
+    await expect(cancelled).rejects.toMatchObject({ code: grpc.status.CANCELLED });
+    expect(ctx.call.listenerCount('cancelled')).toBe(0);
+    // The queue has room again, and the freed slot goes to the call queued next
+    const queued = interceptor(createContext('GetUser'), async () => 'queued');
+    running.resolve('first');
+    await expect(first).resolves.toBe('first');
+    await expect(queued).resolves.toBe('queued');
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('should take queued calls out of the queue once their deadline passes', async () => {
+    jest.useFakeTimers({ now: 1_000_000 });
+    const interceptor = createConcurrencyLimitInterceptor({ maxConcurrentCalls: 1, maxQueuedCalls: 1 });
+    const running = deferred();
+    const next = jest.fn();
+
+    void interceptor(createContext('GetUser'), () => running.promise);
+    const queued = interceptor(createContext('GetUser', { deadline: 1_000_000 + 50 }), next);
+    jest.advanceTimersByTime(50);
+
+    await expect(queued).rejects.toMatchObject({ code: grpc.status.DEADLINE_EXCEEDED });
+    expect(next).not.toHaveBeenCalled();
+    running.resolve('done');
+  });
+
+  it('should not count exempt methods and server streams', async () => {
+    const interceptor = createConcurrencyLimitInterceptor({
+      maxConcurrentCalls: 1,
+      exempt: ['grpc.health.v1.Health/*'],
+    });
+    const running = deferred();
+
+    void interceptor(createContext('GetUser'), () => running.promise);
+    await expect(
+      interceptor(createContext('Check', { service: 'grpc.health.v1.Health' }), async () => 'SERVING')
+    ).resolves.toBe('SERVING');
+    await expect(
+      interceptor(createContext('WatchUsers', { type: 'serverStream' }), async () => 'streaming')
+    ).resolves.toBe('streaming');
+    running.resolve('done');
+  });
+});
@@ -0,0 +1,110 @@
+import * as grpc from '@grpc/grpc-js';
+import path from 'path';
+import { findServiceDefinition, GrpcServer, loadProtoFile } from '../../src/lib/grpc';
+
+const reflectionProto = path.resolve(
+  __dirname,
+  '../../node_modules/@grpc/reflection/build/proto/grpc/reflection/v1/reflection.proto'
+);
+const reflectionService = findServiceDefinition(loadProtoFile(reflectionProto), 'grpc.reflection.v1.ServerReflection')!;
+
+interface ReflectionResponse {
+  list_services_response?: { service: Array<{ name: string }> };
+  file_descriptor_response?: { file_descriptor_proto: Buffer[] };
+}
+
+function openReflectionStream(address: string) {
+  const client = new grpc.Client(address, grpc.credentials.createInsecure());
+  const method: grpc.MethodDefinition<unknown, unknown> = reflectionService.ServerReflectionInfo;
+  const call = client.makeBidiStreamRequest(method.path, method.requestSerialize, method.responseDeserialize);
+
+  return { client, call };
+}
+
+describe('GrpcServer reflection', () => {
+  let server: GrpcServer;
+  let address: string;
+
+  const reflect = async (request: Record<string, unknown>): Promise<ReflectionResponse> => {
+    const { client, call } = openReflectionStream(address);
+
+    const response = await new Promise<ReflectionResponse>(resolve => {
+      call.on('data', resolve);
+      call.write(request);
+    });
+    call.end();
+    client.close();
+
+    return response;
+  };
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    server = new GrpcServer();
+    server.addService({
+      protoPath: 'user.proto',
+      packageName: 'user',
+      serviceName: 'UserService',
+      implementation: {},
+    });
+    server.addService({
+      protoPath: 'infra.proto',
+      packageName: 'infra',
+      serviceName: 'InfraService',
+      implementation: {},
+    });
+    address = `127.0.0.1:${await server.start('127.0.0.1:0')}`;
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  it('should list every registered service', async () => {
+    const response = await reflect({ list_services: '*' });
+
+    const names = response.list_services_response?.service.map(service => service.name);
+    expect(names).toEqual(expect.arrayContaining(['user.UserService', 'infra.InfraService']));
+  });
+
+  it('should find the file declaring a nested message type', async () => {
+    const response = await reflect({ file_containing_symbol: 'user.ListUsersResponse' });
+
+    expect(response.file_descriptor_response?.file_descriptor_proto.length).toBeGreaterThan(0);
+  });
+
+  it('should find files by name', async () => {
+    const response = await reflect({ file_by_filename: 'user.proto' });
+
+    expect(response.file_descriptor_response?.file_descriptor_proto.length).toBeGreaterThan(0);
+  });
+
+  it('should not serve reflection when disabled', async () => {
+    const disabled = new GrpcServer({ reflection: false });
+    disabled.addService({
+      protoPath: 'infra.proto',
+      packageName: 'infra',
+      serviceName: 'InfraService',
+      implementation: {},
+    });
+    const disabledAddress = `127.0.0.1:${await disabled.start('127.0.0.1:0')}`;
+
+    try {
+      await expect(
+        new Promise((resolve, reject) => {
+          const { client, call } = openReflectionStream(disabledAddress);
+          call.on('data', resolve);
+          call.on('error', (error: grpc.ServiceError) => {
+            client.close();
+            reject(error);
+          });
+          call.write({ list_services: '*' });
+          call.end();
+        })
+      ).rejects.toMatchObject({ code: grpc.status.UNIMPLEMENTED });
+    } finally {
+      await disabled.stop();
+    }
+  });
+});
@@ -0,0 +1,151 @@
+import * as grpc from '@grpc/grpc-js';
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { InfraServiceHandlers } from '../../src/DTO/generated/infra';
+import { findServiceDefinition, GrpcServer, loadProtoFile } from '../../src/lib/grpc';
+import { getCallContext } from '../../src/lib/interceptors';
+
+function hasOpenssl(): boolean {
+  try {
+    execFileSync('openssl', ['version'], { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function openssl(dir: string, ...args: string[]): void {
+  execFileSync('openssl', args, { cwd: dir, stdio: 'ignore' });
+}
+
+// Self-signed CA plus a server certificate for localhost and a client certificate
+function generateCertificates(dir: string, ca: string): void {
+  openssl(dir, 'req', '-x509', '-newkey', 'rsa:2048', '-nodes', '-days', '1', '-subj', `/CN=${ca}`,
+    '-keyout', `${ca}.key`, '-out', `${ca}.crt`);
+
+  for (const [name, cn, ext] of [
+    ['server', 'localhost', 'subjectAltName=DNS:localhost'],
+    ['client', 'billing-service', 'extendedKeyUsage=clientAuth'],
+  ]) {
+    openssl(dir, 'req', '-newkey', 'rsa:2048', '-nodes', '-subj', `/CN=${cn}/O=acme`,
+      '-keyout', `${ca}-${name}.key`, '-out', `${ca}-${name}.csr`);
+    fs.writeFileSync(path.join(dir, `${name}.ext`), ext);
+    openssl(dir, 'x509', '-req', '-in', `${ca}-${name}.csr`, '-CA', `${ca}.crt`, '-CAkey', `${ca}.key`,
+      '-CAcreateserial', '-days', '1', '-extfile', `${name}.ext`, '-out', `${ca}-${name}.crt`);
+  }
+}
+
+const describeWithOpenssl = hasOpenssl() ? describe : describe.skip;
+
+describeWithOpenssl('GrpcServer TLS', () => {
+  const healthy = { status: 'healthy', timestamp: '2025-10-16T06:34:37.817Z', database: 'connected', error: '' };
+  const proto = loadProtoFile(path.resolve(__dirname, '../../proto/infra.proto'));
+  const InfraService = grpc.makeClientConstructor(findServiceDefinition(proto, 'infra.InfraService')!, 'InfraService');
+  let dir: string;
+  let seenCertificate: unknown;
+
+  const read = (file: string) => fs.readFileSync(path.join(dir, file));
+  const startServer = async (requireClientCert: boolean) => {
+    const server = new GrpcServer({
+      reflection: false,
+      tls: {
+        certFile: path.join(dir, 'server.crt'),
+        keyFile: path.join(dir, 'server.key'),
+        caFile: path.join(dir, 'ca.crt'),
+        requireClientCert,
+        reloadIntervalMs: 100,
+      },
+    });
+    server.addService({
+      protoPath: 'infra.proto',
+      packageName: 'infra',
+      serviceName: 'InfraService',
+      implementation: {
+        healthCheck: (call, callback) => {
+          seenCertificate = getCallContext(call)?.clientCertificate;
+          callback(null, healthy);
+        },
+      } satisfies Partial<InfraServiceHandlers>,
+    });
+    return { server, port: await server.start('127.0.0.1:0') };
+  };
+  const healthCheck = (port: number, credentials: grpc.ChannelCredentials) => {
+    const client = new InfraService(`localhost:${port}`, credentials);
+    return new Promise<{ error: grpc.ServiceError | null }>(resolve => {
+      client.healthCheck({}, { deadline: Date.now() + 3000 }, (error: grpc.ServiceError | null) => {
+        client.close();
+        resolve({ error });
+      });
+    });
+  };
+  const useCertificates = (ca: string) => {
+    for (const file of ['server.crt', 'server.key']) {
+      fs.copyFileSync(path.join(dir, `${ca}-${file}`), path.join(dir, file));
+    }
+    fs.copyFileSync(path.join(dir, `${ca}.crt`), path.join(dir, 'ca.crt'));
+  };
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'grpc-tls-'));
+    generateCertificates(dir, 'ca1');
+    generateCertificates(dir, 'ca2');
+  });
+
+  beforeEach(() => {
+    seenCertificate = undefined;
+    useCertificates('ca1');
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should serve TLS and leave the client certificate unset when not required', async () => {
+    const { server, port } = await startServer(false);
+
+    const { error } = await healthCheck(port, grpc.credentials.createSsl(read('ca1.crt')));
+
+    expect(error).toBeNull();
+    expect(seenCertificate).toBeUndefined();
+    server.forceShutdown();
+  });
+
+  it('should reject clients without a certificate when mTLS is required', async () => {
+    const { server, port } = await startServer(true);
+
+    const { error } = await healthCheck(port, grpc.credentials.createSsl(read('ca1.crt')));
+
+    expect(error?.code).toBe(grpc.status.UNAVAILABLE);
+    server.forceShutdown();
+  });
+
+  it('should expose the verified client certificate subject to handlers', async () => {
+    const { server, port } = await startServer(true);
+
+    const { error } = await healthCheck(
+      port,
+      grpc.credentials.createSsl(read('ca1.crt'), read('ca1-client.key'), read('ca1-client.crt'))
+    );
+
+    expect(error).toBeNull();
+    expect(seenCertificate).toMatchObject({
+      commonName: 'billing-service',
+      subject: { CN: 'billing-service', O: 'acme' },
+    });
+    server.forceShutdown();
+  });
+
+  it('should serve rotated certificates without a restart', async () => {
+    const { server, port } = await startServer(false);
+    expect((await healthCheck(port, grpc.credentials.createSsl(read('ca1.crt')))).error).toBeNull();
+
+    useCertificates('ca2');
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    expect((await healthCheck(port, grpc.credentials.createSsl(read('ca2.crt')))).error).toBeNull();
+    server.forceShutdown();
+  });
+});
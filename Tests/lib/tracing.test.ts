@@ -0,0 +1,122 @@
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { UserService } from '../../src/BL/user.service';
+import { UserRepository } from '../../src/DAL/user.repository';
+import type { InfraServiceHandlers } from '../../src/DTO/generated/infra';
+import { createInfraClient, type InfraClient } from '../../src/grpc/infra.client';
+import { NotFoundError } from '../../src/lib/errors';
+import { GrpcServer } from '../../src/lib/grpc';
+import { initTracing, withSpan, type Tracing } from '../../src/lib/tracing';
+
+const healthy = {
+  status: 'healthy',
+  timestamp: '2025-10-16T06:34:37.817Z',
+  database: 'connected',
+  error: '',
+};
+
+describe('tracing', () => {
+  let tracing: Tracing;
+  let server: GrpcServer;
+  let client: InfraClient;
+  let handler: jest.Mock;
+
+  const spans = () => tracing.memoryExporter!.getFinishedSpans();
+  const span = (name: string) => spans().find(finished => finished.name === name)!;
+
+  beforeAll(async () => {
+    tracing = initTracing({ exporter: 'memory' });
+
+    handler = jest.fn();
+    server = new GrpcServer({ reflection: false });
+    server.addService({
+      protoPath: 'infra.proto',
+      packageName: 'infra',
+      serviceName: 'InfraService',
+      implementation: {
+        healthCheck: (call, callback) => handler(call, callback),
+      } satisfies Partial<InfraServiceHandlers>,
+    });
+    const port = await server.start('127.0.0.1:0');
+    client = createInfraClient(`127.0.0.1:${port}`, { retry: false });
+  });
+
+  afterAll(async () => {
+    client.close();
+    server.forceShutdown();
+    await tracing.shutdown();
+  });
+
+  beforeEach(() => {
+    tracing.memoryExporter!.reset();
+    handler.mockImplementation((call, callback) => callback(null, healthy));
+  });
+
+  it('should open a server span per call with the RPC attributes', async () => {
+    await client.healthCheck();
+
+    const rpc = span('infra.InfraService/HealthCheck');
+    expect(rpc.kind).toBe(SpanKind.SERVER);
+    expect(rpc.attributes).toEqual(
+      expect.objectContaining({
+        'rpc.system': 'grpc',
+        'rpc.service': 'infra.InfraService',
+        'rpc.method': 'HealthCheck',
+        'rpc.grpc.status_code': 0,
+      })
+    );
+  });
+
+  it('should continue the trace of an incoming traceparent', async () => {
+    const traceId = '0af7651916cd43dd8448eb211c80319c';
+    const parentSpanId = 'b7ad6b7169203331';
+
+    await client.healthCheck({ metadata: { traceparent: `00-${traceId}-${parentSpanId}-01` } });
+
+    const rpc = span('infra.InfraService/HealthCheck');
+    expect(rpc.spanContext().traceId).toBe(traceId);
+    expect(rpc.parentSpanContext?.spanId).toBe(parentSpanId);
+  });
+
+  it('should inject the active span into outgoing calls and parent handler spans on the server span', async () => {
+    handler.mockImplementation(async (call, callback) => {
+      await withSpan('lookup', async () => undefined);
+      callback(null, healthy);
+    });
+
+    await withSpan('caller', () => client.healthCheck());
+
+    const caller = span('caller');
+    const rpc = span('infra.InfraService/HealthCheck');
+    const lookup = span('lookup');
+    expect(rpc.spanContext().traceId).toBe(caller.spanContext().traceId);
+    expect(rpc.parentSpanContext?.spanId).toBe(caller.spanContext().spanId);
+    expect(lookup.parentSpanContext?.spanId).toBe(rpc.spanContext().spanId);
+  });
+
+  it('should mark server spans as failed on server errors only', async () => {
+    handler.mockImplementation((call, callback) => callback(new NotFoundError('Health record')));
+    await expect(client.healthCheck()).rejects.toThrow();
+    expect(span('infra.InfraService/HealthCheck').status.code).toBe(SpanStatusCode.UNSET);
+
+    tracing.memoryExporter!.reset();
+    handler.mockImplementation(() => {
+      throw new Error('database exploded');
+    });
+    await expect(client.healthCheck()).rejects.toThrow();
+
+    const failed = span('infra.InfraService/HealthCheck');
+    expect(failed.status).toEqual({ code: SpanStatusCode.ERROR, message: 'database exploded' });
+    expect(failed.attributes['rpc.grpc.status_code']).toBe(13);
+    expect(failed.events.map(event => event.name)).toEqual(['exception']);
+  });
+
+  it('should trace UserService methods as child spans', async () => {
+    jest.spyOn(UserRepository, 'findById').mockResolvedValue(null);
+
+    await withSpan('caller', () => UserService.getUser('missing')).catch(() => undefined);
+
+    const getUser = span('UserService.getUser');
+    expect(getUser.parentSpanContext?.spanId).toBe(span('caller').spanContext().spanId);
+    expect(getUser.status.code).toBe(SpanStatusCode.ERROR);
+  });
+});
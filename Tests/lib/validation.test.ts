@@ -0,0 +1,150 @@
+import * as grpc from '@grpc/grpc-js';
+import { UserService } from '../../src/BL/user.service';
+import type { UserServiceHandlers } from '../../src/DTO/generated/user';
+import { BatchCreateUsersSchema } from '../../src/DTO/user.dto';
+import { createUserClient, type UserClient } from '../../src/grpc/user.client';
+import { userServiceImplementation, userServiceSchemas } from '../../src/grpc/user.server';
+import { AppError, ValidationError } from '../../src/lib/errors';
+import { GrpcServer } from '../../src/lib/grpc';
+
+const user = {
+  id: '1',
+  name: 'Ada',
+  email: 'ada@example.com',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  version: 1,
+};
+
+describe('GrpcServer request validation', () => {
+  let server: GrpcServer;
+  let client: UserClient;
+  const received: unknown[] = [];
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    server = new GrpcServer({ reflection: false, validateResponses: true });
+    server.addService({
+      protoPath: 'user.proto',
+      packageName: 'user',
+      serviceName: 'UserService',
+      schemas: { ...userServiceSchemas, UploadUsers: { request: BatchCreateUsersSchema } },
+      implementation: {
+        getUser: (call, callback) => {
+          if (call.request.id === 'stored') return userServiceImplementation.getUser(call, callback);
+          received.push(call.request);
+          callback(null, { user: { ...user, email: call.request.id === 'broken' ? 'not-an-email' : user.email } });
+        },
+        updateUser: (call, callback) => {
+          received.push(call.request);
+          callback(null, { user });
+        },
+        listUsers: (call, callback) => {
+          received.push(call.request);
+          callback(null, { users: [], total: 0 });
+        },
+        streamUsers: async call => {
+          call.write(user);
+          call.write({ ...user, email: 'not-an-email' });
+          call.end();
+        },
+        uploadUsers: async (call, callback) => {
+          for await (const chunk of call) received.push(chunk);
+          callback(null, { results: [] });
+        },
+      } satisfies Partial<UserServiceHandlers>,
+    });
+    const port = await server.start('127.0.0.1:0');
+    client = createUserClient(`127.0.0.1:${port}`, { retry: false });
+  });
+
+  beforeEach(() => {
+    received.length = 0;
+  });
+
+  afterAll(() => {
+    client.close();
+    server.forceShutdown();
+  });
+
+  it('should reject invalid requests with field violations before the handler runs', async () => {
+    const error = await client.getUser({ id: '' }).catch(err => err);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.violations).toEqual([{ field: 'id', description: expect.any(String) }]);
+    expect(received).toEqual([]);
+  });
+
+  it('should reject out of range page sizes', async () => {
+    const error = await client.listUsers({ pageSize: -5 }).catch(err => err);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.violations.map((violation: { field: string }) => violation.field)).toEqual(['pageSize']);
+  });
+
+  it('should hand the coerced request to the handler', async () => {
+    await client.updateUser({ id: '1', name: '', email: 'new@example.com' });
+
+    expect(received).toEqual([{ id: '1', name: undefined, email: 'new@example.com' }]);
+  });
+
+  it('should validate every message of a client stream', async () => {
+    const error = await client
+      .uploadUsers([{ users: [{ name: 'Ada', email: 'ada@example.com' }] }, { users: [] }])
+      .catch(err => err);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.violations.map((violation: { field: string }) => violation.field)).toEqual(['users']);
+  });
+
+  it('should fail with INTERNAL when a unary response does not match its schema', async () => {
+    await expect(client.getUser({ id: '1' })).resolves.toEqual(expect.objectContaining({ user: expect.any(Object) }));
+
+    const error = await client.getUser({ id: 'broken' }).catch(err => err);
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.code).toBe(grpc.status.INTERNAL);
+  });
+
+  it('should send users as stored by the database with ISO 8601 timestamps', async () => {
+    // createdAt and updatedAt default to SQLite's CURRENT_TIMESTAMP
+    jest.spyOn(UserService, 'getUser').mockResolvedValueOnce({
+      ...user,
+      id: 'stored',
+      createdAt: '2024-01-01 10:00:00',
+      updatedAt: '2024-01-01 10:00:00',
+      deletedAt: null,
+    });
+
+    const { user: stored } = await client.getUser({ id: 'stored' });
+
+    expect(stored).toEqual(
+      expect.objectContaining({ createdAt: '2024-01-01T10:00:00Z', updatedAt: '2024-01-01T10:00:00Z' })
+    );
+  });
+
+  it('should fail a server stream writing an invalid message', async () => {
+    const ids: string[] = [];
+    const error = await (async () => {
+      for await (const streamed of client.streamUsers({})) ids.push(streamed.id);
+    })().catch(err => err);
+
+    expect(ids).toEqual(['1']);
+    expect(error.code).toBe(grpc.status.INTERNAL);
+  });
+
+  it('should refuse schemas for methods the service does not declare', () => {
+    const other = new GrpcServer();
+
+    expect(() =>
+      other.addService({
+        protoPath: 'user.proto',
+        packageName: 'user',
+        serviceName: 'UserService',
+        implementation: {},
+        schemas: { GetUsers: {} },
+      })
+    ).toThrow('Schemas for unknown methods of UserService: GetUsers');
+  });
+});
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "HealthCheck" ADD COLUMN "error" TEXT;
+
+-- CreateIndex
+CREATE INDEX "HealthCheck_timestamp_idx" ON "HealthCheck"("timestamp");
@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "AuditEvent" (
+    "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "userId" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "actor" TEXT NOT NULL,
+    "method" TEXT,
+    "requestId" TEXT,
+    "changes" TEXT NOT NULL,
+    "timestamp" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_userId_idx" ON "AuditEvent"("userId");
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_actor_idx" ON "AuditEvent"("actor");
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_timestamp_idx" ON "AuditEvent"("timestamp");
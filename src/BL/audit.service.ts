@@ -0,0 +1,15 @@
+import { AuditRepository } from '@/DAL/audit.repository';
+import type { AuditEvent, ListAuditEventsQuery } from '@/DTO/audit.dto';
+import { traced } from '@/lib/tracing';
+
+export const AuditService = {
+  /**
+   * Audit events matching the query, newest first; the events themselves are written by
+   * UserRepository along with each mutation
+   */
+  listAuditEvents: traced(
+    'AuditService.listAuditEvents',
+    async (query: ListAuditEventsQuery): Promise<{ events: AuditEvent[]; nextPageToken: string }> =>
+      AuditRepository.findPage(query)
+  ),
+};
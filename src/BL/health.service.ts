@@ -0,0 +1,111 @@
+import { InfraService } from '@/BL/infra.service';
+import type { ServingStatus } from '@/DTO/health.dto';
+import { logger } from '@/lib/logger';
+
+const log = logger.child({ component: 'HealthService' });
+
+type StatusListener = (status: ServingStatus) => void;
+
+interface Watcher {
+  listener: StatusListener;
+  onClose?: () => void;
+}
+
+// Services whose status follows readiness, i.e. the database and the other critical probes
+const databaseDependents = new Set<string>();
+const statuses = new Map<string, ServingStatus>();
+const watchers = new Map<string, Set<Watcher>>();
+let shuttingDown = false;
+
+function notify(service: string, status: ServingStatus): void {
+  watchers.get(service)?.forEach(watcher => watcher.listener(status));
+}
+
+export const HealthService = {
+  /**
+   * Register a service name ('' being the overall server status)
+   */
+  register: (service: string, options: { dependsOnDatabase?: boolean } = {}): void => {
+    if (options.dependsOnDatabase) databaseDependents.add(service);
+    HealthService.setStatus(service, shuttingDown ? 'NOT_SERVING' : 'SERVING');
+  },
+
+  getStatus: (service: string): ServingStatus | undefined => {
+    return statuses.get(service);
+  },
+
+  setStatus: (service: string, status: ServingStatus): void => {
+    const previous = statuses.get(service);
+    if (previous === status) return;
+
+    if (previous) log.info('Serving status changed', { service, from: previous, to: status });
+    statuses.set(service, status);
+    notify(service, status);
+  },
+
+  /**
+   * Subscribe to status transitions of a service; returns the unsubscribe function
+   */
+  watch: (service: string, listener: StatusListener, onClose?: () => void): (() => void) => {
+    const watcher: Watcher = { listener, onClose };
+    const serviceWatchers = watchers.get(service) ?? new Set<Watcher>();
+    serviceWatchers.add(watcher);
+    watchers.set(service, serviceWatchers);
+
+    return () => {
+      serviceWatchers.delete(watcher);
+    };
+  },
+
+  /**
+   * Re-run the health check, update the services that depend on readiness and record the result
+   */
+  refresh: async (): Promise<void> => {
+    if (shuttingDown) return;
+
+    const health = await InfraService.healthCheck();
+    if (shuttingDown) return;
+
+    const status: ServingStatus = health.status === 'healthy' ? 'SERVING' : 'NOT_SERVING';
+    databaseDependents.forEach(service => HealthService.setStatus(service, status));
+
+    await InfraService.recordHealth(health);
+  },
+
+  /**
+   * Refresh periodically; returns the function stopping the timer
+   */
+  startPolling: (intervalMs: number): (() => void) => {
+    const poll = () => {
+      HealthService.refresh().catch(error => log.error('Health check failed', { error }));
+    };
+    poll();
+    const timer = setInterval(poll, intervalMs);
+    timer.unref();
+
+    return () => clearInterval(timer);
+  },
+
+  /**
+   * Mark every service NOT_SERVING and close all watch streams
+   */
+  shutdown: (): void => {
+    shuttingDown = true;
+    statuses.forEach((_, service) => HealthService.setStatus(service, 'NOT_SERVING'));
+
+    watchers.forEach(serviceWatchers => {
+      serviceWatchers.forEach(watcher => watcher.onClose?.());
+      serviceWatchers.clear();
+    });
+  },
+
+  /**
+   * Forget every registered service, used between tests
+   */
+  reset: (): void => {
+    databaseDependents.clear();
+    statuses.clear();
+    watchers.clear();
+    shuttingDown = false;
+  },
+};
@@ -0,0 +1,68 @@
+import type { HealthCheckRecord } from '@/DAL/infra.repository';
+import type { ComponentStatus, HealthHistory, HealthHistoryQuery, HealthOutage } from '@/DTO/infra.dto';
+
+/**
+ * Aggregate recorded checks, in chronological order, over `range`. Each check is taken to hold
+ * until the next one but for no longer than `staleAfterMs`, so that time during which nothing was
+ * recorded (e.g. the server was down) counts neither as up nor as down.
+ */
+export function summarizeHealthHistory(
+  records: HealthCheckRecord[],
+  range: HealthHistoryQuery,
+  staleAfterMs: number
+): HealthHistory {
+  const from = range.from.getTime();
+  const to = range.to.getTime();
+  const history: HealthHistory = {
+    from: range.from.toISOString(),
+    to: range.to.toISOString(),
+    samples: 0,
+    uptimePercent: 0,
+    coveredMs: 0,
+    outages: [],
+    transitions: [],
+  };
+  let healthyMs = 0;
+  let outage: HealthOutage | undefined;
+
+  records.forEach((record, index) => {
+    const timestamp = record.timestamp.getTime();
+    const next = records[index + 1]?.timestamp.getTime() ?? to;
+    const status = record.status as ComponentStatus;
+    const previous = records[index - 1];
+    const error = record.error ?? undefined;
+
+    const heldMs = Math.max(0, Math.min(next, timestamp + staleAfterMs, to) - Math.max(timestamp, from));
+    history.coveredMs += heldMs;
+    if (status === 'healthy') healthyMs += heldMs;
+
+    if (timestamp >= from) {
+      history.samples += 1;
+      if (previous && previous.status !== status) {
+        history.transitions.push({
+          timestamp: record.timestamp.toISOString(),
+          from: previous.status as ComponentStatus,
+          to: status,
+          error,
+        });
+      }
+    }
+
+    if (status === 'unhealthy' && !outage) {
+      outage = { start: new Date(Math.max(timestamp, from)).toISOString(), durationMs: 0, error };
+    } else if (status === 'healthy' && outage) {
+      history.outages.push({
+        ...outage,
+        end: record.timestamp.toISOString(),
+        durationMs: timestamp - Date.parse(outage.start),
+      });
+      outage = undefined;
+    }
+  });
+
+  // Still unhealthy at the end of the range
+  if (outage) history.outages.push({ ...outage, durationMs: to - Date.parse(outage.start) });
+
+  history.uptimePercent = history.coveredMs > 0 ? (healthyMs / history.coveredMs) * 100 : 0;
+  return history;
+}
@@ -0,0 +1,107 @@
+import fs from 'fs';
+import { monitorEventLoopDelay } from 'perf_hooks';
+import v8 from 'v8';
+import { InfraService, type HealthProbe } from '@/BL/infra.service';
+import { createHealthClient } from '@/grpc/health.client';
+import type { Config } from '@/lib/config';
+
+const MIB = 1024 * 1024;
+
+/**
+ * Unhealthy when less than `minFreeBytes` are available to the process on the filesystem of `path`
+ */
+export function diskProbe(options: { path: string; minFreeBytes: number }): HealthProbe {
+  return {
+    name: 'disk',
+    check: async () => {
+      const stats = await fs.promises.statfs(options.path);
+      const freeBytes = stats.bavail * stats.bsize;
+      const message = `${Math.floor(freeBytes / MIB)} MiB free`;
+
+      return { status: freeBytes >= options.minFreeBytes ? 'healthy' : 'unhealthy', message };
+    },
+  };
+}
+
+/**
+ * Unhealthy when the p99 event-loop delay since the previous check exceeds `maxLagMs`, i.e. the
+ * process is too busy to serve calls in time
+ */
+export function eventLoopProbe(options: { maxLagMs: number }): HealthProbe {
+  const histogram = monitorEventLoopDelay({ resolution: 20 });
+  histogram.enable();
+
+  return {
+    name: 'event_loop',
+    critical: false,
+    liveness: true,
+    check: async () => {
+      const lagMs = histogram.count > 0 ? histogram.percentile(99) / 1e6 : 0;
+      histogram.reset();
+
+      return { status: lagMs <= options.maxLagMs ? 'healthy' : 'unhealthy', message: `p99 lag ${lagMs.toFixed(1)}ms` };
+    },
+    close: () => histogram.disable(),
+  };
+}
+
+/**
+ * Unhealthy when the V8 heap is fuller than `maxHeapUsedRatio` of its limit
+ */
+export function memoryProbe(options: { maxHeapUsedRatio: number }): HealthProbe {
+  return {
+    name: 'memory',
+    critical: false,
+    liveness: true,
+    check: async () => {
+      const heap = v8.getHeapStatistics();
+      const ratio = heap.used_heap_size / heap.heap_size_limit;
+      const message = `heap ${(ratio * 100).toFixed(1)}% of limit, rss ${Math.round(process.memoryUsage.rss() / MIB)} MiB`;
+
+      return { status: ratio <= options.maxHeapUsedRatio ? 'healthy' : 'unhealthy', message };
+    },
+  };
+}
+
+/**
+ * Healthy while the grpc.health.v1 status of `service` on `address` is SERVING
+ */
+export function grpcDependencyProbe(options: {
+  name: string;
+  address: string;
+  service?: string;
+  critical?: boolean;
+  timeoutMs: number;
+}): HealthProbe {
+  // Created on first use so that registering the probe opens no connection
+  let client: ReturnType<typeof createHealthClient> | undefined;
+
+  return {
+    name: options.name,
+    critical: options.critical ?? false,
+    timeoutMs: options.timeoutMs,
+    check: async () => {
+      client ??= createHealthClient(options.address, { retry: false });
+      const { status } = await client.check(options.service ?? '', { deadlineMs: options.timeoutMs });
+
+      return status === 'SERVING' ? undefined : { status: 'unhealthy', message: `Serving status ${status}` };
+    },
+    close: () => {
+      client?.close();
+      client = undefined;
+    },
+  };
+}
+
+/**
+ * Register the process probes and one probe per configured downstream dependency, next to the
+ * built-in database probe
+ */
+export function registerDefaultProbes(health: Config['health']): void {
+  InfraService.registerProbe(diskProbe({ path: health.diskPath, minFreeBytes: health.minFreeDiskBytes }));
+  InfraService.registerProbe(eventLoopProbe({ maxLagMs: health.maxEventLoopLagMs }));
+  InfraService.registerProbe(memoryProbe({ maxHeapUsedRatio: health.maxHeapUsedRatio }));
+  health.dependencies.forEach(dependency =>
+    InfraService.registerProbe(grpcDependencyProbe({ ...dependency, timeoutMs: health.probeTimeoutMs }))
+  );
+}
@@ -1,8 +1,258 @@
-import { InfraRepository } from '@/DAL/infra.repository';
+import { Counter, Gauge } from 'prom-client';
+import { summarizeHealthHistory } from '@/BL/infra.history';
+import { InfraRepository, type HealthCheckRecord } from '@/DAL/infra.repository';
+import type {
+  ComponentHealth,
+  ComponentStatus,
+  HealthHistory,
+  HealthHistoryQuery,
+  HealthStatus,
+} from '@/DTO/infra.dto';
+import { getConfig } from '@/lib/config';
+import { logger } from '@/lib/logger';
+import { registry } from '@/lib/metrics';
+import { traced } from '@/lib/tracing';
 
-export const InfraService = {
-  healthCheck: async () => {
-    // Could do DB check, cache check, etc.
-    return InfraRepository.getHealthStatus();
+const log = logger.child({ component: 'InfraService' });
+
+export const DATABASE_PROBE = 'database';
+
+// Checks kept in memory while they cannot be recorded, typically because the database is down
+const MAX_UNRECORDED_CHECKS = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ProbeOutcome {
+  status: ComponentStatus;
+  /** Failure reason, or a detail such as the measured value */
+  message?: string;
+}
+
+export interface HealthProbe {
+  /** Unique; registering another probe under the same name replaces it */
+  name: string;
+  /** Resolving without outcome means healthy; throwing or timing out means unhealthy */
+  check(): Promise<ProbeOutcome | void>;
+  /** Counted in readiness (default: true) */
+  critical?: boolean;
+  /** Counted in liveness, which readiness implies (default: false) */
+  liveness?: boolean;
+  /** Overrides `health.probeTimeoutMs` */
+  timeoutMs?: number;
+  /** Release what the probe holds, e.g. a channel */
+  close?(): void;
+}
+
+interface CachedResult {
+  result: Promise<ComponentHealth>;
+  /** Infinity while the probe is running, so that concurrent checks share the run */
+  expiresAt: number;
+}
+
+const healthChecks = new Counter({
+  name: 'health_checks_total',
+  help: 'Health checks run, by resulting status',
+  labelNames: ['status'],
+  registers: [registry],
+});
+
+const healthy = new Gauge({
+  name: 'health_check_healthy',
+  help: 'Whether the last health check found the service healthy (1) or not (0)',
+  registers: [registry],
+});
+
+const probeHealthy = new Gauge({
+  name: 'health_probe_healthy',
+  help: 'Whether the last run of each probe found its component healthy (1) or not (0)',
+  labelNames: ['probe'],
+  registers: [registry],
+});
+
+const probeLatency = new Gauge({
+  name: 'health_probe_latency_seconds',
+  help: 'Duration of the last run of each probe',
+  labelNames: ['probe'],
+  registers: [registry],
+});
+
+// Read-only, so that frequent checks neither write to nor hold open the database
+const databaseProbe: HealthProbe = {
+  name: DATABASE_PROBE,
+  check: () => InfraRepository.ping(),
+};
+
+const probes = new Map<string, HealthProbe>([[DATABASE_PROBE, databaseProbe]]);
+const cache = new Map<string, CachedResult>();
+const lastStatuses = new Map<string, ComponentStatus>();
+const unrecorded: HealthCheckRecord[] = [];
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function runProbe(probe: HealthProbe): Promise<ComponentHealth> {
+  const startedAt = performance.now();
+  let outcome: ProbeOutcome;
+  try {
+    outcome = (await withTimeout(probe.check(), probe.timeoutMs ?? getConfig().health.probeTimeoutMs)) ?? {
+      status: 'healthy',
+    };
+  } catch (error) {
+    outcome = { status: 'unhealthy', message: error instanceof Error ? error.message : String(error) };
   }
-};
\ No newline at end of file
+  const latencyMs = Math.round((performance.now() - startedAt) * 1000) / 1000;
+
+  probeHealthy.set({ probe: probe.name }, outcome.status === 'healthy' ? 1 : 0);
+  probeLatency.set({ probe: probe.name }, latencyMs / 1000);
+
+  const previous = lastStatuses.get(probe.name);
+  if (previous !== outcome.status) {
+    if (outcome.status === 'unhealthy') log.warn('Probe failing', { probe: probe.name, message: outcome.message });
+    else if (previous) log.info('Probe recovered', { probe: probe.name });
+    lastStatuses.set(probe.name, outcome.status);
+  }
+
+  return {
+    name: probe.name,
+    status: outcome.status,
+    latencyMs,
+    message: outcome.message,
+    critical: probe.critical ?? true,
+    liveness: probe.liveness ?? false,
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Result of the probe, run at most once per `health.cacheTtlMs`
+ */
+function probeResult(probe: HealthProbe): Promise<ComponentHealth> {
+  const cached = cache.get(probe.name);
+  if (cached && cached.expiresAt > Date.now()) return cached.result;
+
+  const entry: CachedResult = { result: runProbe(probe), expiresAt: Infinity };
+  cache.set(probe.name, entry);
+  entry.result.then(() => {
+    entry.expiresAt = Date.now() + getConfig().health.cacheTtlMs;
+  });
+
+  return entry.result;
+}
+
+export const InfraService = {
+  /**
+   * Add a probe to every subsequent health check
+   */
+  registerProbe: (probe: HealthProbe): void => {
+    probes.get(probe.name)?.close?.();
+    probes.set(probe.name, probe);
+    cache.delete(probe.name);
+  },
+
+  /**
+   * Run the registered probes (or reuse their cached results) and aggregate them: live when
+   * every liveness probe passes, ready when live and every critical probe passes
+   */
+  healthCheck: async (): Promise<HealthStatus> => {
+    const components = await Promise.all([...probes.values()].map(probeResult));
+
+    const passes = (component: ComponentHealth) => component.status === 'healthy';
+    const live = components.filter(component => component.liveness).every(passes);
+    const ready = live && components.filter(component => component.critical).every(passes);
+    const failures = components
+      .filter(component => !passes(component) && (component.critical || component.liveness))
+      .map(component => `${component.name}: ${component.message ?? 'unhealthy'}`);
+    const database = components.find(component => component.name === DATABASE_PROBE);
+
+    const status = ready ? 'healthy' : 'unhealthy';
+    healthChecks.inc({ status });
+    healthy.set(ready ? 1 : 0);
+
+    return {
+      status,
+      timestamp: new Date().toISOString(),
+      database: database && passes(database) ? 'connected' : 'disconnected',
+      error: failures.length > 0 ? failures.join('; ') : undefined,
+      live,
+      ready,
+      components,
+    };
+  },
+
+  /**
+   * Store the result of a check for GetHealthHistory. Failures are recorded too: when the
+   * database itself is down the check is kept and stored along with the next one that succeeds.
+   */
+  recordHealth: async (health: HealthStatus): Promise<void> => {
+    unrecorded.push({ status: health.status, timestamp: new Date(health.timestamp), error: health.error ?? null });
+    unrecorded.splice(0, Math.max(0, unrecorded.length - MAX_UNRECORDED_CHECKS));
+
+    const records = [...unrecorded];
+    try {
+      await InfraRepository.recordHealthChecks(records);
+      unrecorded.splice(0, records.length);
+    } catch (error) {
+      log.warn('Health check not recorded, will retry with the next one', { pending: unrecorded.length, error });
+    }
+  },
+
+  /**
+   * Uptime, outages and status transitions over the range, from the recorded checks
+   */
+  getHealthHistory: traced(
+    'InfraService.getHealthHistory',
+    async (query: HealthHistoryQuery): Promise<HealthHistory> => {
+      const records = await InfraRepository.findHealthChecks(query.from, query.to);
+      return summarizeHealthHistory(records, query, 2 * getConfig().health.checkIntervalMs);
+    }
+  ),
+
+  /**
+   * Delete the checks older than `health.history.retentionDays`
+   */
+  pruneHealthHistory: async (): Promise<number> => {
+    const cutoff = new Date(Date.now() - getConfig().health.history.retentionDays * DAY_MS);
+    const deleted = await InfraRepository.deleteHealthChecksBefore(cutoff);
+    if (deleted > 0) log.info('Health history pruned', { deleted, before: cutoff.toISOString() });
+
+    return deleted;
+  },
+
+  /**
+   * Prune now and then periodically; returns the function stopping the timer
+   */
+  startHistoryRetention: (intervalMs: number): (() => void) => {
+    const prune = () => {
+      InfraService.pruneHealthHistory().catch(error => log.error('Health history pruning failed', { error }));
+    };
+    prune();
+    const timer = setInterval(prune, intervalMs);
+    timer.unref();
+
+    return () => clearInterval(timer);
+  },
+
+  /**
+   * Release the resources of every probe, on shutdown
+   */
+  closeProbes: (): void => {
+    probes.forEach(probe => probe.close?.());
+  },
+
+  /**
+   * Forget registered probes and cached results, keeping the database probe; used between tests
+   */
+  reset: (): void => {
+    InfraService.closeProbes();
+    probes.clear();
+    probes.set(DATABASE_PROBE, databaseProbe);
+    cache.clear();
+    lastStatuses.clear();
+    unrecorded.length = 0;
+  },
+};
@@ -0,0 +1,145 @@
+import { Counter } from 'prom-client';
+import { OutboxRepository, type PendingOutboxEvent } from '@/DAL/outbox.repository';
+import type { OutboxMessage } from '@/DTO/outbox.dto';
+import { getConfig } from '@/lib/config';
+import { logger } from '@/lib/logger';
+import { registry } from '@/lib/metrics';
+import { traced } from '@/lib/tracing';
+
+const log = logger.child({ component: 'OutboxService' });
+
+export interface OutboxSink {
+  /** Unique; registering another sink under the same name replaces it */
+  name: string;
+  /** Resolving means delivered; throwing schedules a retry of the event on every sink */
+  deliver(message: OutboxMessage): Promise<void>;
+}
+
+const deliveries = new Counter({
+  name: 'outbox_deliveries_total',
+  help: 'Outbox delivery attempts, by outcome: delivered, retried or dead',
+  labelNames: ['outcome'],
+  registers: [registry],
+});
+
+const sinks = new Map<string, OutboxSink>();
+// The pass in progress, which concurrent dispatches share rather than delivering events twice
+let running: Promise<number> | undefined;
+
+/**
+ * Delay before the attempt following `attempts` failures: exponential from `retryBaseDelayMs`,
+ * capped at `retryMaxDelayMs`
+ */
+export function retryDelayMs(attempts: number): number {
+  const { retryBaseDelayMs, retryMaxDelayMs } = getConfig().outbox;
+  return Math.min(retryBaseDelayMs * 2 ** (attempts - 1), retryMaxDelayMs);
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function deliver(event: PendingOutboxEvent): Promise<void> {
+  const attempts = event.attempts + 1;
+  const targets = [...sinks.values()];
+  const results = await Promise.allSettled(targets.map(sink => sink.deliver(event.message)));
+  const failures = results.flatMap((result, index) =>
+    result.status === 'rejected' ? [`${targets[index].name}: ${errorMessage(result.reason)}`] : []
+  );
+
+  if (failures.length === 0) {
+    await OutboxRepository.markDelivered(event.id, attempts);
+    deliveries.inc({ outcome: 'delivered' });
+    return;
+  }
+
+  const error = failures.join('; ');
+  const context = { eventId: event.message.id, type: event.message.type, attempts, error };
+  if (attempts >= getConfig().outbox.maxAttempts) {
+    await OutboxRepository.markFailed(event.id, attempts, error);
+    deliveries.inc({ outcome: 'dead' });
+    log.error('Outbox event moved to the dead letters', context);
+  } else {
+    await OutboxRepository.markFailed(event.id, attempts, error, new Date(Date.now() + retryDelayMs(attempts)));
+    deliveries.inc({ outcome: 'retried' });
+    log.warn('Outbox event delivery failed, will retry', context);
+  }
+}
+
+async function dispatchDue(): Promise<number> {
+  const events = await OutboxRepository.findDue(new Date(), getConfig().outbox.batchSize);
+  // Oldest first, but a failed event is retried after the ones queued behind it
+  for (const event of events) await deliver(event);
+
+  return events.length;
+}
+
+export const OutboxService = {
+  /**
+   * Deliver every subsequent event to the sink as well
+   */
+  registerSink: (sink: OutboxSink): void => {
+    sinks.set(sink.name, sink);
+  },
+
+  /**
+   * Deliver the due events to every sink; resolves the number of events attempted. Without sinks,
+   * events are left pending for the ones registered later.
+   */
+  dispatch: (): Promise<number> => {
+    if (sinks.size === 0) return Promise.resolve(0);
+
+    running ??= dispatchDue().finally(() => {
+      running = undefined;
+    });
+    return running;
+  },
+
+  /**
+   * Dispatch periodically, and again right away while full batches are due; returns the function
+   * stopping the timer
+   */
+  startDispatcher: (intervalMs: number): (() => void) => {
+    let timer: NodeJS.Timeout | undefined;
+    let stopped = false;
+
+    const schedule = (delayMs: number) => {
+      if (stopped) return;
+      timer = setTimeout(run, delayMs);
+      timer.unref();
+    };
+    const run = () => {
+      OutboxService.dispatch()
+        .then(count => schedule(count >= getConfig().outbox.batchSize ? 0 : intervalMs))
+        .catch(error => {
+          log.error('Outbox dispatch failed', { error });
+          schedule(intervalMs);
+        });
+    };
+    schedule(0);
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  },
+
+  /**
+   * Deliver the given events again, whatever their status, or every dead letter when no ids are
+   * given; resolves the number of events requeued
+   */
+  replayEvents: traced('OutboxService.replayEvents', async (ids: string[]): Promise<number> => {
+    const replayed = await OutboxRepository.requeue(ids.map(Number));
+    log.info('Outbox events requeued', { replayed, ids: ids.length > 0 ? ids : 'dead letters' });
+
+    return replayed;
+  }),
+
+  /**
+   * Forget registered sinks; used between tests
+   */
+  reset: (): void => {
+    sinks.clear();
+    running = undefined;
+  },
+};
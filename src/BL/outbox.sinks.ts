@@ -0,0 +1,70 @@
+import { createHmac } from 'crypto';
+import { OutboxService, type OutboxSink } from '@/BL/outbox.service';
+import type { OutboxMessage } from '@/DTO/outbox.dto';
+import type { Config } from '@/lib/config';
+
+export const SIGNATURE_HEADER = 'x-outbox-signature';
+export const TIMESTAMP_HEADER = 'x-outbox-timestamp';
+
+/**
+ * `sha256=` followed by the hex HMAC-SHA256 of `<timestamp>.<body>`; receivers recompute it with
+ * the shared secret, and reject old timestamps to thwart replays
+ */
+export function signWebhook(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * POSTs each event as JSON, signed with `secret`; any response other than 2xx, or none within
+ * `timeoutMs`, fails the delivery
+ */
+export function webhookSink(options: { name?: string; url: string; secret: string; timeoutMs: number }): OutboxSink {
+  return {
+    name: options.name ?? `webhook:${options.url}`,
+    deliver: async message => {
+      const body = JSON.stringify(message);
+      const timestamp = String(Math.floor(Date.now() / 1000));
+
+      const response = await fetch(options.url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-outbox-event-id': message.id,
+          'x-outbox-event-type': message.type,
+          [TIMESTAMP_HEADER]: timestamp,
+          [SIGNATURE_HEADER]: signWebhook(options.secret, timestamp, body),
+        },
+        body,
+        signal: AbortSignal.timeout(options.timeoutMs),
+      });
+      if (!response.ok) throw new Error(`Webhook responded ${response.status} ${response.statusText}`.trim());
+    },
+  };
+}
+
+/**
+ * Hands events to `handler` within the process, and keeps those it accepted in `messages`;
+ * meant for tests and for consumers embedded in the server
+ */
+export function inProcessSink(
+  name = 'in-process',
+  handler: (message: OutboxMessage) => void | Promise<void> = () => {}
+): OutboxSink & { messages: OutboxMessage[] } {
+  const messages: OutboxMessage[] = [];
+
+  return {
+    name,
+    messages,
+    deliver: async message => {
+      await handler(message);
+      messages.push(message);
+    },
+  };
+}
+
+/**
+ * Register a sink for each webhook of the `outbox` configuration
+ */
+export function registerWebhookSinks(outbox: Config['outbox']): void {
+  outbox.webhooks.forEach(webhook => OutboxService.registerSink(webhookSink(webhook)));
+}
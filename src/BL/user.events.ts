@@ -0,0 +1,99 @@
+import { randomUUID } from 'crypto';
+import type { User, UserEventType } from '@/DTO/user.dto';
+import { FailedPreconditionError, ValidationError } from '@/lib/errors';
+
+export interface UserChangeEvent {
+  type: UserEventType;
+  user: Partial<User> & { id: string };
+  occurredAt: string;
+  resumeToken: string;
+}
+
+type UserEventListener = (event: UserChangeEvent) => void;
+
+interface Subscriber {
+  listener: UserEventListener;
+  onClose?: () => void;
+}
+
+// Number of past events kept so that reconnecting watchers can catch up
+const HISTORY_SIZE = 1000;
+
+// Tokens from a previous process cannot be resumed, the epoch tells them apart
+const epoch = randomUUID();
+const history: Array<UserChangeEvent & { sequence: number }> = [];
+const subscribers = new Set<Subscriber>();
+let sequence = 0;
+
+function encodeResumeToken(position: number): string {
+  return Buffer.from(`${epoch}:${position}`).toString('base64url');
+}
+
+function decodeResumeToken(token: string): number {
+  const [tokenEpoch, position] = Buffer.from(token, 'base64url').toString('utf8').split(':');
+  const parsed = Number(position);
+
+  if (!tokenEpoch || !Number.isInteger(parsed)) {
+    throw new ValidationError('Invalid resume_token', [{ field: 'resume_token', description: 'Malformed token' }]);
+  }
+  if (tokenEpoch !== epoch) {
+    throw new FailedPreconditionError('resume_token was issued by another server instance, resync required');
+  }
+
+  return parsed;
+}
+
+export const UserEvents = {
+  publish: (type: UserEventType, user: Partial<User> & { id: string }): UserChangeEvent => {
+    sequence += 1;
+    const event = { type, user, occurredAt: new Date().toISOString(), resumeToken: encodeResumeToken(sequence) };
+
+    history.push({ ...event, sequence });
+    if (history.length > HISTORY_SIZE) history.shift();
+
+    subscribers.forEach(subscriber => subscriber.listener(event));
+    return event;
+  },
+
+  /**
+   * Subscribe to future events, first replaying those after `resumeToken` when given.
+   * Returns the unsubscribe function.
+   */
+  subscribe: (resumeToken: string, listener: UserEventListener, onClose?: () => void): (() => void) => {
+    if (resumeToken) {
+      const position = decodeResumeToken(resumeToken);
+      const oldest = history[0]?.sequence ?? sequence + 1;
+      if (position < oldest - 1) {
+        throw new FailedPreconditionError('resume_token is too old, resync required');
+      }
+
+      history
+        .filter(event => event.sequence > position)
+        .forEach(({ sequence: _sequence, ...event }) => listener(event));
+    }
+
+    const subscriber: Subscriber = { listener, onClose };
+    subscribers.add(subscriber);
+
+    return () => {
+      subscribers.delete(subscriber);
+    };
+  },
+
+  /**
+   * Close every subscription, ending the watch streams before shutdown
+   */
+  closeAll: (): void => {
+    subscribers.forEach(subscriber => subscriber.onClose?.());
+    subscribers.clear();
+  },
+
+  /**
+   * Drop history and subscribers, used between tests
+   */
+  reset: (): void => {
+    history.length = 0;
+    subscribers.clear();
+    sequence = 0;
+  },
+};
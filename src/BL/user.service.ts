@@ -1,24 +1,308 @@
+import { UserEvents, type UserChangeEvent } from '@/BL/user.events';
 import { UserRepository } from '@/DAL/user.repository';
-import type { User, CreateUserInput, UpdateUserInput } from '@/DTO/user.dto';
+import { CreateUserSchema } from '@/DTO/user.dto';
+import type { User, CreateUserInput, UpdateUserInput, ListUsersQuery, StreamUsersQuery } from '@/DTO/user.dto';
+import {
+  createLruCacheStore,
+  createReadThroughCache,
+  type CacheStats,
+  type CacheStore,
+  type ReadThroughCache,
+} from '@/lib/cache';
+import { getConfig } from '@/lib/config';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { logger } from '@/lib/logger';
+import { traced } from '@/lib/tracing';
+
+const log = logger.child({ component: 'UserService' });
+
+const LIST_KEY_PREFIX = 'list:';
+
+function createCache(store?: CacheStore) {
+  const { features, cache: options } = getConfig();
+  if (!features.userCache) return undefined;
+
+  return createReadThroughCache({
+    name: 'users',
+    store: store ?? createLruCacheStore({ maxEntries: options.maxEntries }),
+    ttlMs: options.ttlMs,
+    negativeTtlMs: options.negativeTtlMs,
+  });
+}
+
+// Set up on first use, once the configuration is known; undefined when caching is disabled
+let cache: ReadThroughCache | undefined | null = null;
+
+function getCache(): ReadThroughCache | undefined {
+  if (cache === null) cache = createCache();
+  return cache;
+}
+
+const userKey = (id: string, includeDeleted: boolean) => `user:${id}:${includeDeleted ? 'any' : 'live'}`;
+
+/**
+ * Serve a list page from the cache; pages are kept for `listTtlMs` only, as any write drops them all
+ */
+function cachedList<T>(key: string, load: () => Promise<T>): Promise<T> {
+  const cache = getCache();
+  return cache ? cache.get(LIST_KEY_PREFIX + key, load, getConfig().cache.listTtlMs) : load();
+}
+
+/**
+ * Drop what a write to these users made stale: their lookups and every cached list page
+ */
+async function invalidate(ids: string[]): Promise<void> {
+  const cache = getCache();
+  if (!cache) return;
+
+  await cache.invalidate(ids.flatMap(id => [userKey(id, false), userKey(id, true)]));
+  await cache.invalidatePrefix(LIST_KEY_PREFIX);
+}
+
+// Enforced here whatever the caller validated, since one oversized page can exhaust the server.
+// 0 stands for the default page size.
+function capPageSize(pageSize: number): number {
+  const { defaultPageSize, maxPageSize } = getConfig().pagination;
+  return Math.min(Math.max(1, Math.floor(pageSize) || defaultPageSize), maxPageSize);
+}
+
+/**
+ * Outcome of one item of a batch call; `error` is set when the item failed
+ */
+export interface BatchItemResult {
+  user?: User;
+  error?: unknown;
+}
 
 export const UserService = {
-  getUser: async (id: string): Promise<User | null> => {
-    return UserRepository.findById(id);
+  /**
+   * Soft-deleted users are not found unless `includeDeleted` is set. Served from the cache, which
+   * also remembers ids that were not found for a while.
+   */
+  getUser: traced(
+    'UserService.getUser',
+    async (id: string, options: { includeDeleted?: boolean } = {}): Promise<User> => {
+      const load = () => UserRepository.findById(id, options);
+      const cache = getCache();
+      const user = cache ? await cache.get(userKey(id, !!options.includeDeleted), load) : await load();
+      if (!user) throw new NotFoundError('User', id);
+
+      return user;
+    }
+  ),
+
+  createUser: traced('UserService.createUser', async (input: CreateUserInput): Promise<User> => {
+    const user = await UserRepository.create(input);
+    await invalidate([user.id]);
+    log.info('User created', { userId: user.id });
+    UserEvents.publish('CREATED', user);
+
+    return user;
+  }),
+
+  /**
+   * Write the fields of the input; with an etag, fails with AbortedError if the user has changed since
+   */
+  updateUser: traced('UserService.updateUser', async (input: UpdateUserInput): Promise<User> => {
+    const user = await UserRepository.update(input);
+    if (!user) throw new NotFoundError('User', input.id);
+
+    await invalidate([user.id]);
+    log.info('User updated', { userId: user.id });
+    UserEvents.publish('UPDATED', user);
+    return user;
+  }),
+
+  /**
+   * Soft-delete the user; deleting it again succeeds without effect
+   */
+  deleteUser: traced('UserService.deleteUser', async (id: string): Promise<boolean> => {
+    const deleted = await UserRepository.softDelete(id);
+    if (deleted === null) throw new NotFoundError('User', id);
+
+    if (deleted) {
+      await invalidate([id]);
+      log.info('User deleted', { userId: id });
+      UserEvents.publish('DELETED', { id });
+    }
+
+    return true;
+  }),
+
+  /**
+   * Bring a soft-deleted user back; restoring a live user returns it unchanged
+   */
+  restoreUser: traced('UserService.restoreUser', async (id: string): Promise<User> => {
+    const result = await UserRepository.restore(id);
+    if (!result) throw new NotFoundError('User', id);
+
+    if (result.restored) {
+      await invalidate([id]);
+      log.info('User restored', { userId: id });
+      UserEvents.publish('RESTORED', result.user);
+    }
+
+    return result.user;
+  }),
+
+  /**
+   * Remove the user for good, soft-deleted or not, so that its email can be registered again
+   */
+  purgeUser: traced('UserService.purgeUser', async (id: string): Promise<boolean> => {
+    const user = await UserRepository.purge(id);
+    await invalidate([id]);
+    log.info('User purged', { userId: id });
+    // Watchers were already told about a soft-deleted user
+    if (!user.deletedAt) UserEvents.publish('DELETED', { id });
+
+    return true;
+  }),
+
+  batchGetUsers: traced(
+    'UserService.batchGetUsers',
+    async (ids: string[]): Promise<Array<BatchItemResult & { id: string }>> => {
+      const users = await UserRepository.findByIds([...new Set(ids)]);
+      const usersById = new Map(users.map(user => [user.id, user]));
+
+      return ids.map(id => {
+        const user = usersById.get(id);
+        return user ? { id, user } : { id, error: new NotFoundError('User', id) };
+      });
+    }
+  ),
+
+  /**
+   * Create users either all-or-nothing (atomic) or one by one, reporting each item's outcome
+   */
+  batchCreateUsers: traced(
+    'UserService.batchCreateUsers',
+    async (items: unknown[], atomic: boolean): Promise<Array<BatchItemResult & { index: number }>> => {
+      const parsed = items.map(item => CreateUserSchema.safeParse(item));
+
+      if (atomic) {
+        const violations = parsed.flatMap((result, index) =>
+          result.success
+            ? []
+            : ValidationError.fromZod(result.error).violations.map(violation => ({
+                field: `users.${index}.${violation.field}`,
+                description: violation.description,
+              }))
+        );
+        if (violations.length > 0) {
+          throw new ValidationError('Invalid request: batch contains invalid users', violations);
+        }
+
+        const users = await UserRepository.createMany(parsed.map(result => result.data as CreateUserInput));
+        await invalidate(users.map(user => user.id));
+        log.info('Users created', { userIds: users.map(user => user.id) });
+        users.forEach(user => UserEvents.publish('CREATED', user));
+        return users.map((user, index) => ({ index, user }));
+      }
+
+      const results: Array<BatchItemResult & { index: number }> = [];
+      for (const [index, result] of parsed.entries()) {
+        if (!result.success) {
+          results.push({ index, error: ValidationError.fromZod(result.error) });
+          continue;
+        }
+
+        try {
+          results.push({ index, user: await UserService.createUser(result.data) });
+        } catch (error) {
+          results.push({ index, error });
+        }
+      }
+
+      return results;
+    }
+  ),
+
+  /**
+   * Delete users either all-or-nothing (atomic) or one by one, reporting each item's outcome
+   */
+  batchDeleteUsers: traced(
+    'UserService.batchDeleteUsers',
+    async (ids: string[], atomic: boolean): Promise<Array<{ id: string; error?: unknown }>> => {
+      if (atomic) {
+        const deleted = await UserRepository.deleteMany(ids);
+        await invalidate(deleted);
+        log.info('Users deleted', { userIds: deleted });
+        deleted.forEach(id => UserEvents.publish('DELETED', { id }));
+        return ids.map(id => ({ id }));
+      }
+
+      const results: Array<{ id: string; error?: unknown }> = [];
+      for (const id of ids) {
+        try {
+          await UserService.deleteUser(id);
+          results.push({ id });
+        } catch (error) {
+          results.push({ id, error });
+        }
+      }
+
+      return results;
+    }
+  ),
+
+  listUsers: traced(
+    'UserService.listUsers',
+    async (
+      page: number = 1,
+      pageSize: number = 0,
+      includeDeleted: boolean = false
+    ): Promise<{ users: User[]; total: number }> => {
+      const args = [Math.max(1, Math.floor(page) || 1), capPageSize(pageSize), includeDeleted] as const;
+      return cachedList(`offset:${args.join(':')}`, () => UserRepository.findAll(...args));
+    }
+  ),
+
+  listUsersByCursor: traced(
+    'UserService.listUsersByCursor',
+    async (query: ListUsersQuery): Promise<{ users: User[]; total: number; nextPageToken: string }> => {
+      const capped = { ...query, pageSize: capPageSize(query.pageSize) };
+      return cachedList(`cursor:${JSON.stringify(capped)}`, () => UserRepository.findPage(capped));
+    }
+  ),
+
+  streamUsers: (query: StreamUsersQuery): AsyncGenerator<User[]> => {
+    return UserRepository.streamBatches(query);
   },
 
-  createUser: async (input: CreateUserInput): Promise<User> => {
-    return UserRepository.create(input);
+  /**
+   * Follow user changes, replaying those after `resumeToken` first; returns the unsubscribe function
+   */
+  watchUsers: (
+    resumeToken: string,
+    listener: (event: UserChangeEvent) => void,
+    onClose?: () => void
+  ): (() => void) => {
+    return UserEvents.subscribe(resumeToken, listener, onClose);
   },
 
-  updateUser: async (input: UpdateUserInput): Promise<User | null> => {
-    return UserRepository.update(input);
+  /**
+   * End every WatchUsers stream, letting the server shut down
+   */
+  closeWatchers: (): void => {
+    UserEvents.closeAll();
   },
 
-  deleteUser: async (id: string): Promise<boolean> => {
-    return UserRepository.delete(id);
+  /**
+   * Keep cached users in `store`, e.g. one shared by every instance, instead of the in-memory LRU
+   */
+  useCacheStore: (store: CacheStore): void => {
+    cache = createCache(store);
   },
 
-  listUsers: async (page: number = 1, pageSize: number = 10): Promise<{ users: User[]; total: number }> => {
-    return UserRepository.findAll(page, pageSize);
+  /**
+   * Cache hits and misses since the cache was set up; undefined when caching is disabled
+   */
+  cacheStats: (): CacheStats | undefined => getCache()?.stats(),
+
+  /**
+   * Start over with an empty in-memory cache; used between tests
+   */
+  reset: (): void => {
+    cache = null;
   },
 };
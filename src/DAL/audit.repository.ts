@@ -0,0 +1,117 @@
+import { createHash } from 'crypto';
+import type { AuditEvent as AuditEventRow, Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { SYSTEM_ACTOR } from '@/DTO/audit.dto';
+import type { AuditAction, AuditChange, AuditEvent, ListAuditEventsQuery } from '@/DTO/audit.dto';
+import type { User } from '@/DTO/user.dto';
+import { getConfig } from '@/lib/config';
+import { getRequestContext } from '@/lib/context';
+import { fromPrismaError } from '@/lib/errors';
+import { decodePageToken, encodePageToken, queryFingerprint } from '@/lib/pagination';
+import prisma, { type TransactionClient } from './prismaClient';
+
+// Fields compared between the states before and after a mutation
+const AUDITED_FIELDS = ['name', 'email', 'deletedAt'] as const;
+
+type AuditedUser = Pick<User, (typeof AUDITED_FIELDS)[number]>;
+
+// Page tokens carry the id of the last event returned
+const AuditCursorSchema = z.number().int();
+
+function redactEmail(email: string): string {
+  switch (getConfig().audit.emailRedaction) {
+    case 'none':
+      return email;
+    case 'hash':
+      return `sha256:${createHash('sha256').update(email.toLowerCase()).digest('hex').slice(0, 16)}`;
+    case 'mask': {
+      const at = email.lastIndexOf('@');
+      return `${email.charAt(0)}***${at > 0 ? email.slice(at) : ''}`;
+    }
+  }
+}
+
+/**
+ * Fields whose value differs between the two states; a missing state (before a creation, after a
+ * purge) leaves its side of every change unset
+ */
+function diff(before: AuditedUser | null, after: AuditedUser | null): AuditChange[] {
+  const changes: AuditChange[] = [];
+  for (const field of AUDITED_FIELDS) {
+    const previous = before?.[field] ?? undefined;
+    const next = after?.[field] ?? undefined;
+    if (previous === next) continue;
+
+    const redact = field === 'email' ? redactEmail : (value: string) => value;
+    changes.push({
+      field,
+      before: previous === undefined ? undefined : redact(previous),
+      after: next === undefined ? undefined : redact(next),
+    });
+  }
+
+  return changes;
+}
+
+function toAuditEvent(row: AuditEventRow): AuditEvent {
+  return {
+    id: String(row.id),
+    userId: row.userId,
+    action: row.action as AuditAction,
+    actor: row.actor,
+    method: row.method ?? undefined,
+    requestId: row.requestId ?? undefined,
+    changes: JSON.parse(row.changes) as AuditChange[],
+    occurredAt: row.timestamp.toISOString(),
+  };
+}
+
+export const AuditRepository = {
+  /**
+   * Append the event of a mutation within the transaction making it, attributed to the actor,
+   * method and request ID of the call being handled
+   */
+  record: async (
+    tx: TransactionClient,
+    action: AuditAction,
+    userId: string,
+    before: AuditedUser | null,
+    after: AuditedUser | null
+  ): Promise<void> => {
+    const context = getRequestContext();
+    await tx.auditEvent.create({
+      data: {
+        userId,
+        action,
+        actor: context?.actor ?? SYSTEM_ACTOR,
+        method: context?.method ?? null,
+        requestId: context?.requestId ?? null,
+        changes: JSON.stringify(diff(before, after)),
+      },
+    });
+  },
+
+  /**
+   * Events matching the filters, newest first, paged by id
+   */
+  findPage: async (query: ListAuditEventsQuery): Promise<{ events: AuditEvent[]; nextPageToken: string }> => {
+    const { user_id, actor, action, from, to } = query;
+    const fingerprint = queryFingerprint({ user_id, actor, action, from, to });
+
+    const where: Prisma.AuditEventWhereInput = { userId: user_id, actor, action };
+    if (from || to) where.timestamp = { gte: from && new Date(from), lt: to && new Date(to) };
+    if (query.page_token) where.id = { lt: decodePageToken(query.page_token, fingerprint, AuditCursorSchema) };
+
+    try {
+      const rows = await prisma.auditEvent.findMany({ where, orderBy: { id: 'desc' }, take: query.page_size + 1 });
+
+      const page = rows.slice(0, query.page_size);
+      const last = page[page.length - 1];
+      const nextPageToken = rows.length > query.page_size && last ? encodePageToken(last.id, fingerprint) : '';
+
+      return { events: page.map(toAuditEvent), nextPageToken };
+    } catch (error) {
+      throw fromPrismaError(error, 'AuditEvent');
+    }
+  },
+};
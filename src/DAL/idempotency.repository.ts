@@ -0,0 +1,67 @@
+import type { IdempotencyKey } from '@prisma/client';
+import { AlreadyExistsError, fromPrismaError } from '@/lib/errors';
+import type { IdempotencyRecord, IdempotencyStore } from '@/lib/idempotency';
+import prisma from './prismaClient';
+
+function toRecord(row: IdempotencyKey): IdempotencyRecord {
+  return {
+    requestHash: row.requestHash,
+    response: row.response === null ? undefined : JSON.parse(row.response),
+    expiresAt: row.expiresAt,
+  };
+}
+
+/**
+ * Idempotency keys kept in the database, so that retries are recognized by any server instance
+ * and across restarts
+ */
+export const IdempotencyRepository: IdempotencyStore = {
+  claim: async (key, requestHash, expiresAt) => {
+    try {
+      // Taking over an expired key is conditional, so that a single one of concurrent calls wins it
+      const { count } = await prisma.idempotencyKey.updateMany({
+        where: { key, expiresAt: { lte: new Date() } },
+        data: { requestHash, response: null, expiresAt, createdAt: new Date() },
+      });
+      if (count === 0) await prisma.idempotencyKey.create({ data: { key, requestHash, expiresAt } });
+
+      return null;
+    } catch (error) {
+      const mapped = fromPrismaError(error, 'IdempotencyKey');
+      if (!(mapped instanceof AlreadyExistsError)) throw mapped;
+    }
+
+    try {
+      const existing = await prisma.idempotencyKey.findUnique({ where: { key } });
+      // Released between the failed create and this read: report the call in progress, so it is retried
+      return existing ? toRecord(existing) : { requestHash, expiresAt };
+    } catch (error) {
+      throw fromPrismaError(error, 'IdempotencyKey');
+    }
+  },
+
+  complete: async (key, response) => {
+    try {
+      await prisma.idempotencyKey.update({ where: { key }, data: { response: JSON.stringify(response) } });
+    } catch (error) {
+      throw fromPrismaError(error, 'IdempotencyKey', key);
+    }
+  },
+
+  release: async key => {
+    try {
+      await prisma.idempotencyKey.deleteMany({ where: { key, response: null } });
+    } catch (error) {
+      throw fromPrismaError(error, 'IdempotencyKey', key);
+    }
+  },
+
+  deleteExpired: async now => {
+    try {
+      const { count } = await prisma.idempotencyKey.deleteMany({ where: { expiresAt: { lte: now } } });
+      return count;
+    } catch (error) {
+      throw fromPrismaError(error, 'IdempotencyKey');
+    }
+  },
+};
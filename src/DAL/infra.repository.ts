@@ -1,38 +1,51 @@
-import { PrismaClient } from '@prisma/client';
+import type { HealthCheck } from '@prisma/client';
+import { fromPrismaError } from '@/lib/errors';
+import prisma from './prismaClient';
 
-const prisma = new PrismaClient();
+export type HealthCheckRecord = Pick<HealthCheck, 'status' | 'timestamp' | 'error'>;
 
 export const InfraRepository = {
-  getHealthStatus: async () => {
+  /**
+   * Read-only round trip to the database through the shared client; throws when it is unreachable
+   */
+  ping: async (): Promise<void> => {
+    await prisma.$queryRaw`SELECT 1`;
+  },
+
+  recordHealthChecks: async (records: HealthCheckRecord[]): Promise<void> => {
+    try {
+      await prisma.healthCheck.createMany({ data: records });
+    } catch (error) {
+      throw fromPrismaError(error, 'HealthCheck');
+    }
+  },
+
+  /**
+   * Checks recorded between `from` and `to` in chronological order, preceded by the last one
+   * before `from` (if any) which gives the status at the start of the range
+   */
+  findHealthChecks: async (from: Date, to: Date): Promise<HealthCheckRecord[]> => {
     try {
-      // Test database connection
-      await prisma.$connect();
-      
-      // Create a health check record
-      const healthCheck = await prisma.healthCheck.create({
-        data: {
-          status: 'healthy',
-        },
-      });
-      
-      return {
-        status: 'healthy',
-        timestamp: healthCheck.timestamp.toISOString(),
-        database: 'connected',
-      };
+      const [previous, records] = await prisma.$transaction([
+        prisma.healthCheck.findFirst({ where: { timestamp: { lt: from } }, orderBy: { timestamp: 'desc' } }),
+        prisma.healthCheck.findMany({ where: { timestamp: { gte: from, lte: to } }, orderBy: { timestamp: 'asc' } }),
+      ]);
+
+      return previous ? [previous, ...records] : records;
     } catch (error) {
-      return {
-        status: 'unhealthy',
-        timestamp: new Date().toISOString(),
-        database: 'disconnected',
-        error: error instanceof Error ? error.message : 'Unknown error',
-      };
-    } finally {
-      await prisma.$disconnect();
+      throw fromPrismaError(error, 'HealthCheck');
     }
   },
-  
-  disconnect: async () => {
-    await prisma.$disconnect();
+
+  /**
+   * Delete the checks recorded before `cutoff`; returns how many were deleted
+   */
+  deleteHealthChecksBefore: async (cutoff: Date): Promise<number> => {
+    try {
+      const { count } = await prisma.healthCheck.deleteMany({ where: { timestamp: { lt: cutoff } } });
+      return count;
+    } catch (error) {
+      throw fromPrismaError(error, 'HealthCheck');
+    }
   },
 };
@@ -0,0 +1,51 @@
+import { SpanKind } from '@opentelemetry/api';
+import { Prisma } from '@prisma/client';
+import { Histogram } from 'prom-client';
+import { logger } from '@/lib/logger';
+import { registry } from '@/lib/metrics';
+import { withSpan } from '@/lib/tracing';
+
+const log = logger.child({ component: 'prisma' });
+
+const queryDuration = new Histogram({
+  name: 'prisma_query_duration_seconds',
+  help: 'Duration of Prisma queries, by model, operation and outcome',
+  labelNames: ['model', 'operation', 'outcome'],
+  buckets: [0.0005, 0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5],
+  registers: [registry],
+});
+
+/**
+ * Time, trace and log every query of a client. The hook runs in the caller's async context, so
+ * the span is a child of the caller's and the log lines carry the request ID of its call.
+ */
+export const queryInstrumentation = Prisma.defineExtension({
+  name: 'queryInstrumentation',
+  query: {
+    $allOperations({ model, operation, args, query }) {
+      const attributes = {
+        'db.system': 'sqlite',
+        'db.operation': operation,
+        ...(model && { 'db.collection.name': model }),
+      };
+
+      return withSpan(
+        `prisma:${model ? `${model}.` : ''}${operation}`,
+        async () => {
+          const stopTimer = queryDuration.startTimer({ model: model ?? 'raw', operation });
+          try {
+            const result = await query(args);
+            const durationMs = stopTimer({ outcome: 'success' }) * 1000;
+            log.debug('Query', { model, operation, durationMs });
+            return result;
+          } catch (error) {
+            const durationMs = stopTimer({ outcome: 'error' }) * 1000;
+            log.warn('Query failed', { model, operation, durationMs, error });
+            throw error;
+          }
+        },
+        { kind: SpanKind.CLIENT, attributes }
+      );
+    },
+  },
+});
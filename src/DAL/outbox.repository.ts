@@ -0,0 +1,101 @@
+import type { OutboxEvent as OutboxEventRow } from '@prisma/client';
+import type { OutboxEventType, OutboxMessage } from '@/DTO/outbox.dto';
+import { toIsoTimestamp, type User } from '@/DTO/user.dto';
+import { fromPrismaError } from '@/lib/errors';
+import prisma, { type TransactionClient } from './prismaClient';
+
+export type PendingOutboxEvent = Pick<OutboxEventRow, 'id' | 'attempts'> & { message: OutboxMessage };
+
+function toPendingEvent(row: OutboxEventRow): PendingOutboxEvent {
+  return {
+    id: row.id,
+    attempts: row.attempts,
+    message: {
+      id: String(row.id),
+      type: row.type as OutboxEventType,
+      userId: row.userId,
+      user: JSON.parse(row.payload) as User,
+      occurredAt: row.createdAt.toISOString(),
+      attempt: row.attempts + 1,
+    },
+  };
+}
+
+export const OutboxRepository = {
+  /**
+   * Queue the event of a change within the transaction making it, so that it is published if and
+   * only if the change is committed
+   */
+  enqueue: async (tx: TransactionClient, type: OutboxEventType, user: User): Promise<void> => {
+    // Timestamps go out as ISO 8601, as in gRPC responses, whatever format they were stored in
+    const payload: User = {
+      ...user,
+      createdAt: toIsoTimestamp(user.createdAt),
+      updatedAt: toIsoTimestamp(user.updatedAt),
+      deletedAt: user.deletedAt && toIsoTimestamp(user.deletedAt),
+    };
+    await tx.outboxEvent.create({ data: { type, userId: user.id, payload: JSON.stringify(payload) } });
+  },
+
+  /**
+   * Pending events whose next attempt is due, oldest first
+   */
+  findDue: async (now: Date, limit: number): Promise<PendingOutboxEvent[]> => {
+    try {
+      const rows = await prisma.outboxEvent.findMany({
+        where: { status: 'pending', nextAttemptAt: { lte: now } },
+        orderBy: { id: 'asc' },
+        take: limit,
+      });
+
+      return rows.map(toPendingEvent);
+    } catch (error) {
+      throw fromPrismaError(error, 'OutboxEvent');
+    }
+  },
+
+  markDelivered: async (id: number, attempts: number): Promise<void> => {
+    try {
+      await prisma.outboxEvent.update({
+        where: { id },
+        data: { status: 'delivered', attempts, deliveredAt: new Date(), lastError: null },
+      });
+    } catch (error) {
+      throw fromPrismaError(error, 'OutboxEvent', String(id));
+    }
+  },
+
+  /**
+   * Record a failed attempt, scheduling the next one or, without `nextAttemptAt`, moving the
+   * event to the dead letters
+   */
+  markFailed: async (id: number, attempts: number, error: string, nextAttemptAt?: Date): Promise<void> => {
+    try {
+      await prisma.outboxEvent.update({
+        where: { id },
+        data: nextAttemptAt
+          ? { attempts, lastError: error, nextAttemptAt }
+          : { status: 'dead', attempts, lastError: error },
+      });
+    } catch (cause) {
+      throw fromPrismaError(cause, 'OutboxEvent', String(id));
+    }
+  },
+
+  /**
+   * Make the given events, whatever their status, or every dead letter when no ids are given,
+   * pending again with a fresh set of attempts; resolves the number of events requeued
+   */
+  requeue: async (ids: number[]): Promise<number> => {
+    try {
+      const { count } = await prisma.outboxEvent.updateMany({
+        where: ids.length > 0 ? { id: { in: ids } } : { status: 'dead' },
+        data: { status: 'pending', attempts: 0, nextAttemptAt: new Date(), lastError: null, deliveredAt: null },
+      });
+
+      return count;
+    } catch (error) {
+      throw fromPrismaError(error, 'OutboxEvent');
+    }
+  },
+};
@@ -1,28 +1,49 @@
 // Import the PrismaClient class from the @prisma/client package
 import { PrismaClient } from '@prisma/client';
+import type { ITXClientDenyList } from '@prisma/client/runtime/library';
 
+import { getConfig } from '@/lib/config';
+import { logger } from '@/lib/logger';
+import { queryInstrumentation } from './instrumentation';
 import server from '@/server';
 
-// Middleware to automatically update the `UpdatedAt` field before update operations
-const prisma = new PrismaClient({
-    log: ['info', 'warn', 'error'],
+const log = logger.child({ component: 'prisma' });
+const { database } = getConfig();
+
+// Prisma's own messages are emitted as events so they go through the JSON logger
+const client = new PrismaClient({
+    // Falls back to the datasource of prisma/schema.prisma (DATABASE_URL) when unset
+    datasourceUrl: database.url,
+    log: [
+        { emit: 'event', level: 'info' },
+        { emit: 'event', level: 'warn' },
+        { emit: 'event', level: 'error' },
+    ],
 });
 
+client.$on('info', event => log.info(event.message, { target: event.target }));
+client.$on('warn', event => log.warn(event.message, { target: event.target }));
+client.$on('error', event => log.error(event.message, { target: event.target }));
+
+// Time and log every query, see instrumentation.ts
+const prisma = client.$extends(queryInstrumentation);
+
+// Client handed to interactive transactions, `prisma.$transaction(async tx => ...)`
+export type TransactionClient = Omit<typeof prisma, ITXClientDenyList>;
+
 // Function to test the database connection
 async function testDbConnection() {
     try {
         // Attempt to connect to the database
         await prisma.$connect();
         // Log a success message if the connection is successful
-        console.log('Database connection successful');
+        log.info('Database connection successful');
 
         // Close the database connection
         await prisma.$disconnect();
     } catch (error) {
-        // Log an error message if the connection fails
-        console.error('Database connection failed', error);
-        // Log a critical error message and close the server
-        console.error('Exiting due to database connection failure');
+        // Log the failure and close the server
+        log.error('Database connection failed, exiting', { error });
         server.stop();
     }
 }
@@ -30,8 +51,8 @@ async function testDbConnection() {
 // Test the database connection immediately when the application starts
 testDbConnection();
 
-// Schedule the testDbConnection function to run every hour (3600000 milliseconds)
-setInterval(testDbConnection, 60 * 60 * 1000);
+// Re-test the connection every `database.connectionCheckIntervalMs` (default: hourly)
+setInterval(testDbConnection, database.connectionCheckIntervalMs);
 
 // Export the prisma instance for use in other parts of the application
-export default prisma;
\ No newline at end of file
+export default prisma;
@@ -1,24 +1,192 @@
-import type { User, CreateUserInput, UpdateUserInput } from '@/DTO/user.dto';
-import prisma from './prismaClient';
+import type { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { AuditRepository } from '@/DAL/audit.repository';
+import { OutboxRepository } from '@/DAL/outbox.repository';
+import type { AuditAction } from '@/DTO/audit.dto';
+import type { OutboxEventType } from '@/DTO/outbox.dto';
+import { toEtag, toStoredTimestamp } from '@/DTO/user.dto';
+import type {
+  User,
+  CreateUserInput,
+  UpdateUserInput,
+  ListUsersQuery,
+  StreamUsersQuery,
+  UserFilter,
+  UserOrderBy,
+} from '@/DTO/user.dto';
+import { AbortedError, fromPrismaError, NotFoundError } from '@/lib/errors';
+import { decodePageToken, encodePageToken, queryFingerprint } from '@/lib/pagination';
+import prisma, { type TransactionClient } from './prismaClient';
 
-export const UserRepository = {
-  findById: async (id: string): Promise<User | null> => {
-    return prisma.user.findUnique({ where: { id } });
-  },
-
-  findAll: async (page: number = 1, pageSize: number = 10): Promise<{ users: User[]; total: number }> => {
-    const [users, total] = await prisma.$transaction([
-      prisma.user.findMany({
-        skip: (page - 1) * pageSize,
-        take: pageSize,
-      }),
-      prisma.user.count(),
-    ]);
-
-    return {
-      users,
-      total,
+const OUTBOX_EVENT_TYPES: Record<AuditAction, OutboxEventType> = {
+  CREATED: 'UserCreated',
+  UPDATED: 'UserUpdated',
+  DELETED: 'UserDeleted',
+  RESTORED: 'UserRestored',
+  PURGED: 'UserPurged',
+};
+
+/**
+ * Append the audit event and queue the outbox event of a change, within the transaction making it
+ */
+async function recordChange(
+  tx: TransactionClient,
+  action: AuditAction,
+  userId: string,
+  before: User | null,
+  after: User | null
+): Promise<void> {
+  await AuditRepository.record(tx, action, userId, before, after);
+
+  // Purges publish the last state of the user
+  const user = after ?? before;
+  if (user) await OutboxRepository.enqueue(tx, OUTBOX_EVENT_TYPES[action], user);
+}
+
+const UserCursorSchema = z.object({ value: z.string(), id: z.string() });
+
+type UserCursor = z.infer<typeof UserCursorSchema>;
+
+// Timestamps are written in the format of the column defaults, so that every row compares alike
+function storedNow(): string {
+  return toStoredTimestamp(new Date().toISOString());
+}
+
+// Soft-deleted users are hidden unless asked for
+function buildWhere(filter: UserFilter, includeDeleted = false): Prisma.UserWhereInput {
+  const where: Prisma.UserWhereInput = includeDeleted ? {} : { deletedAt: null };
+  if (filter.emailDomain) where.email = { endsWith: `@${filter.emailDomain}` };
+  if (filter.nameContains) where.name = { contains: filter.nameContains };
+  // createdAt is stored as `YYYY-MM-DD HH:MM:SS`, which ISO bounds (`T` sorts after ` `) would misplace
+  if (filter.createdAfter || filter.createdBefore) {
+    where.createdAt = {
+      gt: filter.createdAfter && toStoredTimestamp(filter.createdAfter),
+      lt: filter.createdBefore && toStoredTimestamp(filter.createdBefore),
     };
+  }
+
+  return where;
+}
+
+function buildCursorCondition({ field, direction }: UserOrderBy, cursor: UserCursor): Prisma.UserWhereInput {
+  const op = direction === 'asc' ? 'gt' : 'lt';
+  return {
+    OR: [{ [field]: { [op]: cursor.value } }, { [field]: cursor.value, id: { [op]: cursor.id } }],
+  };
+}
+
+export const UserRepository = {
+  findById: async (id: string, options: { includeDeleted?: boolean } = {}): Promise<User | null> => {
+    try {
+      const user = await prisma.user.findUnique({ where: { id } });
+      return user && (options.includeDeleted || !user.deletedAt) ? user : null;
+    } catch (error) {
+      throw fromPrismaError(error, 'User', id);
+    }
+  },
+
+  findByIds: async (ids: string[]): Promise<User[]> => {
+    try {
+      return await prisma.user.findMany({ where: { id: { in: ids }, deletedAt: null } });
+    } catch (error) {
+      throw fromPrismaError(error, 'User');
+    }
+  },
+
+  findAll: async (
+    page: number = 1,
+    pageSize: number = 10,
+    includeDeleted: boolean = false
+  ): Promise<{ users: User[]; total: number }> => {
+    const where = buildWhere({}, includeDeleted);
+
+    try {
+      const [users, total] = await prisma.$transaction([
+        prisma.user.findMany({
+          where,
+          skip: (page - 1) * pageSize,
+          take: pageSize,
+        }),
+        prisma.user.count({ where }),
+      ]);
+
+      return {
+        users,
+        total,
+      };
+    } catch (error) {
+      throw fromPrismaError(error, 'User');
+    }
+  },
+
+  /**
+   * Keyset pagination ordered by the requested field, with the id as tie-breaker
+   */
+  findPage: async (query: ListUsersQuery): Promise<{ users: User[]; total: number; nextPageToken: string }> => {
+    const { field, direction } = query.order_by;
+    const fingerprint = queryFingerprint({
+      order_by: query.order_by,
+      filter: query.filter,
+      include_deleted: query.include_deleted,
+    });
+    const where = buildWhere(query.filter, query.include_deleted);
+
+    const conditions: Prisma.UserWhereInput[] = [where];
+    if (query.page_token) {
+      const cursor = decodePageToken(query.page_token, fingerprint, UserCursorSchema);
+      conditions.push(buildCursorCondition(query.order_by, cursor));
+    }
+
+    try {
+      const [rows, total] = await prisma.$transaction([
+        prisma.user.findMany({
+          where: { AND: conditions },
+          orderBy: [{ [field]: direction }, { id: direction }],
+          take: query.pageSize + 1,
+        }),
+        prisma.user.count({ where }),
+      ]);
+
+      const users = rows.slice(0, query.pageSize);
+      const last = users[users.length - 1];
+      const nextPageToken =
+        rows.length > query.pageSize && last
+          ? encodePageToken<UserCursor>({ value: String(last[field]), id: last.id }, fingerprint)
+          : '';
+
+      return { users, total, nextPageToken };
+    } catch (error) {
+      throw fromPrismaError(error, 'User');
+    }
+  },
+
+  /**
+   * Walk every matching user in keyset-ordered batches; the next batch is only
+   * queried once the consumer asks for it
+   */
+  streamBatches: async function* (query: StreamUsersQuery): AsyncGenerator<User[]> {
+    const { field, direction } = query.order_by;
+    const where = buildWhere(query.filter);
+    let cursor: UserCursor | undefined;
+
+    while (true) {
+      let batch: User[];
+      try {
+        batch = await prisma.user.findMany({
+          where: cursor ? { AND: [where, buildCursorCondition(query.order_by, cursor)] } : where,
+          orderBy: [{ [field]: direction }, { id: direction }],
+          take: query.batch_size,
+        });
+      } catch (error) {
+        throw fromPrismaError(error, 'User');
+      }
+
+      if (batch.length > 0) yield batch;
+      if (batch.length < query.batch_size) return;
+
+      const last = batch[batch.length - 1];
+      cursor = { value: String(last[field]), id: last.id };
+    }
   },
 
   create: async (input: CreateUserInput): Promise<User> => {
@@ -27,23 +195,167 @@ export const UserRepository = {
       email: input.email,
     };
 
-    return prisma.user.create({ data });
+    try {
+      return await prisma.$transaction(async tx => {
+        const user = await tx.user.create({ data });
+        await recordChange(tx, 'CREATED', user.id, null, user);
+
+        return user;
+      });
+    } catch (error) {
+      throw fromPrismaError(error, 'User');
+    }
   },
 
+  /**
+   * Write the given fields, only if the version still matches when an etag is given; resolves null
+   * when the user does not exist or is deleted
+   */
   update: async (input: UpdateUserInput): Promise<User | null> => {
-    const existingUser = await prisma.user.findUnique({ where: { id: input.id } });
-    if (!existingUser) return null;
+    const { id, etag, ...fields } = input;
+
+    try {
+      return await prisma.$transaction(async tx => {
+        const before = await tx.user.findUnique({ where: { id } });
+        if (!before || before.deletedAt) return null;
+        if (etag !== undefined && Number(etag) !== before.version) {
+          throw new AbortedError(
+            `User ${id} has changed since etag ${etag} was read, current etag is ${toEtag(before.version)}`
+          );
+        }
+
+        // Conditional on the version read, so that the audited before state is the one overwritten
+        const { count } = await tx.user.updateMany({
+          where: { id, version: before.version },
+          data: { ...fields, updatedAt: storedNow(), version: { increment: 1 } },
+        });
+        if (count === 0) throw new AbortedError(`User ${id} was changed by a concurrent update`);
+
+        const user = await tx.user.findUniqueOrThrow({ where: { id } });
+        await recordChange(tx, 'UPDATED', id, before, user);
+
+        return user;
+      });
+    } catch (error) {
+      throw fromPrismaError(error, 'User', id);
+    }
+  },
+
+  /**
+   * Mark the user deleted; resolves true when it was deleted now, false when it already was and
+   * null when it does not exist
+   */
+  softDelete: async (id: string): Promise<boolean | null> => {
+    const now = storedNow();
+
+    try {
+      return await prisma.$transaction(async tx => {
+        const before = await tx.user.findUnique({ where: { id } });
+        if (!before) return null;
+        if (before.deletedAt) return false;
 
-    const data: Record<string, unknown> = {};
-    if (input.name !== undefined) data.name = input.name;
-    if (input.email !== undefined) data.email = input.email;
-    data.updatedAt = new Date().toISOString();
+        const user = await tx.user.update({
+          where: { id },
+          data: { deletedAt: now, updatedAt: now, version: { increment: 1 } },
+        });
+        await recordChange(tx, 'DELETED', id, before, user);
 
-    return prisma.user.update({ where: { id: input.id }, data });
+        return true;
+      });
+    } catch (error) {
+      throw fromPrismaError(error, 'User', id);
+    }
   },
 
-  delete: async (id: string): Promise<boolean> => {
-    const result = await prisma.user.delete({ where: { id } });
-    return !!result;
+  /**
+   * Clear the deletion mark; resolves the user and whether it was deleted, or null when it does
+   * not exist
+   */
+  restore: async (id: string): Promise<{ user: User; restored: boolean } | null> => {
+    try {
+      return await prisma.$transaction(async tx => {
+        const user = await tx.user.findUnique({ where: { id } });
+        if (!user) return null;
+        if (!user.deletedAt) return { user, restored: false };
+
+        const restored = await tx.user.update({
+          where: { id },
+          data: { deletedAt: null, updatedAt: storedNow(), version: { increment: 1 } },
+        });
+        await recordChange(tx, 'RESTORED', id, user, restored);
+
+        return { user: restored, restored: true };
+      });
+    } catch (error) {
+      throw fromPrismaError(error, 'User', id);
+    }
+  },
+
+  /**
+   * Remove the row for good, which frees its email; resolves the removed user. Its audit events
+   * are kept.
+   */
+  purge: async (id: string): Promise<User> => {
+    try {
+      return await prisma.$transaction(async tx => {
+        const user = await tx.user.delete({ where: { id } });
+        await recordChange(tx, 'PURGED', id, user, null);
+
+        return user;
+      });
+    } catch (error) {
+      throw fromPrismaError(error, 'User', id);
+    }
+  },
+
+  /**
+   * Create every user in a single transaction, rolling back all of them on the first failure
+   */
+  createMany: async (inputs: CreateUserInput[]): Promise<User[]> => {
+    try {
+      return await prisma.$transaction(async tx => {
+        const users: User[] = [];
+        for (const input of inputs) {
+          const user = await tx.user.create({ data: { name: input.name, email: input.email } });
+          await recordChange(tx, 'CREATED', user.id, null, user);
+          users.push(user);
+        }
+
+        return users;
+      });
+    } catch (error) {
+      throw fromPrismaError(error, 'User');
+    }
+  },
+
+  /**
+   * Soft-delete every user in a single transaction, rolling back all of them if one is missing;
+   * resolves the ids of the users that were not deleted yet
+   */
+  deleteMany: async (ids: string[]): Promise<string[]> => {
+    const now = storedNow();
+    let current: string | undefined;
+    try {
+      return await prisma.$transaction(async tx => {
+        const deleted: string[] = [];
+        for (const id of ids) {
+          current = id;
+          const before = await tx.user.findUnique({ where: { id } });
+          if (!before) throw new NotFoundError('User', id);
+          if (before.deletedAt) continue;
+
+          const user = await tx.user.update({
+            where: { id },
+            data: { deletedAt: now, updatedAt: now, version: { increment: 1 } },
+          });
+          await recordChange(tx, 'DELETED', id, before, user);
+          deleted.push(id);
+        }
+
+        return deleted;
+      });
+    } catch (error) {
+      throw fromPrismaError(error, 'User', current);
+    }
   },
 };
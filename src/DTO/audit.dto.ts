@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { sizeAtMost } from '@/DTO/user.dto';
+import { getConfig } from '@/lib/config';
+
+// proto3 sends unset strings as '' and unset enums as their zero value, both meaning "no filter"
+const optionalFilter = <T extends z.ZodType>(schema: T, unset = '') =>
+  z.preprocess(value => (value === '' || value === unset ? undefined : value), schema.optional()).optional();
+
+export const SYSTEM_ACTOR = 'system';
+
+// Zod Schemas
+export const AuditActionSchema = z.enum(['CREATED', 'UPDATED', 'DELETED', 'RESTORED', 'PURGED']);
+
+export const AuditChangeSchema = z.object({
+  field: z.string().min(1),
+  before: z.string().optional(),
+  after: z.string().optional(),
+});
+
+export const AuditEventSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  action: AuditActionSchema,
+  actor: z.string(),
+  method: z.string().optional(),
+  requestId: z.string().optional(),
+  changes: z.array(AuditChangeSchema),
+  occurredAt: z.string().datetime(),
+});
+
+export const ListAuditEventsQuerySchema = z
+  .object({
+    page_size: sizeAtMost('maxPageSize')
+      .default(0)
+      .transform(size => size || getConfig().pagination.defaultPageSize),
+    page_token: z.string().default(''),
+    user_id: optionalFilter(z.string()),
+    actor: optionalFilter(z.string()),
+    action: optionalFilter(AuditActionSchema, 'ACTION_UNSPECIFIED'),
+    from: optionalFilter(z.string().datetime()),
+    to: optionalFilter(z.string().datetime()),
+  })
+  .refine(query => !query.from || !query.to || Date.parse(query.from) < Date.parse(query.to), {
+    message: 'from must be before to',
+    path: ['from'],
+  });
+
+// Format checks of the raw request; the filters are resolved by ListAuditEventsQuerySchema
+export const ListAuditEventsRequestSchema = z.object({
+  page_size: sizeAtMost('maxPageSize'),
+  page_token: z.string(),
+  user_id: z.string(),
+  actor: z.string(),
+  action: z.union([z.literal('ACTION_UNSPECIFIED'), AuditActionSchema]),
+  from: z.union([z.literal(''), z.string().datetime()]),
+  to: z.union([z.literal(''), z.string().datetime()]),
+});
+
+// Response shape, checked when response validation is enabled
+export const AuditEventPageSchema = z.object({
+  events: z.array(
+    z.object({
+      id: z.string(),
+      user_id: z.string(),
+      action: AuditActionSchema,
+      actor: z.string(),
+      method: z.string().optional(),
+      request_id: z.string().optional(),
+      changes: z.array(AuditChangeSchema),
+      occurredAt: z.string().datetime(),
+    })
+  ),
+  next_page_token: z.string(),
+});
+
+// TypeScript Types
+export type AuditAction = z.infer<typeof AuditActionSchema>;
+export type AuditChange = z.infer<typeof AuditChangeSchema>;
+export type AuditEvent = z.infer<typeof AuditEventSchema>;
+export type ListAuditEventsQuery = z.infer<typeof ListAuditEventsQuerySchema>;
@@ -0,0 +1,34 @@
+// Code generated by `npm run codegen` from proto/health.proto. DO NOT EDIT.
+import type * as grpc from '@grpc/grpc-js';
+import { z } from 'zod';
+
+export const HealthCheckResponse_ServingStatusSchema = z.enum(['UNKNOWN', 'SERVING', 'NOT_SERVING', 'SERVICE_UNKNOWN']);
+export type HealthCheckResponse_ServingStatus = z.infer<typeof HealthCheckResponse_ServingStatusSchema>;
+
+/** `grpc.health.v1.HealthCheckRequest` as sent */
+export interface HealthCheckRequest {
+  service?: string;
+}
+
+/** `grpc.health.v1.HealthCheckRequest` as received */
+export const HealthCheckRequestSchema = z.object({
+  service: z.string(),
+});
+export type HealthCheckRequest__Output = z.infer<typeof HealthCheckRequestSchema>;
+
+/** `grpc.health.v1.HealthCheckResponse` as sent */
+export interface HealthCheckResponse {
+  status?: HealthCheckResponse_ServingStatus | number;
+}
+
+/** `grpc.health.v1.HealthCheckResponse` as received */
+export const HealthCheckResponseSchema = z.object({
+  status: HealthCheckResponse_ServingStatusSchema,
+});
+export type HealthCheckResponse__Output = z.infer<typeof HealthCheckResponseSchema>;
+
+/** Handlers of `grpc.health.v1.Health` */
+export interface HealthHandlers {
+  check: grpc.handleUnaryCall<HealthCheckRequest__Output, HealthCheckResponse>;
+  watch: grpc.handleServerStreamingCall<HealthCheckRequest__Output, HealthCheckResponse>;
+}
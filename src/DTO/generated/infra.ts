@@ -0,0 +1,149 @@
+// Code generated by `npm run codegen` from proto/infra.proto. DO NOT EDIT.
+import type * as grpc from '@grpc/grpc-js';
+import { z } from 'zod';
+
+/** `infra.HealthCheckRequest` as sent */
+export interface HealthCheckRequest {}
+
+/** `infra.HealthCheckRequest` as received */
+export const HealthCheckRequestSchema = z.object({});
+export type HealthCheckRequest__Output = z.infer<typeof HealthCheckRequestSchema>;
+
+/**
+ * Result of one registered probe
+ * `infra.ComponentHealth` as sent
+ */
+export interface ComponentHealth {
+  name?: string;
+  /** healthy | unhealthy */
+  status?: string;
+  latencyMs?: number;
+  /** Failure reason, or a detail such as the measured value */
+  message?: string;
+  /** Counted in readiness: traffic should not be routed here while it fails */
+  critical?: boolean;
+  /** Counted in liveness: the process should be restarted while it fails */
+  liveness?: boolean;
+  checkedAt?: string;
+}
+
+/** `infra.ComponentHealth` as received */
+export const ComponentHealthSchema = z.object({
+  name: z.string(),
+  status: z.string(),
+  latencyMs: z.number(),
+  message: z.string(),
+  critical: z.boolean(),
+  liveness: z.boolean(),
+  checkedAt: z.string(),
+});
+export type ComponentHealth__Output = z.infer<typeof ComponentHealthSchema>;
+
+/** `infra.HealthCheckResponse` as sent */
+export interface HealthCheckResponse {
+  /** Readiness as healthy | unhealthy */
+  status?: string;
+  timestamp?: string;
+  database?: string;
+  error?: string;
+  live?: boolean;
+  ready?: boolean;
+  components?: ComponentHealth[];
+}
+
+/** `infra.HealthCheckResponse` as received */
+export const HealthCheckResponseSchema = z.object({
+  status: z.string(),
+  timestamp: z.string(),
+  database: z.string(),
+  error: z.string(),
+  live: z.boolean(),
+  ready: z.boolean(),
+  components: z.array(ComponentHealthSchema),
+});
+export type HealthCheckResponse__Output = z.infer<typeof HealthCheckResponseSchema>;
+
+/** `infra.GetHealthHistoryRequest` as sent */
+export interface GetHealthHistoryRequest {
+  /** RFC 3339 bounds of the range; default to the 24 hours up to now */
+  from?: string;
+  to?: string;
+}
+
+/** `infra.GetHealthHistoryRequest` as received */
+export const GetHealthHistoryRequestSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+});
+export type GetHealthHistoryRequest__Output = z.infer<typeof GetHealthHistoryRequestSchema>;
+
+/** `infra.HealthTransition` as sent */
+export interface HealthTransition {
+  timestamp?: string;
+  /** healthy | unhealthy */
+  from?: string;
+  to?: string;
+  /** Failing probes when turning unhealthy */
+  error?: string;
+}
+
+/** `infra.HealthTransition` as received */
+export const HealthTransitionSchema = z.object({
+  timestamp: z.string(),
+  from: z.string(),
+  to: z.string(),
+  error: z.string(),
+});
+export type HealthTransition__Output = z.infer<typeof HealthTransitionSchema>;
+
+/** `infra.HealthOutage` as sent */
+export interface HealthOutage {
+  start?: string;
+  /** Empty when the outage lasts beyond the end of the range */
+  end?: string;
+  durationMs?: number;
+  /** Failing probes of the first unhealthy check */
+  error?: string;
+}
+
+/** `infra.HealthOutage` as received */
+export const HealthOutageSchema = z.object({
+  start: z.string(),
+  end: z.string(),
+  durationMs: z.number(),
+  error: z.string(),
+});
+export type HealthOutage__Output = z.infer<typeof HealthOutageSchema>;
+
+/** `infra.GetHealthHistoryResponse` as sent */
+export interface GetHealthHistoryResponse {
+  from?: string;
+  to?: string;
+  /** Recorded checks in the range */
+  samples?: number;
+  /** Share of the covered time spent healthy, 0 without samples */
+  uptimePercent?: number;
+  /** Time known from samples: each holds until the next one, for at most two check intervals */
+  coveredMs?: number;
+  outages?: HealthOutage[];
+  transitions?: HealthTransition[];
+}
+
+/** `infra.GetHealthHistoryResponse` as received */
+export const GetHealthHistoryResponseSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  samples: z.number().int(),
+  uptimePercent: z.number(),
+  coveredMs: z.number(),
+  outages: z.array(HealthOutageSchema),
+  transitions: z.array(HealthTransitionSchema),
+});
+export type GetHealthHistoryResponse__Output = z.infer<typeof GetHealthHistoryResponseSchema>;
+
+/** Handlers of `infra.InfraService` */
+export interface InfraServiceHandlers {
+  healthCheck: grpc.handleUnaryCall<HealthCheckRequest__Output, HealthCheckResponse>;
+  /** Recorded health checks over a time range, aggregated into uptime, outages and transitions */
+  getHealthHistory: grpc.handleUnaryCall<GetHealthHistoryRequest__Output, GetHealthHistoryResponse>;
+}
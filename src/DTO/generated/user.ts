@@ -0,0 +1,587 @@
+// Code generated by `npm run codegen` from proto/user.proto. DO NOT EDIT.
+import type * as grpc from '@grpc/grpc-js';
+import { z } from 'zod';
+
+export const UserEvent_TypeSchema = z.enum(['TYPE_UNSPECIFIED', 'CREATED', 'UPDATED', 'DELETED', 'RESTORED']);
+export type UserEvent_Type = z.infer<typeof UserEvent_TypeSchema>;
+
+export const AuditEvent_ActionSchema = z.enum(['ACTION_UNSPECIFIED', 'CREATED', 'UPDATED', 'DELETED', 'RESTORED', 'PURGED']);
+export type AuditEvent_Action = z.infer<typeof AuditEvent_ActionSchema>;
+
+/** `user.User` as sent */
+export interface User {
+  id?: string;
+  name?: string;
+  email?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  /** Set while the user is soft-deleted */
+  deletedAt?: string;
+  /** Changes on every write; send it back in UpdateUserRequest to update only this version */
+  etag?: string;
+}
+
+/** `user.User` as received */
+export const UserSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  email: z.string(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  deletedAt: z.string(),
+  etag: z.string(),
+});
+export type User__Output = z.infer<typeof UserSchema>;
+
+/** `user.GetUserRequest` as sent */
+export interface GetUserRequest {
+  id?: string;
+  /** Return the user even if it is soft-deleted */
+  include_deleted?: boolean;
+}
+
+/** `user.GetUserRequest` as received */
+export const GetUserRequestSchema = z.object({
+  id: z.string(),
+  include_deleted: z.boolean(),
+});
+export type GetUserRequest__Output = z.infer<typeof GetUserRequestSchema>;
+
+/** `user.GetUserResponse` as sent */
+export interface GetUserResponse {
+  user?: User | null;
+  /** @deprecated */
+  error?: string;
+}
+
+/** `user.GetUserResponse` as received */
+export const GetUserResponseSchema = z.object({
+  user: UserSchema.nullable(),
+  error: z.string(),
+});
+export type GetUserResponse__Output = z.infer<typeof GetUserResponseSchema>;
+
+/** `user.CreateUserRequest` as sent */
+export interface CreateUserRequest {
+  name?: string;
+  email?: string;
+}
+
+/** `user.CreateUserRequest` as received */
+export const CreateUserRequestSchema = z.object({
+  name: z.string(),
+  email: z.string(),
+});
+export type CreateUserRequest__Output = z.infer<typeof CreateUserRequestSchema>;
+
+/** `user.CreateUserResponse` as sent */
+export interface CreateUserResponse {
+  user?: User | null;
+  /** @deprecated */
+  error?: string;
+}
+
+/** `user.CreateUserResponse` as received */
+export const CreateUserResponseSchema = z.object({
+  user: UserSchema.nullable(),
+  error: z.string(),
+});
+export type CreateUserResponse__Output = z.infer<typeof CreateUserResponseSchema>;
+
+/** `google.protobuf.FieldMask` as sent */
+export interface FieldMask {
+  paths?: string[];
+}
+
+/** `google.protobuf.FieldMask` as received */
+export const FieldMaskSchema = z.object({
+  paths: z.array(z.string()),
+});
+export type FieldMask__Output = z.infer<typeof FieldMaskSchema>;
+
+/** `user.UpdateUserRequest` as sent */
+export interface UpdateUserRequest {
+  id?: string;
+  name?: string;
+  email?: string;
+  /**
+   * Fields to write, "name" and/or "email", or "*" for both; a listed field is written even
+   * when empty. Without a mask only the non-empty fields are written.
+   */
+  update_mask?: FieldMask | null;
+  /** etag of the user as last read; the update is rejected if it has changed since */
+  etag?: string;
+}
+
+/** `user.UpdateUserRequest` as received */
+export const UpdateUserRequestSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  email: z.string(),
+  update_mask: FieldMaskSchema.nullable(),
+  etag: z.string(),
+});
+export type UpdateUserRequest__Output = z.infer<typeof UpdateUserRequestSchema>;
+
+/** `user.UpdateUserResponse` as sent */
+export interface UpdateUserResponse {
+  user?: User | null;
+  /** @deprecated */
+  error?: string;
+}
+
+/** `user.UpdateUserResponse` as received */
+export const UpdateUserResponseSchema = z.object({
+  user: UserSchema.nullable(),
+  error: z.string(),
+});
+export type UpdateUserResponse__Output = z.infer<typeof UpdateUserResponseSchema>;
+
+/** `user.DeleteUserRequest` as sent */
+export interface DeleteUserRequest {
+  id?: string;
+}
+
+/** `user.DeleteUserRequest` as received */
+export const DeleteUserRequestSchema = z.object({
+  id: z.string(),
+});
+export type DeleteUserRequest__Output = z.infer<typeof DeleteUserRequestSchema>;
+
+/** `user.DeleteUserResponse` as sent */
+export interface DeleteUserResponse {
+  /** True once the user is deleted, including when it already was */
+  success?: boolean;
+  /** @deprecated */
+  error?: string;
+}
+
+/** `user.DeleteUserResponse` as received */
+export const DeleteUserResponseSchema = z.object({
+  success: z.boolean(),
+  error: z.string(),
+});
+export type DeleteUserResponse__Output = z.infer<typeof DeleteUserResponseSchema>;
+
+/** `user.RestoreUserRequest` as sent */
+export interface RestoreUserRequest {
+  id?: string;
+}
+
+/** `user.RestoreUserRequest` as received */
+export const RestoreUserRequestSchema = z.object({
+  id: z.string(),
+});
+export type RestoreUserRequest__Output = z.infer<typeof RestoreUserRequestSchema>;
+
+/** `user.RestoreUserResponse` as sent */
+export interface RestoreUserResponse {
+  user?: User | null;
+}
+
+/** `user.RestoreUserResponse` as received */
+export const RestoreUserResponseSchema = z.object({
+  user: UserSchema.nullable(),
+});
+export type RestoreUserResponse__Output = z.infer<typeof RestoreUserResponseSchema>;
+
+/** `user.PurgeUserRequest` as sent */
+export interface PurgeUserRequest {
+  id?: string;
+}
+
+/** `user.PurgeUserRequest` as received */
+export const PurgeUserRequestSchema = z.object({
+  id: z.string(),
+});
+export type PurgeUserRequest__Output = z.infer<typeof PurgeUserRequestSchema>;
+
+/** `user.PurgeUserResponse` as sent */
+export interface PurgeUserResponse {
+  success?: boolean;
+}
+
+/** `user.PurgeUserResponse` as received */
+export const PurgeUserResponseSchema = z.object({
+  success: z.boolean(),
+});
+export type PurgeUserResponse__Output = z.infer<typeof PurgeUserResponseSchema>;
+
+/** `user.ListUsersRequest` as sent */
+export interface ListUsersRequest {
+  /** Offset mode for older clients, used when page > 0 and no page_token is given */
+  page?: number;
+  pageSize?: number;
+  /** Opaque cursor taken from a previous next_page_token */
+  page_token?: string;
+  /** "name", "email" or "createdAt", optionally followed by "asc" or "desc" */
+  order_by?: string;
+  /**
+   * Terms joined by AND: email_domain, name_contains, created_after, created_before
+   * e.g. email_domain = "example.com" AND created_after = "2025-01-01T00:00:00Z"
+   */
+  filter?: string;
+  /** List soft-deleted users too */
+  include_deleted?: boolean;
+}
+
+/** `user.ListUsersRequest` as received */
+export const ListUsersRequestSchema = z.object({
+  page: z.number().int(),
+  pageSize: z.number().int(),
+  page_token: z.string(),
+  order_by: z.string(),
+  filter: z.string(),
+  include_deleted: z.boolean(),
+});
+export type ListUsersRequest__Output = z.infer<typeof ListUsersRequestSchema>;
+
+/** `user.ListUsersResponse` as sent */
+export interface ListUsersResponse {
+  users?: User[];
+  total?: number;
+  /** @deprecated */
+  error?: string;
+  /** Empty when there are no more results */
+  next_page_token?: string;
+}
+
+/** `user.ListUsersResponse` as received */
+export const ListUsersResponseSchema = z.object({
+  users: z.array(UserSchema),
+  total: z.number().int(),
+  error: z.string(),
+  next_page_token: z.string(),
+});
+export type ListUsersResponse__Output = z.infer<typeof ListUsersResponseSchema>;
+
+/** `user.StreamUsersRequest` as sent */
+export interface StreamUsersRequest {
+  /** Same syntax as ListUsersRequest */
+  order_by?: string;
+  filter?: string;
+  /** Rows fetched from the database per round-trip, 100 when unset */
+  batch_size?: number;
+}
+
+/** `user.StreamUsersRequest` as received */
+export const StreamUsersRequestSchema = z.object({
+  order_by: z.string(),
+  filter: z.string(),
+  batch_size: z.number().int(),
+});
+export type StreamUsersRequest__Output = z.infer<typeof StreamUsersRequestSchema>;
+
+/** `user.WatchUsersRequest` as sent */
+export interface WatchUsersRequest {
+  /** resume_token of the last event received, to replay what was missed while disconnected */
+  resume_token?: string;
+}
+
+/** `user.WatchUsersRequest` as received */
+export const WatchUsersRequestSchema = z.object({
+  resume_token: z.string(),
+});
+export type WatchUsersRequest__Output = z.infer<typeof WatchUsersRequestSchema>;
+
+/** `user.UserEvent` as sent */
+export interface UserEvent {
+  type?: UserEvent_Type | number;
+  /** Only the id is set for DELETED events */
+  user?: User | null;
+  occurredAt?: string;
+  resume_token?: string;
+}
+
+/** `user.UserEvent` as received */
+export const UserEventSchema = z.object({
+  type: UserEvent_TypeSchema,
+  user: UserSchema.nullable(),
+  occurredAt: z.string(),
+  resume_token: z.string(),
+});
+export type UserEvent__Output = z.infer<typeof UserEventSchema>;
+
+/** `user.FieldViolation` as sent */
+export interface FieldViolation {
+  field?: string;
+  description?: string;
+}
+
+/** `user.FieldViolation` as received */
+export const FieldViolationSchema = z.object({
+  field: z.string(),
+  description: z.string(),
+});
+export type FieldViolation__Output = z.infer<typeof FieldViolationSchema>;
+
+/**
+ * Outcome of one item of a batch call, code being a google.rpc.Code (0 = OK)
+ * `user.ItemStatus` as sent
+ */
+export interface ItemStatus {
+  code?: number;
+  message?: string;
+  violations?: FieldViolation[];
+}
+
+/** `user.ItemStatus` as received */
+export const ItemStatusSchema = z.object({
+  code: z.number().int(),
+  message: z.string(),
+  violations: z.array(FieldViolationSchema),
+});
+export type ItemStatus__Output = z.infer<typeof ItemStatusSchema>;
+
+/** `user.BatchGetUsersRequest` as sent */
+export interface BatchGetUsersRequest {
+  ids?: string[];
+}
+
+/** `user.BatchGetUsersRequest` as received */
+export const BatchGetUsersRequestSchema = z.object({
+  ids: z.array(z.string()),
+});
+export type BatchGetUsersRequest__Output = z.infer<typeof BatchGetUsersRequestSchema>;
+
+/** `user.BatchGetUsersResult` as sent */
+export interface BatchGetUsersResult {
+  id?: string;
+  user?: User | null;
+  status?: ItemStatus | null;
+}
+
+/** `user.BatchGetUsersResult` as received */
+export const BatchGetUsersResultSchema = z.object({
+  id: z.string(),
+  user: UserSchema.nullable(),
+  status: ItemStatusSchema.nullable(),
+});
+export type BatchGetUsersResult__Output = z.infer<typeof BatchGetUsersResultSchema>;
+
+/** `user.BatchGetUsersResponse` as sent */
+export interface BatchGetUsersResponse {
+  results?: BatchGetUsersResult[];
+}
+
+/** `user.BatchGetUsersResponse` as received */
+export const BatchGetUsersResponseSchema = z.object({
+  results: z.array(BatchGetUsersResultSchema),
+});
+export type BatchGetUsersResponse__Output = z.infer<typeof BatchGetUsersResponseSchema>;
+
+/** `user.BatchCreateUsersRequest` as sent */
+export interface BatchCreateUsersRequest {
+  users?: CreateUserRequest[];
+  /** All-or-nothing: any invalid or failing item fails the whole call and nothing is written */
+  atomic?: boolean;
+}
+
+/** `user.BatchCreateUsersRequest` as received */
+export const BatchCreateUsersRequestSchema = z.object({
+  users: z.array(CreateUserRequestSchema),
+  atomic: z.boolean(),
+});
+export type BatchCreateUsersRequest__Output = z.infer<typeof BatchCreateUsersRequestSchema>;
+
+/** `user.BatchCreateUsersResult` as sent */
+export interface BatchCreateUsersResult {
+  /** Position of the item in the request */
+  index?: number;
+  user?: User | null;
+  status?: ItemStatus | null;
+}
+
+/** `user.BatchCreateUsersResult` as received */
+export const BatchCreateUsersResultSchema = z.object({
+  index: z.number().int(),
+  user: UserSchema.nullable(),
+  status: ItemStatusSchema.nullable(),
+});
+export type BatchCreateUsersResult__Output = z.infer<typeof BatchCreateUsersResultSchema>;
+
+/** `user.BatchCreateUsersResponse` as sent */
+export interface BatchCreateUsersResponse {
+  results?: BatchCreateUsersResult[];
+}
+
+/** `user.BatchCreateUsersResponse` as received */
+export const BatchCreateUsersResponseSchema = z.object({
+  results: z.array(BatchCreateUsersResultSchema),
+});
+export type BatchCreateUsersResponse__Output = z.infer<typeof BatchCreateUsersResponseSchema>;
+
+/** `user.BatchDeleteUsersRequest` as sent */
+export interface BatchDeleteUsersRequest {
+  ids?: string[];
+  atomic?: boolean;
+}
+
+/** `user.BatchDeleteUsersRequest` as received */
+export const BatchDeleteUsersRequestSchema = z.object({
+  ids: z.array(z.string()),
+  atomic: z.boolean(),
+});
+export type BatchDeleteUsersRequest__Output = z.infer<typeof BatchDeleteUsersRequestSchema>;
+
+/** `user.BatchDeleteUsersResult` as sent */
+export interface BatchDeleteUsersResult {
+  id?: string;
+  status?: ItemStatus | null;
+}
+
+/** `user.BatchDeleteUsersResult` as received */
+export const BatchDeleteUsersResultSchema = z.object({
+  id: z.string(),
+  status: ItemStatusSchema.nullable(),
+});
+export type BatchDeleteUsersResult__Output = z.infer<typeof BatchDeleteUsersResultSchema>;
+
+/** `user.BatchDeleteUsersResponse` as sent */
+export interface BatchDeleteUsersResponse {
+  results?: BatchDeleteUsersResult[];
+}
+
+/** `user.BatchDeleteUsersResponse` as received */
+export const BatchDeleteUsersResponseSchema = z.object({
+  results: z.array(BatchDeleteUsersResultSchema),
+});
+export type BatchDeleteUsersResponse__Output = z.infer<typeof BatchDeleteUsersResponseSchema>;
+
+/**
+ * Field changed by a mutation; before is unset on creation and after on purge
+ * `user.AuditChange` as sent
+ */
+export interface AuditChange {
+  field?: string;
+  before?: string;
+  after?: string;
+}
+
+/** `user.AuditChange` as received */
+export const AuditChangeSchema = z.object({
+  field: z.string(),
+  before: z.string(),
+  after: z.string(),
+});
+export type AuditChange__Output = z.infer<typeof AuditChangeSchema>;
+
+/**
+ * Mutation of a user, recorded in the same transaction as the change
+ * `user.AuditEvent` as sent
+ */
+export interface AuditEvent {
+  id?: string;
+  user_id?: string;
+  action?: AuditEvent_Action | number;
+  /** Subject of the authenticated caller, "system" for changes made outside of a call */
+  actor?: string;
+  /** Full method path, e.g. "/user.UserService/UpdateUser" */
+  method?: string;
+  request_id?: string;
+  /** Emails are redacted as configured by audit.emailRedaction */
+  changes?: AuditChange[];
+  occurredAt?: string;
+}
+
+/** `user.AuditEvent` as received */
+export const AuditEventSchema = z.object({
+  id: z.string(),
+  user_id: z.string(),
+  action: AuditEvent_ActionSchema,
+  actor: z.string(),
+  method: z.string(),
+  request_id: z.string(),
+  changes: z.array(AuditChangeSchema),
+  occurredAt: z.string(),
+});
+export type AuditEvent__Output = z.infer<typeof AuditEventSchema>;
+
+/** `user.ListAuditEventsRequest` as sent */
+export interface ListAuditEventsRequest {
+  page_size?: number;
+  /** Opaque cursor taken from a previous next_page_token */
+  page_token?: string;
+  /** Filters, all optional and combined with AND */
+  user_id?: string;
+  actor?: string;
+  action?: AuditEvent_Action | number;
+  /** RFC 3339 bounds of occurredAt, from inclusive and to exclusive */
+  from?: string;
+  to?: string;
+}
+
+/** `user.ListAuditEventsRequest` as received */
+export const ListAuditEventsRequestSchema = z.object({
+  page_size: z.number().int(),
+  page_token: z.string(),
+  user_id: z.string(),
+  actor: z.string(),
+  action: AuditEvent_ActionSchema,
+  from: z.string(),
+  to: z.string(),
+});
+export type ListAuditEventsRequest__Output = z.infer<typeof ListAuditEventsRequestSchema>;
+
+/** `user.ListAuditEventsResponse` as sent */
+export interface ListAuditEventsResponse {
+  events?: AuditEvent[];
+  /** Empty when there are no more results */
+  next_page_token?: string;
+}
+
+/** `user.ListAuditEventsResponse` as received */
+export const ListAuditEventsResponseSchema = z.object({
+  events: z.array(AuditEventSchema),
+  next_page_token: z.string(),
+});
+export type ListAuditEventsResponse__Output = z.infer<typeof ListAuditEventsResponseSchema>;
+
+/** `user.ReplayOutboxEventsRequest` as sent */
+export interface ReplayOutboxEventsRequest {
+  /** Events to deliver again, whatever their status; every dead-lettered event when empty */
+  ids?: string[];
+}
+
+/** `user.ReplayOutboxEventsRequest` as received */
+export const ReplayOutboxEventsRequestSchema = z.object({
+  ids: z.array(z.string()),
+});
+export type ReplayOutboxEventsRequest__Output = z.infer<typeof ReplayOutboxEventsRequestSchema>;
+
+/** `user.ReplayOutboxEventsResponse` as sent */
+export interface ReplayOutboxEventsResponse {
+  /** Events queued for delivery */
+  replayed?: number;
+}
+
+/** `user.ReplayOutboxEventsResponse` as received */
+export const ReplayOutboxEventsResponseSchema = z.object({
+  replayed: z.number().int(),
+});
+export type ReplayOutboxEventsResponse__Output = z.infer<typeof ReplayOutboxEventsResponseSchema>;
+
+/** Handlers of `user.UserService` */
+export interface UserServiceHandlers {
+  getUser: grpc.handleUnaryCall<GetUserRequest__Output, GetUserResponse>;
+  createUser: grpc.handleUnaryCall<CreateUserRequest__Output, CreateUserResponse>;
+  /** Fails with ABORTED when etag is given and the user has changed since it was read */
+  updateUser: grpc.handleUnaryCall<UpdateUserRequest__Output, UpdateUserResponse>;
+  /** Soft delete: the user is hidden from reads until restored or purged */
+  deleteUser: grpc.handleUnaryCall<DeleteUserRequest__Output, DeleteUserResponse>;
+  restoreUser: grpc.handleUnaryCall<RestoreUserRequest__Output, RestoreUserResponse>;
+  /** Permanently delete a user, soft-deleted or not, freeing its email; admin only */
+  purgeUser: grpc.handleUnaryCall<PurgeUserRequest__Output, PurgeUserResponse>;
+  listUsers: grpc.handleUnaryCall<ListUsersRequest__Output, ListUsersResponse>;
+  streamUsers: grpc.handleServerStreamingCall<StreamUsersRequest__Output, User>;
+  watchUsers: grpc.handleServerStreamingCall<WatchUsersRequest__Output, UserEvent>;
+  batchGetUsers: grpc.handleUnaryCall<BatchGetUsersRequest__Output, BatchGetUsersResponse>;
+  batchCreateUsers: grpc.handleUnaryCall<BatchCreateUsersRequest__Output, BatchCreateUsersResponse>;
+  /** Client-streaming variant of BatchCreateUsers; atomic is read from the first message */
+  uploadUsers: grpc.handleClientStreamingCall<BatchCreateUsersRequest__Output, BatchCreateUsersResponse>;
+  batchDeleteUsers: grpc.handleUnaryCall<BatchDeleteUsersRequest__Output, BatchDeleteUsersResponse>;
+  /** Audit trail of user mutations, newest first */
+  listAuditEvents: grpc.handleUnaryCall<ListAuditEventsRequest__Output, ListAuditEventsResponse>;
+  /** Deliver outbox events again, by default those in the dead letters; admin only */
+  replayOutboxEvents: grpc.handleUnaryCall<ReplayOutboxEventsRequest__Output, ReplayOutboxEventsResponse>;
+}
@@ -0,0 +1,10 @@
+import { z } from 'zod';
+import { HealthCheckResponse_ServingStatusSchema } from '@/DTO/generated/health';
+
+// Zod Schemas
+export const ServingStatusSchema = HealthCheckResponse_ServingStatusSchema;
+
+// TypeScript Types
+export type ServingStatus = z.infer<typeof ServingStatusSchema>;
+
+// gRPC message types are generated from proto/health.proto into src/DTO/generated/health.ts
@@ -1,12 +1,81 @@
 import { z } from 'zod';
 
+// proto3 sends unset strings as '', which leaves the bound to its default
+const optionalTimestamp = () =>
+  z.preprocess(value => (value === '' ? undefined : value), z.string().datetime().optional());
+
+export const DEFAULT_HISTORY_RANGE_MS = 24 * 60 * 60 * 1000;
+
 // Zod Schemas
+export const ComponentStatusSchema = z.enum(['healthy', 'unhealthy']);
+
+export const ComponentHealthSchema = z.object({
+  name: z.string().min(1),
+  status: ComponentStatusSchema,
+  latencyMs: z.number().min(0),
+  message: z.string().optional(),
+  critical: z.boolean(),
+  liveness: z.boolean(),
+  checkedAt: z.string().datetime(),
+});
+
+// The probe fields are optional so that reports of the single database check still validate
 export const HealthStatusSchema = z.object({
   status: z.enum(['healthy', 'unhealthy']),
   timestamp: z.string().datetime(),
   database: z.enum(['connected', 'disconnected']),
   error: z.string().optional(),
+  live: z.boolean().optional(),
+  ready: z.boolean().optional(),
+  components: z.array(ComponentHealthSchema).optional(),
+});
+
+export const HealthHistoryQuerySchema = z
+  .object({
+    from: optionalTimestamp(),
+    to: optionalTimestamp(),
+  })
+  .transform(({ from, to }) => {
+    const end = to ? new Date(to) : new Date();
+    return { from: from ? new Date(from) : new Date(end.getTime() - DEFAULT_HISTORY_RANGE_MS), to: end };
+  })
+  .refine(range => range.from < range.to, { message: 'from must be before to', path: ['from'] });
+
+// Format checks of the raw request; the range is resolved by HealthHistoryQuerySchema
+export const HealthHistoryRequestSchema = z.object({
+  from: z.union([z.literal(''), z.string().datetime()]),
+  to: z.union([z.literal(''), z.string().datetime()]),
+});
+
+export const HealthTransitionSchema = z.object({
+  timestamp: z.string().datetime(),
+  from: ComponentStatusSchema,
+  to: ComponentStatusSchema,
+  error: z.string().optional(),
+});
+
+export const HealthOutageSchema = z.object({
+  start: z.string().datetime(),
+  end: z.string().datetime().optional(),
+  durationMs: z.number().min(0),
+  error: z.string().optional(),
+});
+
+export const HealthHistorySchema = z.object({
+  from: z.string().datetime(),
+  to: z.string().datetime(),
+  samples: z.number().int().min(0),
+  uptimePercent: z.number().min(0).max(100),
+  coveredMs: z.number().min(0),
+  outages: z.array(HealthOutageSchema),
+  transitions: z.array(HealthTransitionSchema),
 });
 
 // TypeScript Types
-export type HealthStatus = z.infer<typeof HealthStatusSchema>;
\ No newline at end of file
+export type ComponentStatus = z.infer<typeof ComponentStatusSchema>;
+export type ComponentHealth = z.infer<typeof ComponentHealthSchema>;
+export type HealthStatus = z.infer<typeof HealthStatusSchema>;
+export type HealthHistoryQuery = z.infer<typeof HealthHistoryQuerySchema>;
+export type HealthTransition = z.infer<typeof HealthTransitionSchema>;
+export type HealthOutage = z.infer<typeof HealthOutageSchema>;
+export type HealthHistory = z.infer<typeof HealthHistorySchema>;
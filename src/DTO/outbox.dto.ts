@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { itemsAtMost, UserSchema } from '@/DTO/user.dto';
+
+// Zod Schemas
+export const OutboxEventTypeSchema = z.enum([
+  'UserCreated',
+  'UserUpdated',
+  'UserDeleted',
+  'UserRestored',
+  'UserPurged',
+]);
+
+/**
+ * Event as handed to the sinks; `id` is stable across redeliveries, so that consumers can
+ * discard duplicates
+ */
+export const OutboxMessageSchema = z.object({
+  id: z.string(),
+  type: OutboxEventTypeSchema,
+  userId: z.string(),
+  /** State after the change, or before it for UserPurged */
+  user: UserSchema,
+  occurredAt: z.string().datetime(),
+  /** 1 on the first delivery */
+  attempt: z.number().int().min(1),
+});
+
+export const ReplayOutboxEventsSchema = z.object({
+  ids: itemsAtMost(z.string().regex(/^\d+$/, 'Must be an outbox event id'), 'maxBatchSize'),
+});
+
+// TypeScript Types
+export type OutboxEventType = z.infer<typeof OutboxEventTypeSchema>;
+export type OutboxMessage = z.infer<typeof OutboxMessageSchema>;
+export type ReplayOutboxEventsInput = z.infer<typeof ReplayOutboxEventsSchema>;
@@ -1,75 +1,264 @@
 import { z } from 'zod';
+import { getConfig, type Config } from '@/lib/config';
+
+// proto3 sends unset strings as '', so optional string fields treat '' as absent
+const optionalString = <T extends z.ZodType<string>>(schema: T) =>
+  z.preprocess(value => (value === '' ? undefined : value), schema.optional()).optional();
 
 // Zod Schemas
+export const UserIdSchema = z.string().min(1);
+
+export const GetUserSchema = z.object({
+  id: UserIdSchema,
+  include_deleted: z.boolean().default(false),
+});
+
+export const DeleteUserSchema = z.object({
+  id: UserIdSchema,
+});
+
+export const RestoreUserSchema = DeleteUserSchema;
+export const PurgeUserSchema = DeleteUserSchema;
+
 export const CreateUserSchema = z.object({
   name: z.string().min(1),
   email: z.string().email(),
 });
 
-export const UpdateUserSchema = z.object({
-  name: z.string().min(1).optional(),
-  email: z.string().email().optional(),
-  id: z.string(),
-});
+export const UPDATE_MASK_PATHS = ['name', 'email'] as const;
+
+const UpdateMaskSchema = z.object({ paths: z.array(z.string()) });
+
+// Etags are the row version, which every write increments; clients treat them as opaque
+export const toEtag = (version: number): string => String(version);
+
+// SQLite's CURRENT_TIMESTAMP, the default of createdAt and updatedAt: UTC, without the T and Z of ISO 8601
+const STORED_TIMESTAMP = /^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}(?:\.\d+)?)$/;
+
+/**
+ * Timestamps stored by the database default, as ISO 8601; ISO ones are returned unchanged
+ */
+export const toIsoTimestamp = (value: string): string => value.replace(STORED_TIMESTAMP, '$1T$2Z');
+
+/**
+ * An ISO 8601 timestamp in the format of the database default, so that it compares as a string with
+ * stored ones; milliseconds are only kept when set, as stored timestamps have none
+ */
+export const toStoredTimestamp = (iso: string): string => {
+  const [date, time] = new Date(iso).toISOString().split('T');
+  return `${date} ${time.replace(/(\.000)?Z$/, '')}`;
+};
+
+/**
+ * The fields to write are resolved from update_mask: a field is kept (and validated) when the
+ * mask lists it, or, without a mask, when it is not empty
+ */
+export const UpdateUserSchema = z
+  .object({
+    id: UserIdSchema,
+    name: z.string().optional(),
+    email: z.string().optional(),
+    update_mask: UpdateMaskSchema.nullable().optional(),
+    etag: optionalString(z.string().regex(/^\d+$/, 'Not an etag returned by this service')),
+  })
+  .transform(({ update_mask, ...request }, ctx) => {
+    const paths = update_mask?.paths ?? [];
+    const unknown = paths.filter(path => path !== '*' && !(UPDATE_MASK_PATHS as readonly string[]).includes(path));
+    if (unknown.length > 0) {
+      ctx.addIssue({ code: 'custom', path: ['update_mask', 'paths'], message: `Unknown field: ${unknown.join(', ')}` });
+      return z.NEVER;
+    }
+
+    const masked = paths.includes('*') ? UPDATE_MASK_PATHS : paths;
+    const update: { id: string; etag?: string; name?: string; email?: string } = { id: request.id };
+    if (request.etag !== undefined) update.etag = request.etag;
+    UPDATE_MASK_PATHS.forEach(field => {
+      if (paths.length > 0 ? masked.includes(field) : request[field]) update[field] = request[field] ?? '';
+    });
+
+    return update;
+  })
+  .pipe(
+    z.object({
+      id: UserIdSchema,
+      etag: z.string().optional(),
+      name: z.string().min(1).optional(),
+      email: z.string().email().optional(),
+    })
+  );
 
 export const UserSchema = CreateUserSchema.extend({
   id: z.string(),
-  createdAt: z.string().datetime().nullable(),
-  updatedAt: z.string().datetime().nullable(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  // Set while the user is soft-deleted
+  deletedAt: z.string().datetime().nullable().optional(),
+  // Incremented by every write, exposed as the etag
+  version: z.number().int().min(1),
+});
+
+type PaginationLimit = keyof Config['pagination'];
+
+// Limits come from the `pagination` config, read on every parse so that they follow `configure`
+const paginationLimit = (name: PaginationLimit): number => getConfig().pagination[name];
+
+/**
+ * Page or batch size of a request, from 0 (unset in proto3) up to the `pagination` limit
+ */
+export const sizeAtMost = (limit: PaginationLimit) =>
+  z
+    .number()
+    .int()
+    .min(0)
+    .check(ctx => {
+      const maximum = paginationLimit(limit);
+      if (ctx.value > maximum) {
+        ctx.issues.push({ code: 'too_big', origin: 'number', maximum, inclusive: true, input: ctx.value });
+      }
+    });
+
+/**
+ * List of a request holding at most the `pagination` limit of items
+ */
+export const itemsAtMost = <T extends z.ZodType>(item: T, limit: PaginationLimit) =>
+  z.array(item).check(ctx => {
+    const maximum = paginationLimit(limit);
+    if (ctx.value.length > maximum) {
+      ctx.issues.push({ code: 'too_big', origin: 'array', maximum, inclusive: true, input: ctx.value });
+    }
+  });
+
+export const UserOrderBySchema = z
+  .string()
+  .trim()
+  .transform(value => {
+    const [field = 'createdAt', direction = 'asc'] = value ? value.split(/\s+/) : [];
+    return { field, direction: direction.toLowerCase() };
+  })
+  .pipe(
+    z.object({
+      field: z.enum(['name', 'email', 'createdAt']),
+      direction: z.enum(['asc', 'desc']),
+    })
+  );
+
+const FILTER_KEYS: Record<string, string> = {
+  email_domain: 'emailDomain',
+  name_contains: 'nameContains',
+  created_after: 'createdAfter',
+  created_before: 'createdBefore',
+};
+
+const FILTER_TERM = /^(\w+)\s*=\s*(?:"([^"]*)"|(\S+))$/;
+
+export const UserFilterSchema = z
+  .string()
+  .trim()
+  .transform((value, ctx) => {
+    const filter: Record<string, string> = {};
+    if (!value) return filter;
+
+    for (const term of value.split(/\s+AND\s+/i)) {
+      const match = FILTER_TERM.exec(term.trim());
+      const key = match && FILTER_KEYS[match[1]];
+      if (!match || !key) {
+        ctx.addIssue({ code: 'custom', message: `Unsupported filter term: ${term}` });
+        return z.NEVER;
+      }
+      filter[key] = match[2] ?? match[3];
+    }
+
+    return filter;
+  })
+  .pipe(
+    z.object({
+      emailDomain: z.string().min(1).optional(),
+      nameContains: z.string().min(1).optional(),
+      createdAfter: z.string().datetime().optional(),
+      createdBefore: z.string().datetime().optional(),
+    })
+  );
+
+export const UserEventTypeSchema = z.enum(['CREATED', 'UPDATED', 'DELETED', 'RESTORED']);
+
+export const ListUsersQuerySchema = z.object({
+  pageSize: sizeAtMost('maxPageSize')
+    .default(0)
+    .transform(size => size || paginationLimit('defaultPageSize')),
+  page_token: z.string().default(''),
+  order_by: UserOrderBySchema.prefault(''),
+  filter: UserFilterSchema.prefault(''),
+  include_deleted: z.boolean().default(false),
+});
+
+// Range checks of the raw request; order_by and filter are parsed by ListUsersQuerySchema
+export const ListUsersRequestSchema = z.object({
+  page: z.number().int().min(0),
+  pageSize: sizeAtMost('maxPageSize'),
+  page_token: z.string(),
+  order_by: z.string(),
+  filter: z.string(),
+  include_deleted: z.boolean(),
+});
+
+export const StreamUsersRequestSchema = z.object({
+  batch_size: sizeAtMost('maxStreamBatchSize'),
+  order_by: z.string(),
+  filter: z.string(),
+});
+
+export const WatchUsersRequestSchema = z.object({
+  resume_token: z.string(),
+});
+
+export const StreamUsersQuerySchema = z.object({
+  batch_size: sizeAtMost('maxStreamBatchSize')
+    .default(0)
+    .transform(size => size || paginationLimit('defaultStreamBatchSize')),
+  order_by: UserOrderBySchema.prefault(''),
+  filter: UserFilterSchema.prefault(''),
+});
+
+export const BatchIdsSchema = z.object({
+  ids: itemsAtMost(z.string().min(1), 'maxBatchSize').min(1),
+  atomic: z.boolean().default(false),
+});
+
+export const BatchGetUsersSchema = BatchIdsSchema.pick({ ids: true });
+
+export const BatchCreateUsersSchema = z.object({
+  // Items are validated one by one so that partial mode can report each failure
+  users: itemsAtMost(z.unknown(), 'maxBatchSize').min(1),
+  atomic: z.boolean().default(false),
+});
+
+// Response shapes, checked when response validation is enabled
+export const UserResultSchema = z.object({
+  user: UserSchema,
+});
+
+export const UserPageSchema = z.object({
+  users: z.array(UserSchema),
+  total: z.number().int().min(0),
+  next_page_token: z.string().optional(),
 });
 
 // TypeScript Types
 export type User = z.infer<typeof UserSchema>;
+export type GetUserInput = z.infer<typeof GetUserSchema>;
+export type DeleteUserInput = z.infer<typeof DeleteUserSchema>;
+export type RestoreUserInput = z.infer<typeof RestoreUserSchema>;
+export type PurgeUserInput = z.infer<typeof PurgeUserSchema>;
 export type CreateUserInput = z.infer<typeof CreateUserSchema>;
 export type UpdateUserInput = z.infer<typeof UpdateUserSchema>;
+export type UserOrderBy = z.infer<typeof UserOrderBySchema>;
+export type UserFilter = z.infer<typeof UserFilterSchema>;
+export type ListUsersQuery = z.infer<typeof ListUsersQuerySchema>;
+export type StreamUsersQuery = z.infer<typeof StreamUsersQuerySchema>;
+export type UserEventType = z.infer<typeof UserEventTypeSchema>;
+export type BatchIdsInput = z.infer<typeof BatchIdsSchema>;
+export type BatchGetUsersInput = z.infer<typeof BatchGetUsersSchema>;
+export type BatchCreateUsersInput = z.infer<typeof BatchCreateUsersSchema>;
 
-// gRPC Message Types
-export interface GetUserRequest {
-  id: string;
-}
-
-export interface GetUserResponse {
-  user?: User;
-  error?: string;
-}
-
-export interface CreateUserRequest {
-  name: string;
-  email: string;
-}
-
-export interface CreateUserResponse {
-  user?: User;
-  error?: string;
-}
-
-export interface UpdateUserRequest {
-  id: string;
-  name?: string;
-  email?: string;
-}
-
-export interface UpdateUserResponse {
-  user?: User;
-  error?: string;
-}
-
-export interface DeleteUserRequest {
-  id: string;
-}
-
-export interface DeleteUserResponse {
-  success: boolean;
-  error?: string;
-}
-
-export interface ListUsersRequest {
-  page?: number;
-  pageSize?: number;
-}
-
-export interface ListUsersResponse {
-  users: User[];
-  total: number;
-  error?: string;
-}
+// gRPC message types and handler signatures are generated from proto/user.proto into
+// src/DTO/generated/user.ts (`npm run codegen`)
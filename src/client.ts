@@ -1,28 +1,39 @@
-import { InfraService } from '@/BL/infra.service';
+import fs from 'fs';
 import { HealthStatusSchema } from '@/DTO/infra.dto';
+import { createInfraClient } from '@/grpc/infra.client';
+import { grpc } from '@/lib/grpc';
 
 async function main() {
+  const address = process.env.GRPC_ADDRESS || 'localhost:50051';
+  const client = createInfraClient(address, {
+    credentials: process.env.GRPC_TLS_CA
+      ? grpc.credentials.createSsl(fs.readFileSync(process.env.GRPC_TLS_CA))
+      : undefined,
+  });
+
   try {
-    console.log('Starting gRPC Proto Application...');
-    
+    console.log(`Checking gRPC server at ${address}...`);
+
     // Perform health check
-    const healthStatus = await InfraService.healthCheck();
-    
+    const healthStatus = await client.healthCheck();
+
     // Validate with Zod
     const validatedStatus = HealthStatusSchema.parse(healthStatus);
-    
+
     console.log('Health Check:', JSON.stringify(validatedStatus, null, 2));
-    
+
     if (validatedStatus.status === 'healthy') {
       console.log('✓ Application is running successfully!');
     } else {
       console.error('✗ Application health check failed:', validatedStatus.error);
-      process.exit(1);
+      process.exitCode = 1;
     }
   } catch (error) {
-    console.error('Failed to start application:', error);
-    process.exit(1);
+    console.error('Failed to reach the gRPC server:', error);
+    process.exitCode = 1;
+  } finally {
+    client.close();
   }
 }
 
-main();
\ No newline at end of file
+main();
@@ -0,0 +1,47 @@
+import fs from 'fs';
+import path from 'path';
+import { generateProtoModule } from '@/lib/codegen';
+
+const PROTO_DIR = path.resolve(__dirname, '../proto');
+const OUTPUT_DIR = path.resolve(__dirname, 'DTO/generated');
+
+/**
+ * Regenerate src/DTO/generated from proto/*.proto, or with --check exit 1 when it is stale
+ */
+function main() {
+  const check = process.argv.includes('--check');
+  const protoFiles = fs.readdirSync(PROTO_DIR).filter(file => file.endsWith('.proto')).sort();
+  const expected = new Map(
+    protoFiles.map(file => [
+      `${path.basename(file, '.proto')}.ts`,
+      generateProtoModule(path.join(PROTO_DIR, file), `proto/${file}`),
+    ])
+  );
+  const existing = fs.existsSync(OUTPUT_DIR) ? fs.readdirSync(OUTPUT_DIR).filter(file => file.endsWith('.ts')) : [];
+
+  if (check) {
+    const stale = [
+      ...[...expected].filter(([file, content]) => {
+        const target = path.join(OUTPUT_DIR, file);
+        return !fs.existsSync(target) || fs.readFileSync(target, 'utf8') !== content;
+      }).map(([file]) => file),
+      ...existing.filter(file => !expected.has(file)),
+    ];
+
+    if (stale.length > 0) {
+      console.error(`✗ Generated code is stale, run \`npm run codegen\`: ${stale.join(', ')}`);
+      process.exit(1);
+    }
+    console.log('✓ Generated code is up to date');
+    return;
+  }
+
+  fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+  existing.filter(file => !expected.has(file)).forEach(file => fs.rmSync(path.join(OUTPUT_DIR, file)));
+  expected.forEach((content, file) => {
+    fs.writeFileSync(path.join(OUTPUT_DIR, file), content);
+    console.log(`✓ Generated src/DTO/generated/${file}`);
+  });
+}
+
+main();
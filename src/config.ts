@@ -0,0 +1,20 @@
+import { ConfigError, configure, loadConfig, type Config } from '@/lib/config';
+
+/**
+ * Load the configuration from the config file, environment and CLI flags of this process.
+ * Modules read the config through getConfig when they use it, so where entry points import this
+ * module among the others does not matter.
+ */
+function loadProcessConfig(): Config {
+  try {
+    return configure(loadConfig({ argv: process.argv.slice(2), env: process.env }));
+  } catch (error) {
+    if (!(error instanceof ConfigError)) throw error;
+
+    // The logger is configured from this very config, so report on stderr directly
+    console.error(error.message);
+    process.exit(1);
+  }
+}
+
+export const config = loadProcessConfig();
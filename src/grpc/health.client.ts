@@ -0,0 +1,21 @@
+import type { HealthCheckResponse__Output } from '@/DTO/generated/health';
+import { RpcClient, type CallOptions, type ClientOptions } from '@/lib/client';
+
+export interface HealthClient {
+  /** Serving status of `service`, '' being the overall server status */
+  check(service?: string, options?: CallOptions): Promise<HealthCheckResponse__Output>;
+  /** Release the underlying channel */
+  close(): void;
+}
+
+/**
+ * Typed client of grpc.health.v1.Health, for probing other gRPC servers
+ */
+export function createHealthClient(address: string, options: ClientOptions = {}): HealthClient {
+  const rpc = new RpcClient(address, 'health.proto', 'grpc.health.v1.Health', options);
+
+  return {
+    check: (service = '', callOptions) => rpc.unary('Check', { service }, callOptions, true),
+    close: () => rpc.close(),
+  };
+}
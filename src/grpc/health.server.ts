@@ -0,0 +1,44 @@
+import { HealthService } from '@/BL/health.service';
+import type { HealthCheckRequest__Output, HealthCheckResponse, HealthHandlers } from '@/DTO/generated/health';
+import type { AuthPolicies } from '@/lib/auth';
+import { NotFoundError } from '@/lib/errors';
+import type { grpc } from '@/lib/grpc';
+
+// Probes cannot authenticate
+export const healthServicePolicies: AuthPolicies = {
+  'grpc.health.v1.Health/*': { public: true },
+};
+
+export const healthServiceImplementation = {
+  check: async (
+    call: grpc.ServerUnaryCall<HealthCheckRequest__Output, HealthCheckResponse>,
+    callback: grpc.sendUnaryData<HealthCheckResponse>
+  ) => {
+    const { service } = call.request;
+    const status = HealthService.getStatus(service);
+
+    if (!status) throw new NotFoundError('Service', service);
+
+    callback(null, { status });
+  },
+
+  watch: (call: grpc.ServerWritableStream<HealthCheckRequest__Output, HealthCheckResponse>) =>
+    new Promise<void>(resolve => {
+      const { service } = call.request;
+      call.write({ status: HealthService.getStatus(service) ?? 'SERVICE_UNKNOWN' });
+
+      const unsubscribe = HealthService.watch(
+        service,
+        status => call.write({ status }),
+        () => {
+          call.end();
+          resolve();
+        }
+      );
+
+      call.on('cancelled', () => {
+        unsubscribe();
+        resolve();
+      });
+    }),
+} satisfies HealthHandlers;
@@ -0,0 +1,26 @@
+import type {
+  GetHealthHistoryRequest,
+  GetHealthHistoryResponse__Output,
+  HealthCheckResponse__Output,
+} from '@/DTO/generated/infra';
+import { RpcClient, type CallOptions, type ClientOptions } from '@/lib/client';
+
+export interface InfraClient {
+  healthCheck(options?: CallOptions): Promise<HealthCheckResponse__Output>;
+  getHealthHistory(request?: GetHealthHistoryRequest, options?: CallOptions): Promise<GetHealthHistoryResponse__Output>;
+  /** Release the underlying channel */
+  close(): void;
+}
+
+/**
+ * Typed client of infra.InfraService
+ */
+export function createInfraClient(address: string, options: ClientOptions = {}): InfraClient {
+  const rpc = new RpcClient(address, 'infra.proto', 'infra.InfraService', options);
+
+  return {
+    healthCheck: callOptions => rpc.unary('HealthCheck', {}, callOptions, true),
+    getHealthHistory: (request = {}, callOptions) => rpc.unary('GetHealthHistory', request, callOptions, true),
+    close: () => rpc.close(),
+  };
+}
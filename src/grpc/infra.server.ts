@@ -1,34 +1,62 @@
 import { InfraService } from '@/BL/infra.service';
-import { HealthStatusSchema, type HealthStatus } from '@/DTO/infra.dto';
-import type { grpc } from '@/lib/grpc';
+import type {
+  GetHealthHistoryRequest__Output,
+  GetHealthHistoryResponse,
+  HealthCheckRequest__Output,
+  HealthCheckResponse,
+  InfraServiceHandlers,
+} from '@/DTO/generated/infra';
+import {
+  HealthHistoryQuerySchema,
+  HealthHistoryRequestSchema,
+  HealthHistorySchema,
+  HealthStatusSchema,
+} from '@/DTO/infra.dto';
+import type { AuthPolicies } from '@/lib/auth';
+import { InternalError } from '@/lib/errors';
+import type { grpc, ServiceSchemas } from '@/lib/grpc';
+
+export const infraServicePolicies: AuthPolicies = {
+  'infra.InfraService/HealthCheck': { public: true },
+  'infra.InfraService/GetHealthHistory': { scopes: ['infra:read'] },
+};
+
+export const infraServiceSchemas: ServiceSchemas = {
+  GetHealthHistory: { request: HealthHistoryRequestSchema, response: HealthHistorySchema },
+};
 
 export const infraServiceImplementation = {
   healthCheck: async (
-    call: grpc.ServerUnaryCall<HealthStatus, HealthStatus>,
-    callback: grpc.sendUnaryData<HealthStatus>
+    call: grpc.ServerUnaryCall<HealthCheckRequest__Output, HealthCheckResponse>,
+    callback: grpc.sendUnaryData<HealthCheckResponse>
+  ) => {
+    const healthStatus = await InfraService.healthCheck();
+
+    // A status failing its own schema is a server bug, not a bad request
+    const parsed = HealthStatusSchema.safeParse(healthStatus);
+    if (!parsed.success) throw new InternalError('Invalid health status');
+    const validatedStatus = parsed.data;
+
+    const response: HealthCheckResponse = {
+      status: validatedStatus.status,
+      timestamp: validatedStatus.timestamp,
+      database: validatedStatus.database,
+      error: validatedStatus.error,
+      live: validatedStatus.live,
+      ready: validatedStatus.ready,
+      components: validatedStatus.components,
+    };
+
+    callback(null, response);
+  },
+
+  getHealthHistory: async (
+    call: grpc.ServerUnaryCall<GetHealthHistoryRequest__Output, GetHealthHistoryResponse>,
+    callback: grpc.sendUnaryData<GetHealthHistoryResponse>
   ) => {
-    try {
-      const healthStatus = await InfraService.healthCheck();
-      
-      // Validate with Zod
-      const validatedStatus = HealthStatusSchema.parse(healthStatus);
-      
-      const response: HealthStatus = {
-        status: validatedStatus.status,
-        timestamp: validatedStatus.timestamp,
-        database: validatedStatus.database,
-        error: validatedStatus.error,
-      };
-
-      callback(null, response);
-    } catch (error) {
-      callback(
-        {
-          code: 13, // INTERNAL
-          message: error instanceof Error ? error.message : 'Unknown error',
-        } as any,
-        null
-      );
-    }
+    const query = HealthHistoryQuerySchema.parse(call.request);
+    const history = await InfraService.getHealthHistory(query);
+
+    callback(null, history);
   },
-};
+} satisfies InfraServiceHandlers;
@@ -0,0 +1,84 @@
+import type {
+  GetUserRequest,
+  GetUserResponse__Output,
+  CreateUserRequest,
+  CreateUserResponse__Output,
+  UpdateUserRequest,
+  UpdateUserResponse__Output,
+  DeleteUserRequest,
+  DeleteUserResponse__Output,
+  RestoreUserRequest,
+  RestoreUserResponse__Output,
+  PurgeUserRequest,
+  PurgeUserResponse__Output,
+  ListUsersRequest,
+  ListUsersResponse__Output,
+  StreamUsersRequest,
+  WatchUsersRequest,
+  User__Output,
+  UserEvent__Output,
+  BatchGetUsersRequest,
+  BatchGetUsersResponse__Output,
+  BatchCreateUsersRequest,
+  BatchCreateUsersResponse__Output,
+  BatchDeleteUsersRequest,
+  BatchDeleteUsersResponse__Output,
+  ListAuditEventsRequest,
+  ListAuditEventsResponse__Output,
+  ReplayOutboxEventsRequest,
+  ReplayOutboxEventsResponse__Output,
+} from '@/DTO/generated/user';
+import { RpcClient, type CallOptions, type ClientOptions } from '@/lib/client';
+
+export interface UserClient {
+  getUser(request: GetUserRequest, options?: CallOptions): Promise<GetUserResponse__Output>;
+  createUser(request: CreateUserRequest, options?: CallOptions): Promise<CreateUserResponse__Output>;
+  updateUser(request: UpdateUserRequest, options?: CallOptions): Promise<UpdateUserResponse__Output>;
+  deleteUser(request: DeleteUserRequest, options?: CallOptions): Promise<DeleteUserResponse__Output>;
+  restoreUser(request: RestoreUserRequest, options?: CallOptions): Promise<RestoreUserResponse__Output>;
+  purgeUser(request: PurgeUserRequest, options?: CallOptions): Promise<PurgeUserResponse__Output>;
+  listUsers(request: ListUsersRequest, options?: CallOptions): Promise<ListUsersResponse__Output>;
+  streamUsers(request: StreamUsersRequest, options?: CallOptions): AsyncGenerator<User__Output>;
+  watchUsers(request: WatchUsersRequest, options?: CallOptions): AsyncGenerator<UserEvent__Output>;
+  batchGetUsers(request: BatchGetUsersRequest, options?: CallOptions): Promise<BatchGetUsersResponse__Output>;
+  batchCreateUsers(request: BatchCreateUsersRequest, options?: CallOptions): Promise<BatchCreateUsersResponse__Output>;
+  uploadUsers(
+    chunks: AsyncIterable<BatchCreateUsersRequest> | Iterable<BatchCreateUsersRequest>,
+    options?: CallOptions
+  ): Promise<BatchCreateUsersResponse__Output>;
+  batchDeleteUsers(request: BatchDeleteUsersRequest, options?: CallOptions): Promise<BatchDeleteUsersResponse__Output>;
+  listAuditEvents(request: ListAuditEventsRequest, options?: CallOptions): Promise<ListAuditEventsResponse__Output>;
+  replayOutboxEvents(
+    request: ReplayOutboxEventsRequest,
+    options?: CallOptions
+  ): Promise<ReplayOutboxEventsResponse__Output>;
+  /** Release the underlying channel */
+  close(): void;
+}
+
+/**
+ * Typed client of user.UserService. Reads and the idempotent DeleteUser and RestoreUser are
+ * retried on UNAVAILABLE, other writes only when given an `idempotencyKey`.
+ */
+export function createUserClient(address: string, options: ClientOptions = {}): UserClient {
+  const rpc = new RpcClient(address, 'user.proto', 'user.UserService', options);
+
+  return {
+    getUser: (request, callOptions) => rpc.unary('GetUser', request, callOptions, true),
+    createUser: (request, callOptions) => rpc.unary('CreateUser', request, callOptions),
+    updateUser: (request, callOptions) => rpc.unary('UpdateUser', request, callOptions),
+    deleteUser: (request, callOptions) => rpc.unary('DeleteUser', request, callOptions, true),
+    restoreUser: (request, callOptions) => rpc.unary('RestoreUser', request, callOptions, true),
+    purgeUser: (request, callOptions) => rpc.unary('PurgeUser', request, callOptions),
+    listUsers: (request, callOptions) => rpc.unary('ListUsers', request, callOptions, true),
+    streamUsers: (request, callOptions) => rpc.serverStream('StreamUsers', request, callOptions),
+    watchUsers: (request, callOptions) => rpc.serverStream('WatchUsers', request, callOptions),
+    batchGetUsers: (request, callOptions) => rpc.unary('BatchGetUsers', request, callOptions, true),
+    batchCreateUsers: (request, callOptions) => rpc.unary('BatchCreateUsers', request, callOptions),
+    uploadUsers: (chunks, callOptions) => rpc.clientStream('UploadUsers', chunks, callOptions),
+    batchDeleteUsers: (request, callOptions) => rpc.unary('BatchDeleteUsers', request, callOptions),
+    listAuditEvents: (request, callOptions) => rpc.unary('ListAuditEvents', request, callOptions, true),
+    replayOutboxEvents: (request, callOptions) => rpc.unary('ReplayOutboxEvents', request, callOptions),
+    close: () => rpc.close(),
+  };
+}
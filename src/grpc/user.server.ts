@@ -1,122 +1,388 @@
+import { AuditService } from '@/BL/audit.service';
+import { OutboxService } from '@/BL/outbox.service';
 import { UserService } from '@/BL/user.service';
-import { CreateUserSchema, UpdateUserSchema } from '@/DTO/user.dto';
-import type { grpc } from '@/lib/grpc';
+import { AuditEventPageSchema, ListAuditEventsQuerySchema, ListAuditEventsRequestSchema } from '@/DTO/audit.dto';
+import { ReplayOutboxEventsSchema, type ReplayOutboxEventsInput } from '@/DTO/outbox.dto';
+import {
+  GetUserSchema,
+  DeleteUserSchema,
+  RestoreUserSchema,
+  PurgeUserSchema,
+  CreateUserSchema,
+  UpdateUserSchema,
+  ListUsersRequestSchema,
+  ListUsersQuerySchema,
+  StreamUsersRequestSchema,
+  StreamUsersQuerySchema,
+  WatchUsersRequestSchema,
+  BatchIdsSchema,
+  BatchGetUsersSchema,
+  BatchCreateUsersSchema,
+  UserSchema,
+  UserResultSchema,
+  UserPageSchema,
+  toEtag,
+  toIsoTimestamp,
+} from '@/DTO/user.dto';
+import type {
+  GetUserInput,
+  DeleteUserInput,
+  RestoreUserInput,
+  PurgeUserInput,
+  CreateUserInput,
+  UpdateUserInput,
+  BatchIdsInput,
+  BatchGetUsersInput,
+  BatchCreateUsersInput,
+} from '@/DTO/user.dto';
+import { requestId, type AuthPolicies } from '@/lib/auth';
+import { getConfig } from '@/lib/config';
+import { ResourceExhaustedError, ValidationError, toItemStatus } from '@/lib/errors';
+import type { grpc, ServiceSchemas } from '@/lib/grpc';
+import { logger } from '@/lib/logger';
 import type {
-  GetUserRequest,
   GetUserResponse,
-  CreateUserRequest,
+  CreateUserRequest__Output,
   CreateUserResponse,
-  UpdateUserRequest,
   UpdateUserResponse,
-  DeleteUserRequest,
   DeleteUserResponse,
-  ListUsersRequest,
+  RestoreUserResponse,
+  PurgeUserResponse,
+  ListUsersRequest__Output,
   ListUsersResponse,
-} from '@/DTO/user.dto';
+  StreamUsersRequest__Output,
+  WatchUsersRequest__Output,
+  User,
+  UserEvent,
+  UserServiceHandlers,
+  BatchGetUsersResponse,
+  BatchCreateUsersRequest__Output,
+  BatchCreateUsersResponse,
+  BatchDeleteUsersResponse,
+  ListAuditEventsRequest__Output,
+  ListAuditEventsResponse,
+  ReplayOutboxEventsResponse,
+} from '@/DTO/generated/user';
+
+const read = { scopes: ['users:read'] };
+const write = { scopes: ['users:write'] };
+const admin = { scopes: ['admin'] };
+
+const log = logger.child({ component: 'user.server' });
+
+// Events a watch stream may hold for a client that is not reading; enough for a full replay of the
+// event history on top of live events
+const MAX_WATCH_BUFFERED_EVENTS = 2000;
+
+// The database leaves deletedAt null on live users; proto3 strings carry that as unset. Timestamps go
+// out as ISO 8601 whatever format they were stored in, and the version as the etag, except on DELETED
+// events which carry the id only.
+type UserRow = { createdAt?: string; updatedAt?: string; deletedAt?: string | null; version?: number };
+
+const toUserMessage = <T extends UserRow>(user: T) => ({
+  ...user,
+  createdAt: user.createdAt === undefined ? undefined : toIsoTimestamp(user.createdAt),
+  updatedAt: user.updatedAt === undefined ? undefined : toIsoTimestamp(user.updatedAt),
+  deletedAt: user.deletedAt ? toIsoTimestamp(user.deletedAt) : undefined,
+  etag: user.version === undefined ? undefined : toEtag(user.version),
+});
+
+export const userServicePolicies: AuthPolicies = {
+  'user.UserService/GetUser': { ...read, self: requestId },
+  'user.UserService/ListUsers': read,
+  'user.UserService/StreamUsers': read,
+  'user.UserService/WatchUsers': read,
+  'user.UserService/BatchGetUsers': read,
+  'user.UserService/CreateUser': write,
+  'user.UserService/UpdateUser': { ...write, self: requestId },
+  'user.UserService/BatchCreateUsers': write,
+  'user.UserService/UploadUsers': write,
+  'user.UserService/DeleteUser': admin,
+  'user.UserService/RestoreUser': write,
+  'user.UserService/PurgeUser': admin,
+  'user.UserService/BatchDeleteUsers': admin,
+  'user.UserService/ListAuditEvents': { scopes: ['audit:read'] },
+  'user.UserService/ReplayOutboxEvents': admin,
+};
+
+// Mutations that retries can repeat safely by sending an idempotency-key
+export const userServiceIdempotentMethods = [
+  'CreateUser',
+  'UpdateUser',
+  'DeleteUser',
+  'RestoreUser',
+  'PurgeUser',
+  'BatchCreateUsers',
+  'BatchDeleteUsers',
+];
+
+// Handlers receive the parsed requests; UploadUsers validates the whole upload once read
+export const userServiceSchemas: ServiceSchemas = {
+  GetUser: { request: GetUserSchema, response: UserResultSchema },
+  CreateUser: { request: CreateUserSchema, response: UserResultSchema },
+  UpdateUser: { request: UpdateUserSchema, response: UserResultSchema },
+  DeleteUser: { request: DeleteUserSchema },
+  RestoreUser: { request: RestoreUserSchema, response: UserResultSchema },
+  PurgeUser: { request: PurgeUserSchema },
+  ListUsers: { request: ListUsersRequestSchema, response: UserPageSchema },
+  StreamUsers: { request: StreamUsersRequestSchema, response: UserSchema },
+  WatchUsers: { request: WatchUsersRequestSchema },
+  BatchGetUsers: { request: BatchGetUsersSchema },
+  BatchCreateUsers: { request: BatchCreateUsersSchema },
+  BatchDeleteUsers: { request: BatchIdsSchema },
+  ListAuditEvents: { request: ListAuditEventsRequestSchema, response: AuditEventPageSchema },
+  ReplayOutboxEvents: { request: ReplayOutboxEventsSchema },
+};
+
+/**
+ * Resolves once the client has drained the stream or cancelled the call; the listener that did not
+ * fire is removed too, so that long exports do not pile them up
+ */
+function drainedOrCancelled(call: grpc.ServerWritableStream<unknown, unknown>): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      call.off('drain', done);
+      call.off('cancelled', done);
+      resolve();
+    };
+    call.once('drain', done);
+    call.once('cancelled', done);
+  });
+}
 
 export const userServiceImplementation = {
   getUser: async (
-    call: grpc.ServerUnaryCall<GetUserRequest, GetUserResponse>,
+    call: grpc.ServerUnaryCall<GetUserInput, GetUserResponse>,
     callback: grpc.sendUnaryData<GetUserResponse>
   ) => {
-    try {
-      const { id } = call.request;
-      const user = await UserService.getUser(id);
-
-      if (!user) {
-        callback(null, {
-          user: undefined,
-          error: 'User not found',
-        });
-        return;
-      }
+    const { id, include_deleted } = call.request;
+    const user = await UserService.getUser(id, { includeDeleted: include_deleted });
 
-      callback(null, { user });
-    } catch (error) {
-      callback(null, {
-        user: undefined,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      });
-    }
+    callback(null, { user: toUserMessage(user) });
   },
 
   createUser: async (
-    call: grpc.ServerUnaryCall<CreateUserRequest, CreateUserResponse>,
+    call: grpc.ServerUnaryCall<CreateUserInput, CreateUserResponse>,
     callback: grpc.sendUnaryData<CreateUserResponse>
   ) => {
-    try {
-      const input = CreateUserSchema.parse(call.request);
-      const user = await UserService.createUser(input);
+    const user = await UserService.createUser(call.request);
 
-      callback(null, { user });
-    } catch (error) {
-      callback(null, {
-        user: undefined,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      });
-    }
+    callback(null, { user: toUserMessage(user) });
   },
 
   updateUser: async (
-    call: grpc.ServerUnaryCall<UpdateUserRequest, UpdateUserResponse>,
+    call: grpc.ServerUnaryCall<UpdateUserInput, UpdateUserResponse>,
     callback: grpc.sendUnaryData<UpdateUserResponse>
   ) => {
-    try {
-      const input = UpdateUserSchema.parse(call.request);
-      const user = await UserService.updateUser(input);
-
-      if (!user) {
-        callback(null, {
-          user: undefined,
-          error: 'User not found',
-        });
-        return;
-      }
+    const user = await UserService.updateUser(call.request);
 
-      callback(null, { user });
-    } catch (error) {
-      callback(null, {
-        user: undefined,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      });
-    }
+    callback(null, { user: toUserMessage(user) });
   },
 
   deleteUser: async (
-    call: grpc.ServerUnaryCall<DeleteUserRequest, DeleteUserResponse>,
+    call: grpc.ServerUnaryCall<DeleteUserInput, DeleteUserResponse>,
     callback: grpc.sendUnaryData<DeleteUserResponse>
   ) => {
-    try {
-      const { id } = call.request;
-      const success = await UserService.deleteUser(id);
+    const { id } = call.request;
+    const success = await UserService.deleteUser(id);
 
-      callback(null, { success });
-    } catch (error) {
-      callback(null, {
-        success: false,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      });
-    }
+    callback(null, { success });
+  },
+
+  restoreUser: async (
+    call: grpc.ServerUnaryCall<RestoreUserInput, RestoreUserResponse>,
+    callback: grpc.sendUnaryData<RestoreUserResponse>
+  ) => {
+    const user = await UserService.restoreUser(call.request.id);
+
+    callback(null, { user: toUserMessage(user) });
+  },
+
+  purgeUser: async (
+    call: grpc.ServerUnaryCall<PurgeUserInput, PurgeUserResponse>,
+    callback: grpc.sendUnaryData<PurgeUserResponse>
+  ) => {
+    const success = await UserService.purgeUser(call.request.id);
+
+    callback(null, { success });
   },
 
   listUsers: async (
-    call: grpc.ServerUnaryCall<ListUsersRequest, ListUsersResponse>,
+    call: grpc.ServerUnaryCall<ListUsersRequest__Output, ListUsersResponse>,
     callback: grpc.sendUnaryData<ListUsersResponse>
   ) => {
-    try {
-      const { page = 1, pageSize = 10 } = call.request;
-      const result = await UserService.listUsers(page, pageSize);
+    const { page, pageSize, page_token, include_deleted } = call.request;
+
+    // Older clients page with offsets; they send a page number and no token
+    if (page > 0 && !page_token) {
+      const result = await UserService.listUsers(page, pageSize, include_deleted);
 
       callback(null, {
-        users: result.users,
+        users: result.users.map(toUserMessage),
         total: result.total,
       });
-    } catch (error) {
-      callback(null, {
-        users: [],
-        total: 0,
-        error: error instanceof Error ? error.message : 'Unknown error',
+      return;
+    }
+
+    const query = ListUsersQuerySchema.parse(call.request);
+    const result = await UserService.listUsersByCursor(query);
+
+    callback(null, {
+      users: result.users.map(toUserMessage),
+      total: result.total,
+      next_page_token: result.nextPageToken,
+    });
+  },
+
+  streamUsers: async (call: grpc.ServerWritableStream<StreamUsersRequest__Output, User>) => {
+    const query = StreamUsersQuerySchema.parse(call.request);
+
+    for await (const batch of UserService.streamUsers(query)) {
+      for (const user of batch) {
+        if (call.cancelled) return;
+
+        // Respect backpressure: wait for the client to drain before writing more
+        if (!call.write(toUserMessage(user))) await drainedOrCancelled(call);
+      }
+    }
+
+    call.end();
+  },
+
+  watchUsers: (call: grpc.ServerWritableStream<WatchUsersRequest__Output, UserEvent>) =>
+    new Promise<void>((resolve, reject) => {
+      log.debug('Watch stream opened', { resumed: !!call.request.resume_token });
+      let unsubscribe = () => {};
+      let closed = false;
+      const close = () => {
+        closed = true;
+        unsubscribe();
+      };
+
+      unsubscribe = UserService.watchUsers(
+        call.request.resume_token ?? '',
+        ({ type, user, occurredAt, resumeToken }) => {
+          if (closed) return;
+          call.write({ type, user: toUserMessage(user), occurredAt, resume_token: resumeToken });
+
+          // Events cannot wait for a slow client like StreamUsers pages do, so the stream is ended
+          // instead and the client resumes from the last resume_token it got
+          if (call.writableLength > MAX_WATCH_BUFFERED_EVENTS) {
+            log.warn('Watch stream ended, the client is not keeping up', { buffered: call.writableLength });
+            close();
+            reject(new ResourceExhaustedError('Watch stream fell behind, resume from the last resume_token'));
+          }
+        },
+        () => {
+          log.debug('Watch stream closed by the server');
+          call.end();
+          resolve();
+        }
+      );
+      if (closed) unsubscribe();
+
+      call.on('cancelled', () => {
+        log.debug('Watch stream cancelled by the client');
+        close();
+        resolve();
       });
+    }),
+
+  batchGetUsers: async (
+    call: grpc.ServerUnaryCall<BatchGetUsersInput, BatchGetUsersResponse>,
+    callback: grpc.sendUnaryData<BatchGetUsersResponse>
+  ) => {
+    const { ids } = call.request;
+    const results = await UserService.batchGetUsers(ids);
+
+    callback(null, {
+      results: results.map(({ id, user, error }) => ({
+        id,
+        user: user && toUserMessage(user),
+        status: toItemStatus(error),
+      })),
+    });
+  },
+
+  batchCreateUsers: async (
+    call: grpc.ServerUnaryCall<BatchCreateUsersInput, BatchCreateUsersResponse>,
+    callback: grpc.sendUnaryData<BatchCreateUsersResponse>
+  ) => {
+    const { users, atomic } = call.request;
+    const results = await UserService.batchCreateUsers(users, atomic);
+
+    callback(null, {
+      results: results.map(({ index, user, error }) => ({
+        index,
+        user: user && toUserMessage(user),
+        status: toItemStatus(error),
+      })),
+    });
+  },
+
+  uploadUsers: async (
+    call: grpc.ServerReadableStream<BatchCreateUsersRequest__Output, BatchCreateUsersResponse>,
+    callback: grpc.sendUnaryData<BatchCreateUsersResponse>
+  ) => {
+    const { maxBatchSize } = getConfig().pagination;
+    const users: CreateUserRequest__Output[] = [];
+    let atomic: boolean | undefined;
+
+    for await (const chunk of call as AsyncIterable<BatchCreateUsersRequest__Output>) {
+      // The first message decides the mode for the whole upload
+      atomic ??= chunk.atomic ?? false;
+      users.push(...chunk.users);
+
+      if (users.length > maxBatchSize) {
+        throw new ValidationError(`Upload exceeds the maximum batch size of ${maxBatchSize}`, [
+          { field: 'users', description: `At most ${maxBatchSize} users per upload` },
+        ]);
+      }
     }
+
+    const input = BatchCreateUsersSchema.parse({ users, atomic });
+    const results = await UserService.batchCreateUsers(input.users, input.atomic);
+
+    callback(null, {
+      results: results.map(({ index, user, error }) => ({
+        index,
+        user: user && toUserMessage(user),
+        status: toItemStatus(error),
+      })),
+    });
   },
-};
+
+  batchDeleteUsers: async (
+    call: grpc.ServerUnaryCall<BatchIdsInput, BatchDeleteUsersResponse>,
+    callback: grpc.sendUnaryData<BatchDeleteUsersResponse>
+  ) => {
+    const { ids, atomic } = call.request;
+    const results = await UserService.batchDeleteUsers(ids, atomic);
+
+    callback(null, {
+      results: results.map(({ id, error }) => ({ id, status: toItemStatus(error) })),
+    });
+  },
+
+  listAuditEvents: async (
+    call: grpc.ServerUnaryCall<ListAuditEventsRequest__Output, ListAuditEventsResponse>,
+    callback: grpc.sendUnaryData<ListAuditEventsResponse>
+  ) => {
+    const query = ListAuditEventsQuerySchema.parse(call.request);
+    const { events, nextPageToken } = await AuditService.listAuditEvents(query);
+
+    callback(null, {
+      events: events.map(({ userId, requestId, ...event }) => ({ ...event, user_id: userId, request_id: requestId })),
+      next_page_token: nextPageToken,
+    });
+  },
+
+  replayOutboxEvents: async (
+    call: grpc.ServerUnaryCall<ReplayOutboxEventsInput, ReplayOutboxEventsResponse>,
+    callback: grpc.sendUnaryData<ReplayOutboxEventsResponse>
+  ) => {
+    const replayed = await OutboxService.replayEvents(call.request.ids);
+
+    callback(null, { replayed });
+  },
+} satisfies UserServiceHandlers;
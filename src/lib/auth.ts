@@ -0,0 +1,225 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { getRequestContext } from '@/lib/context';
+import { PermissionDeniedError, UnauthenticatedError } from '@/lib/errors';
+import type { CallContext, ServerInterceptor } from '@/lib/interceptors';
+
+/**
+ * Scope granting every other scope
+ */
+export const ADMIN_SCOPE = 'admin';
+
+export interface Principal {
+  /** User id for JWTs, key name for API keys */
+  subject: string;
+  scopes: string[];
+  method: 'jwt' | 'apiKey';
+}
+
+/**
+ * Resolve the credentials of an `authorization` header into a principal.
+ * Returns null when the scheme is not handled, throws when the credentials are invalid.
+ */
+export type Authenticator = (scheme: string, credentials: string) => Principal | null;
+
+export interface MethodPolicy {
+  /** Let unauthenticated callers through */
+  public?: boolean;
+  /** Scopes the principal must all hold */
+  scopes?: string[];
+  /** Id of the user targeted by the request; the call is also allowed when it is the caller */
+  self?: (request: unknown) => string | undefined;
+}
+
+/**
+ * Policies keyed by `package.Service/Method`, or `package.Service/*` for a whole service
+ */
+export type AuthPolicies = Record<string, MethodPolicy>;
+
+export interface AuthOptions {
+  authenticators: Authenticator[];
+  policies: AuthPolicies;
+  /** Applied to methods without a policy; authenticated callers only by default */
+  defaultPolicy?: MethodPolicy;
+}
+
+// Maps, as the header values looked up are the client's: `constructor` or `__proto__` must not match
+const JWT_ALGORITHMS = new Map([
+  ['HS256', 'sha256'],
+  ['HS384', 'sha384'],
+  ['HS512', 'sha512'],
+]);
+
+function decodeSegment(segment: string): Record<string, unknown> {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new UnauthenticatedError('Malformed token');
+  }
+  if (typeof decoded !== 'object' || decoded === null || Array.isArray(decoded)) {
+    throw new UnauthenticatedError('Malformed token');
+  }
+
+  return decoded as Record<string, unknown>;
+}
+
+function readScopes(claims: Record<string, unknown>): string[] {
+  if (claims.scopes !== undefined) {
+    const { scopes } = claims;
+    if (!Array.isArray(scopes) || !scopes.every(scope => typeof scope === 'string')) {
+      throw new UnauthenticatedError('Invalid token scopes');
+    }
+    return scopes;
+  }
+  if (claims.scope === undefined) return [];
+  if (typeof claims.scope !== 'string') throw new UnauthenticatedError('Invalid token scopes');
+
+  return claims.scope.split(' ').filter(Boolean);
+}
+
+// Seconds since the epoch; a claim that is set must be a number, or the token would never expire
+function readTime(claims: Record<string, unknown>, name: 'exp' | 'nbf'): number | undefined {
+  const value = claims[name];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new UnauthenticatedError(`Invalid token ${name}`);
+
+  return value;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Verify HMAC-signed JWTs (HS256/384/512) against local keys indexed by `kid`.
+ * A key registered under `default` is used for tokens without `kid`.
+ */
+export function createJwtAuthenticator(options: {
+  keys: Record<string, string>;
+  issuer?: string;
+  audience?: string;
+}): Authenticator {
+  const keys = new Map(Object.entries(options.keys));
+
+  return (scheme, credentials) => {
+    if (scheme.toLowerCase() !== 'bearer') return null;
+
+    const [encodedHeader, encodedPayload, signature] = credentials.split('.');
+    if (!encodedHeader || !encodedPayload || !signature) throw new UnauthenticatedError('Malformed token');
+
+    const header = decodeSegment(encodedHeader);
+    const kid = header.kid ?? 'default';
+    const algorithm = typeof header.alg === 'string' ? JWT_ALGORITHMS.get(header.alg) : undefined;
+    const key = typeof kid === 'string' ? keys.get(kid) : undefined;
+    if (!algorithm || !key) throw new UnauthenticatedError('Unsupported token algorithm or key');
+
+    const expected = createHmac(algorithm, key).update(`${encodedHeader}.${encodedPayload}`).digest('base64url');
+    if (!safeEqual(expected, signature)) throw new UnauthenticatedError('Invalid token signature');
+
+    const claims = decodeSegment(encodedPayload);
+    const now = Math.floor(Date.now() / 1000);
+    const exp = readTime(claims, 'exp');
+    const nbf = readTime(claims, 'nbf');
+    if (exp !== undefined && exp <= now) throw new UnauthenticatedError('Token expired');
+    if (nbf !== undefined && nbf > now) throw new UnauthenticatedError('Token not yet valid');
+    if (options.issuer && claims.iss !== options.issuer) throw new UnauthenticatedError('Invalid token issuer');
+    if (options.audience && ![claims.aud].flat().includes(options.audience)) {
+      throw new UnauthenticatedError('Invalid token audience');
+    }
+    if (typeof claims.sub !== 'string' || !claims.sub) throw new UnauthenticatedError('Token has no subject');
+
+    return { subject: claims.sub, scopes: readScopes(claims), method: 'jwt' };
+  };
+}
+
+/**
+ * Accept static API keys sent as `authorization: ApiKey <key>`
+ */
+export function createApiKeyAuthenticator(
+  keys: Record<string, { subject: string; scopes: string[] }>
+): Authenticator {
+  const entries = Object.entries(keys);
+
+  return (scheme, credentials) => {
+    if (scheme.toLowerCase() !== 'apikey') return null;
+
+    const match = entries.find(([key]) => safeEqual(key, credentials));
+    if (!match) throw new UnauthenticatedError('Invalid API key');
+
+    return { subject: match[1].subject, scopes: match[1].scopes, method: 'apiKey' };
+  };
+}
+
+/**
+ * The `id` of a request, for the `self` policy of methods targeting one user
+ */
+export function requestId(request: unknown): string | undefined {
+  if (typeof request !== 'object' || request === null || !('id' in request)) return undefined;
+
+  return typeof request.id === 'string' ? request.id : undefined;
+}
+
+/**
+ * Principal attached to the call by the auth interceptor, if any
+ */
+export function getPrincipal(ctx: CallContext | undefined): Principal | undefined {
+  return ctx?.state.principal as Principal | undefined;
+}
+
+function authenticate(ctx: CallContext, authenticators: Authenticator[]): Principal | undefined {
+  const [header] = ctx.metadata.get('authorization');
+  if (!header) return undefined;
+
+  const [scheme = '', ...rest] = header.toString().trim().split(/\s+/);
+  const credentials = rest.join(' ');
+  for (const authenticator of authenticators) {
+    const principal = authenticator(scheme, credentials);
+    if (principal) return principal;
+  }
+
+  throw new UnauthenticatedError(`Unsupported authorization scheme: ${scheme}`);
+}
+
+function findPolicy(ctx: CallContext, options: AuthOptions): MethodPolicy {
+  return (
+    options.policies[`${ctx.service}/${ctx.method}`] ??
+    options.policies[`${ctx.service}/*`] ??
+    options.defaultPolicy ??
+    {}
+  );
+}
+
+function isAllowed(principal: Principal, policy: MethodPolicy, request: unknown): boolean {
+  const required = policy.scopes ?? [];
+  if (principal.scopes.includes(ADMIN_SCOPE)) return true;
+  if (required.every(scope => principal.scopes.includes(scope))) return true;
+
+  return !!policy.self && request !== undefined && policy.self(request) === principal.subject;
+}
+
+/**
+ * Authenticate the caller from the `authorization` metadata and enforce the method policy
+ * before the handler runs. The principal is stored in `ctx.state.principal`, and its subject
+ * replaces any actor claimed in the metadata.
+ */
+export function createAuthInterceptor(options: AuthOptions): ServerInterceptor {
+  return async (ctx, next) => {
+    const policy = findPolicy(ctx, options);
+    const principal = authenticate(ctx, options.authenticators);
+    if (principal) ctx.state.principal = principal;
+
+    const context = getRequestContext();
+    if (context) context.actor = principal?.subject;
+
+    if (!policy.public) {
+      if (!principal) throw new UnauthenticatedError('Missing authorization metadata');
+      if (!isAllowed(principal, policy, ctx.request)) {
+        throw new PermissionDeniedError(`${principal.subject} is not allowed to call ${ctx.method}`);
+      }
+    }
+
+    return next();
+  };
+}
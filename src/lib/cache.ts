@@ -0,0 +1,155 @@
+import { Counter } from 'prom-client';
+import { logger } from '@/lib/logger';
+import { registry } from '@/lib/metrics';
+
+/**
+ * Where cached values are kept, in the process or in an external store such as Redis. Values are
+ * never undefined; `null` records that nothing was found. External stores must give values back
+ * as they were set, Dates included.
+ */
+export interface CacheStore {
+  /** Resolves undefined when the key is missing or has expired */
+  get(key: string): Promise<unknown>;
+  set(key: string, value: unknown, ttlMs: number): Promise<void>;
+  delete(keys: string[]): Promise<void>;
+  /** Delete every key starting with `prefix` */
+  deletePrefix(prefix: string): Promise<void>;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+export interface ReadThroughCacheOptions {
+  /** Label of the cache in metrics and logs */
+  name: string;
+  store: CacheStore;
+  /** How long found values are kept, unless `get` is given another TTL */
+  ttlMs: number;
+  /** How long "not found" is kept; 0 disables negative caching */
+  negativeTtlMs: number;
+}
+
+export interface ReadThroughCache {
+  /** The cached value, or the one `load` resolves (null for not found), which is then cached */
+  get<T>(key: string, load: () => Promise<T>, ttlMs?: number): Promise<T>;
+  invalidate(keys: string[]): Promise<void>;
+  invalidatePrefix(prefix: string): Promise<void>;
+  stats(): CacheStats;
+}
+
+interface LruEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+const log = logger.child({ component: 'cache' });
+
+const requests = new Counter({
+  name: 'cache_requests_total',
+  help: 'Cache lookups, by cache and outcome: hit or miss',
+  labelNames: ['cache', 'outcome'],
+  registers: [registry],
+});
+
+/**
+ * Keeps at most `maxEntries` values in the process, dropping the least recently used first
+ */
+export function createLruCacheStore(options: { maxEntries: number }): CacheStore {
+  const entries = new Map<string, LruEntry>();
+
+  return {
+    get: async key => {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+
+      entries.delete(key);
+      if (entry.expiresAt <= Date.now()) return undefined;
+
+      // Re-inserted so that the map stays ordered by last use
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set: async (key, value, ttlMs) => {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+      if (entries.size > options.maxEntries) entries.delete(entries.keys().next().value!);
+    },
+    delete: async keys => {
+      keys.forEach(key => entries.delete(key));
+    },
+    deletePrefix: async prefix => {
+      for (const key of entries.keys()) {
+        if (key.startsWith(prefix)) entries.delete(key);
+      }
+    },
+  };
+}
+
+/**
+ * Serve values from the store, loading and storing them on a miss. Concurrent misses of a key
+ * share one load, and a load overtaken by an invalidation is returned but not stored, so that a
+ * stale value never outlives the write. The store failing only costs a load: lookups fall back to
+ * it, and failed writes are logged.
+ */
+export function createReadThroughCache(options: ReadThroughCacheOptions): ReadThroughCache {
+  const { name, store } = options;
+  const loading = new Map<string, Promise<unknown>>();
+  const stats: CacheStats = { hits: 0, misses: 0 };
+  // Bumped by every invalidation, telling loads started before it not to store their value
+  let generation = 0;
+
+  const lookup = async (key: string): Promise<unknown> => {
+    try {
+      return await store.get(key);
+    } catch (error) {
+      log.warn('Cache lookup failed', { cache: name, error });
+      return undefined;
+    }
+  };
+
+  const load = async (key: string, loader: () => Promise<unknown>, ttlMs: number): Promise<unknown> => {
+    const started = generation;
+    const value = await loader();
+    const keepMs = value === null ? options.negativeTtlMs : ttlMs;
+
+    if (started === generation && keepMs > 0) {
+      await store.set(key, value, keepMs).catch(error => log.warn('Cache write failed', { cache: name, error }));
+    }
+    return value;
+  };
+
+  const invalidated = async (deletion: Promise<void>) => {
+    generation += 1;
+    loading.clear();
+    // The write succeeded either way; a value left behind expires with its TTL
+    await deletion.catch(error => log.error('Cache invalidation failed', { cache: name, error }));
+  };
+
+  return {
+    get: async <T>(key: string, loader: () => Promise<T>, ttlMs = options.ttlMs): Promise<T> => {
+      const cached = await lookup(key);
+      if (cached !== undefined) {
+        stats.hits += 1;
+        requests.inc({ cache: name, outcome: 'hit' });
+        return cached as T;
+      }
+
+      stats.misses += 1;
+      requests.inc({ cache: name, outcome: 'miss' });
+
+      let pending = loading.get(key);
+      if (!pending) {
+        pending = load(key, loader, ttlMs).finally(() => {
+          if (loading.get(key) === pending) loading.delete(key);
+        });
+        loading.set(key, pending);
+      }
+      return pending as Promise<T>;
+    },
+    invalidate: keys => invalidated(Promise.resolve().then(() => store.delete(keys))),
+    invalidatePrefix: prefix => invalidated(Promise.resolve().then(() => store.deletePrefix(prefix))),
+    stats: () => ({ ...stats }),
+  };
+}
@@ -0,0 +1,300 @@
+import * as grpc from '@grpc/grpc-js';
+import path from 'path';
+import { getRequestContext, REQUEST_ID_METADATA_KEY } from '@/lib/context';
+import { fromServiceError, getRetryAfterMs } from '@/lib/errors';
+import { findServiceDefinition, loadProtoFile } from '@/lib/grpc';
+import { IDEMPOTENCY_KEY_METADATA_KEY } from '@/lib/idempotency';
+import { injectTraceContext } from '@/lib/tracing';
+
+export const DEFAULT_DEADLINE_MS = 10000;
+
+export interface RetryPolicy {
+  /** Attempts including the first one */
+  maxAttempts: number;
+  initialBackoffMs: number;
+  maxBackoffMs: number;
+  /** Status codes worth another attempt */
+  retryableCodes: grpc.status[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  initialBackoffMs: 100,
+  maxBackoffMs: 2000,
+  retryableCodes: [grpc.status.UNAVAILABLE],
+};
+
+export interface ClientOptions {
+  /** Insecure when omitted */
+  credentials?: grpc.ChannelCredentials;
+  /** Deadline of unary and client-streaming calls (default: 10s) */
+  deadlineMs?: number;
+  /** Retry policy of idempotent methods, `false` to disable retries */
+  retry?: Partial<RetryPolicy> | false;
+  /** Metadata sent with every call, e.g. `authorization` */
+  metadata?: Record<string, string>;
+  channelOptions?: grpc.ChannelOptions;
+}
+
+export interface CallOptions {
+  /** Overrides the client deadline; server streams have no deadline unless set */
+  deadlineMs?: number;
+  metadata?: Record<string, string>;
+  /** Sent as `idempotency-key` metadata, which also lets writes be retried like idempotent methods */
+  idempotencyKey?: string;
+  /** Cancels the call; an aborted server stream simply ends */
+  signal?: AbortSignal;
+}
+
+interface PooledChannel {
+  channel: grpc.Channel;
+  clients: number;
+}
+
+const insecureCredentials = grpc.credentials.createInsecure();
+const credentialIds = new WeakMap<grpc.ChannelCredentials, number>();
+let nextCredentialId = 1;
+const channels = new Map<string, PooledChannel>();
+const serviceDefinitions = new Map<string, grpc.ServiceDefinition>();
+
+function channelKey(address: string, credentials: grpc.ChannelCredentials, options: grpc.ChannelOptions): string {
+  if (!credentialIds.has(credentials)) credentialIds.set(credentials, nextCredentialId++);
+  return `${address}|${credentialIds.get(credentials)}|${JSON.stringify(options)}`;
+}
+
+/**
+ * Share one channel between every client of the same address, credentials and options
+ */
+function acquireChannel(
+  address: string,
+  credentials: grpc.ChannelCredentials,
+  options: grpc.ChannelOptions
+): { channel: grpc.Channel; release: () => void } {
+  const key = channelKey(address, credentials, options);
+  const pooled = channels.get(key) ?? { channel: new grpc.Channel(address, credentials, options), clients: 0 };
+  pooled.clients += 1;
+  channels.set(key, pooled);
+
+  let released = false;
+  return {
+    channel: pooled.channel,
+    release: () => {
+      if (released) return;
+      released = true;
+      pooled.clients -= 1;
+      if (pooled.clients === 0) {
+        channels.delete(key);
+        pooled.channel.close();
+      }
+    },
+  };
+}
+
+function loadServiceDefinition(protoPath: string, serviceName: string): grpc.ServiceDefinition {
+  const key = `${protoPath}|${serviceName}`;
+  const cached = serviceDefinitions.get(key);
+  if (cached) return cached;
+
+  const proto = loadProtoFile(path.resolve(__dirname, '../../proto', protoPath));
+  const service = findServiceDefinition(proto, serviceName);
+  if (!service) throw new Error(`Service ${serviceName} not found in ${protoPath}`);
+
+  serviceDefinitions.set(key, service);
+  return service;
+}
+
+function isServiceError(error: unknown): error is grpc.ServiceError {
+  return error instanceof Error && typeof (error as grpc.ServiceError).code === 'number';
+}
+
+function toClientError(error: unknown): unknown {
+  return isServiceError(error) ? fromServiceError(error) : error;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Promise-based calls to one service over a pooled channel, with deadlines, retries of
+ * idempotent methods and gRPC statuses rethrown as domain errors
+ */
+export class RpcClient {
+  private client: grpc.Client;
+  private service: grpc.ServiceDefinition;
+  private release: () => void;
+  private deadlineMs: number;
+  private retry: RetryPolicy | null;
+  private metadata: Record<string, string>;
+
+  constructor(address: string, protoPath: string, serviceName: string, options: ClientOptions = {}) {
+    const credentials = options.credentials ?? insecureCredentials;
+    const { channel, release } = acquireChannel(address, credentials, options.channelOptions ?? {});
+
+    this.client = new grpc.Client(address, credentials, { channelOverride: channel });
+    this.service = loadServiceDefinition(protoPath, serviceName);
+    this.release = release;
+    this.deadlineMs = options.deadlineMs ?? DEFAULT_DEADLINE_MS;
+    this.retry = options.retry === false ? null : { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    this.metadata = options.metadata ?? {};
+  }
+
+  /**
+   * Unary call; `idempotent` calls are retried on the policy's status codes until the deadline
+   */
+  async unary<Req, Res>(method: string, request: Req, options: CallOptions = {}, idempotent = false): Promise<Res> {
+    const deadline = Date.now() + (options.deadlineMs ?? this.deadlineMs);
+    const retried = idempotent || options.idempotencyKey !== undefined;
+    const maxAttempts = retried && this.retry ? this.retry.maxAttempts : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.unaryAttempt<Req, Res>(method, request, options, deadline);
+      } catch (error) {
+        // A server asking for more time (RESOURCE_EXHAUSTED, when retryable) is given it
+        const retryAfterMs = isServiceError(error) && error.metadata ? getRetryAfterMs(error.metadata) : undefined;
+        const backoff = Math.max(this.backoff(attempt), retryAfterMs ?? 0);
+        const retryable =
+          attempt < maxAttempts &&
+          isServiceError(error) &&
+          this.retry!.retryableCodes.includes(error.code) &&
+          Date.now() + backoff < deadline &&
+          !options.signal?.aborted;
+        if (!retryable) throw toClientError(error);
+
+        await sleep(backoff);
+      }
+    }
+  }
+
+  /**
+   * Server-streaming call as an async iterator; leaving the loop early cancels the call
+   */
+  async *serverStream<Req, Res>(method: string, request: Req, options: CallOptions = {}): AsyncGenerator<Res> {
+    const definition = this.method(method);
+    const call = this.client.makeServerStreamRequest<Req, unknown>(
+      definition.path,
+      definition.requestSerialize,
+      definition.responseDeserialize,
+      request,
+      this.buildMetadata(options),
+      options.deadlineMs !== undefined ? { deadline: Date.now() + options.deadlineMs } : {}
+    );
+    const cancel = () => call.cancel();
+    options.signal?.addEventListener('abort', cancel);
+
+    try {
+      for await (const message of call) {
+        yield message as Res;
+      }
+    } catch (error) {
+      if (options.signal?.aborted) return;
+      throw toClientError(error);
+    } finally {
+      options.signal?.removeEventListener('abort', cancel);
+      call.cancel();
+    }
+  }
+
+  /**
+   * Client-streaming call writing every request with backpressure, then resolving with the response
+   */
+  clientStream<Req, Res>(
+    method: string,
+    requests: AsyncIterable<Req> | Iterable<Req>,
+    options: CallOptions = {}
+  ): Promise<Res> {
+    const definition = this.method(method);
+
+    return new Promise<Res>((resolve, reject) => {
+      let settled = false;
+      let onSettled = () => {};
+      const settledPromise = new Promise<void>(resolveSettled => (onSettled = resolveSettled));
+      const settle = (error: unknown, response?: unknown) => {
+        if (settled) return;
+        settled = true;
+        onSettled();
+        options.signal?.removeEventListener('abort', cancel);
+        if (error) reject(toClientError(error));
+        else resolve(response as Res);
+      };
+
+      const call = this.client.makeClientStreamRequest<Req, unknown>(
+        definition.path,
+        definition.requestSerialize,
+        definition.responseDeserialize,
+        this.buildMetadata(options),
+        { deadline: Date.now() + (options.deadlineMs ?? this.deadlineMs) },
+        (error, response) => settle(error, response)
+      );
+      const cancel = () => call.cancel();
+      options.signal?.addEventListener('abort', cancel);
+
+      (async () => {
+        for await (const request of requests) {
+          if (settled) return;
+          if (!call.write(request)) {
+            await Promise.race([new Promise(resolveDrain => call.once('drain', resolveDrain)), settledPromise]);
+          }
+        }
+        call.end();
+      })().catch(error => {
+        call.cancel();
+        settle(error);
+      });
+    });
+  }
+
+  /**
+   * Release the channel, closed once no other client uses it
+   */
+  close(): void {
+    this.release();
+  }
+
+  private unaryAttempt<Req, Res>(method: string, request: Req, options: CallOptions, deadline: number): Promise<Res> {
+    const definition = this.method(method);
+
+    return new Promise<Res>((resolve, reject) => {
+      const call = this.client.makeUnaryRequest<Req, unknown>(
+        definition.path,
+        definition.requestSerialize,
+        definition.responseDeserialize,
+        request,
+        this.buildMetadata(options),
+        { deadline },
+        (error, response) => {
+          options.signal?.removeEventListener('abort', cancel);
+          if (error) reject(error);
+          else resolve(response as Res);
+        }
+      );
+      const cancel = () => call.cancel();
+      options.signal?.addEventListener('abort', cancel);
+    });
+  }
+
+  private method(name: string): grpc.MethodDefinition<unknown, unknown> {
+    const definition: grpc.MethodDefinition<unknown, unknown> | undefined = this.service[name];
+    if (!definition) throw new Error(`Unknown method ${name}`);
+    return definition;
+  }
+
+  private buildMetadata(options: CallOptions): grpc.Metadata {
+    const metadata = new grpc.Metadata();
+    // Calls made while handling a request carry its ID downstream unless one is set explicitly
+    const requestId = getRequestContext()?.requestId;
+    if (requestId) metadata.set(REQUEST_ID_METADATA_KEY, requestId);
+    injectTraceContext(metadata);
+    Object.entries({ ...this.metadata, ...options.metadata }).forEach(([key, value]) => metadata.set(key, value));
+    if (options.idempotencyKey !== undefined) metadata.set(IDEMPOTENCY_KEY_METADATA_KEY, options.idempotencyKey);
+    return metadata;
+  }
+
+  // Exponential backoff with jitter between half and the full delay
+  private backoff(attempt: number): number {
+    const policy = this.retry ?? DEFAULT_RETRY_POLICY;
+    const delay = Math.min(policy.maxBackoffMs, policy.initialBackoffMs * 2 ** (attempt - 1));
+    return delay / 2 + (Math.random() * delay) / 2;
+  }
+}
@@ -0,0 +1,299 @@
+import path from 'path';
+import * as protobuf from 'protobufjs';
+import { PROTO_LOADER_OPTIONS } from '@/lib/grpc';
+
+const INT_TYPES = new Set(['int32', 'uint32', 'sint32', 'fixed32', 'sfixed32']);
+const LONG_TYPES = new Set(['int64', 'uint64', 'sint64', 'fixed64', 'sfixed64']);
+const FLOAT_TYPES = new Set(['double', 'float']);
+
+interface TypeRef {
+  /** TypeScript type accepted when sending */
+  input: string;
+  /** Zod schema of the value as received */
+  schema: string;
+}
+
+function isIdentifier(name: string): boolean {
+  return /^[A-Za-z_$][\w$]*$/.test(name);
+}
+
+function propertyName(name: string): string {
+  return isIdentifier(name) ? name : `'${name}'`;
+}
+
+function docComment(lines: string[], indent: string): string[] {
+  if (lines.length === 0) return [];
+  if (lines.length === 1) return [`${indent}/** ${lines[0]} */`];
+  return [`${indent}/**`, ...lines.map(line => `${indent} * ${line}`.trimEnd()), `${indent} */`];
+}
+
+function commentLines(object: protobuf.ReflectionObject): string[] {
+  const lines = object.comment ? object.comment.split('\n') : [];
+  if (object.options?.deprecated) lines.push('@deprecated');
+  return lines;
+}
+
+/**
+ * Generates the TypeScript module of one proto file
+ */
+class ProtoModuleGenerator {
+  private imports = new Map<string, Set<string>>();
+  private lines: string[] = [];
+
+  constructor(
+    private root: protobuf.Root,
+    private protoFile: string
+  ) {}
+
+  generate(displayPath: string): string {
+    const enums: protobuf.Enum[] = [];
+    const types: protobuf.Type[] = [];
+    const services: protobuf.Service[] = [];
+    this.collect(this.root, enums, types, services);
+
+    enums.forEach(enumType => this.emitEnum(enumType));
+    this.sortByDependencies([...types, ...this.bundledTypes(types)]).forEach(type => this.emitMessage(type));
+    services.forEach(service => this.emitService(service));
+
+    const header = [`// Code generated by \`npm run codegen\` from ${displayPath}. DO NOT EDIT.`];
+    if (services.length > 0) header.push(`import type * as grpc from '@grpc/grpc-js';`);
+    if (enums.length > 0 || types.length > 0) header.push(`import { z } from 'zod';`);
+    [...this.imports.entries()]
+      .sort(([left], [right]) => left.localeCompare(right))
+      .forEach(([module, names]) => header.push(`import { ${[...names].sort().join(', ')} } from '${module}';`));
+
+    return [...header, ...this.lines].join('\n') + '\n';
+  }
+
+  private collect(
+    namespace: protobuf.NamespaceBase,
+    enums: protobuf.Enum[],
+    types: protobuf.Type[],
+    services: protobuf.Service[]
+  ): void {
+    for (const nested of namespace.nestedArray) {
+      const local = nested.filename === this.protoFile;
+      if (nested instanceof protobuf.Enum) {
+        if (local) enums.push(nested);
+      } else if (nested instanceof protobuf.Service) {
+        if (local) services.push(nested);
+      } else if (nested instanceof protobuf.Type) {
+        if (local) types.push(nested);
+        this.collect(nested, enums, types, services);
+      } else if (nested instanceof protobuf.Namespace) {
+        this.collect(nested, enums, types, services);
+      }
+    }
+  }
+
+  /**
+   * Well-known types bundled with protobufjs (e.g. google.protobuf.FieldMask) that the messages
+   * reference; they come from no proto file of ours, so each module declares its own copy
+   */
+  private bundledTypes(types: protobuf.Type[]): protobuf.Type[] {
+    const bundled: protobuf.Type[] = [];
+
+    const visit = (type: protobuf.Type) => {
+      type.fieldsArray.forEach(field => {
+        const resolved = field.resolvedType;
+        if (resolved instanceof protobuf.Type && !resolved.filename && !bundled.includes(resolved)) {
+          bundled.push(resolved);
+          visit(resolved);
+        }
+      });
+    };
+
+    types.forEach(visit);
+    return bundled;
+  }
+
+  /**
+   * Order messages so that every schema is declared after the schemas it references
+   */
+  private sortByDependencies(types: protobuf.Type[]): protobuf.Type[] {
+    const sorted: protobuf.Type[] = [];
+    const state = new Map<protobuf.Type, 'visiting' | 'done'>();
+
+    const visit = (type: protobuf.Type) => {
+      if (state.get(type) === 'done') return;
+      if (state.get(type) === 'visiting') {
+        throw new Error(`Recursive message ${type.fullName.slice(1)} is not supported`);
+      }
+
+      state.set(type, 'visiting');
+      type.fieldsArray.forEach(field => {
+        if (field.resolvedType instanceof protobuf.Type && types.includes(field.resolvedType)) {
+          visit(field.resolvedType);
+        }
+      });
+      state.set(type, 'done');
+      sorted.push(type);
+    };
+
+    types.forEach(visit);
+    return sorted;
+  }
+
+  /**
+   * Name of a type in the generated module: its path below the package joined by `_`
+   */
+  private typeName(object: protobuf.ReflectionObject): string {
+    const names: string[] = [];
+    for (let current: protobuf.ReflectionObject | null = object; current; current = current.parent) {
+      if (!(current instanceof protobuf.Type) && !(current instanceof protobuf.Enum)) break;
+      names.unshift(current.name);
+    }
+
+    return names.join('_');
+  }
+
+  /**
+   * Reference a generated declaration, importing it when it comes from another proto file
+   */
+  private reference(object: protobuf.ReflectionObject, suffix = ''): string {
+    const name = `${this.typeName(object)}${suffix}`;
+    if (object.filename && object.filename !== this.protoFile) {
+      const module = `./${path.basename(object.filename, '.proto')}`;
+      const names = this.imports.get(module) ?? new Set<string>();
+      names.add(name);
+      this.imports.set(module, names);
+    }
+
+    return name;
+  }
+
+  private scalar(type: string): TypeRef {
+    if (INT_TYPES.has(type)) return { input: 'number', schema: 'z.number().int()' };
+    if (FLOAT_TYPES.has(type)) return { input: 'number', schema: 'z.number()' };
+    if (LONG_TYPES.has(type)) {
+      return PROTO_LOADER_OPTIONS.longs === String
+        ? { input: 'number | string', schema: 'z.string()' }
+        : { input: 'number | string', schema: 'z.number()' };
+    }
+    if (type === 'bool') return { input: 'boolean', schema: 'z.boolean()' };
+    if (type === 'string') return { input: 'string', schema: 'z.string()' };
+    if (type === 'bytes') return { input: 'Buffer | Uint8Array | string', schema: 'z.instanceof(Buffer)' };
+
+    throw new Error(`Unsupported field type ${type}`);
+  }
+
+  private fieldType(field: protobuf.Field): TypeRef {
+    const resolved = field.resolvedType;
+    let value: TypeRef;
+
+    if (resolved instanceof protobuf.Enum) {
+      const name = this.reference(resolved);
+      value =
+        PROTO_LOADER_OPTIONS.enums === String
+          ? { input: `${name} | number`, schema: this.reference(resolved, 'Schema') }
+          : { input: `${name} | number`, schema: 'z.number().int()' };
+    } else if (resolved instanceof protobuf.Type) {
+      const schema = this.reference(resolved, 'Schema');
+      value = {
+        input: `${this.reference(resolved)} | null`,
+        schema: field.repeated || field.map ? schema : `${schema}.nullable()`,
+      };
+    } else {
+      value = this.scalar(field.type);
+    }
+
+    // map values and list elements are never null
+    const element = value.input.replace(' | null', '');
+    if (field.map) {
+      return { input: `Record<string, ${element}>`, schema: `z.record(z.string(), ${value.schema})` };
+    }
+    if (field.repeated) {
+      return {
+        input: element.includes('|') ? `(${element})[]` : `${element}[]`,
+        schema: `z.array(${value.schema})`,
+      };
+    }
+
+    return value;
+  }
+
+  private emitEnum(enumType: protobuf.Enum): void {
+    const name = this.typeName(enumType);
+    const values = Object.keys(enumType.values).map(value => `'${value}'`);
+
+    this.lines.push('', ...docComment(commentLines(enumType), ''));
+    this.lines.push(`export const ${name}Schema = z.enum([${values.join(', ')}]);`);
+    this.lines.push(`export type ${name} = z.infer<typeof ${name}Schema>;`);
+  }
+
+  private emitMessage(type: protobuf.Type): void {
+    const name = this.typeName(type);
+    const fields = type.fieldsArray.map(field => ({ field, ref: this.fieldType(field) }));
+
+    this.lines.push('', ...docComment([...commentLines(type), `\`${type.fullName.slice(1)}\` as sent`], ''));
+    if (fields.length === 0) {
+      this.lines.push(`export interface ${name} {}`);
+    } else {
+      this.lines.push(`export interface ${name} {`);
+      fields.forEach(({ field, ref }) => {
+        this.lines.push(...docComment(commentLines(field), '  '));
+        this.lines.push(`  ${propertyName(field.name)}?: ${ref.input};`);
+      });
+      this.lines.push('}');
+    }
+
+    // unset fields are defaulted on receipt, except members of a oneof
+    this.lines.push('', `/** \`${type.fullName.slice(1)}\` as received */`);
+    const shape = fields.map(({ field, ref }) => {
+      const optional = !PROTO_LOADER_OPTIONS.defaults || field.partOf !== null;
+      return `  ${propertyName(field.name)}: ${ref.schema}${optional ? '.optional()' : ''},`;
+    });
+    if (PROTO_LOADER_OPTIONS.oneofs) {
+      // the oneof itself is set to the name of its populated member
+      type.oneofsArray.forEach(oneof => {
+        const members = oneof.oneof.map(member => `'${member}'`).join(', ');
+        shape.push(`  ${propertyName(oneof.name)}: z.enum([${members}]).optional(),`);
+      });
+    }
+    this.lines.push(
+      ...(shape.length === 0
+        ? [`export const ${name}Schema = z.object({});`]
+        : [`export const ${name}Schema = z.object({`, ...shape, '});'])
+    );
+    this.lines.push(`export type ${name}__Output = z.infer<typeof ${name}Schema>;`);
+  }
+
+  private emitService(service: protobuf.Service): void {
+    const name = this.typeName(service) || service.name;
+
+    this.lines.push('', ...docComment([...commentLines(service), `Handlers of \`${service.fullName.slice(1)}\``], ''));
+    this.lines.push(`export interface ${name}Handlers {`);
+    service.methodsArray.forEach(method => {
+      method.resolve();
+      const request = `${this.reference(method.resolvedRequestType!)}__Output`;
+      const response = this.reference(method.resolvedResponseType!);
+      const kind = method.requestStream
+        ? method.responseStream
+          ? 'handleBidiStreamingCall'
+          : 'handleClientStreamingCall'
+        : method.responseStream
+          ? 'handleServerStreamingCall'
+          : 'handleUnaryCall';
+      const handlerName = method.name.charAt(0).toLowerCase() + method.name.slice(1);
+
+      this.lines.push(...docComment(commentLines(method), '  '));
+      this.lines.push(`  ${handlerName}: grpc.${kind}<${request}, ${response}>;`);
+    });
+    this.lines.push('}');
+  }
+}
+
+/**
+ * Generate request/response types, Zod schemas of received messages and service handler
+ * signatures for one proto file, following PROTO_LOADER_OPTIONS
+ */
+export function generateProtoModule(protoPath: string, displayPath = path.basename(protoPath)): string {
+  const protoFile = path.resolve(protoPath);
+  const root = new protobuf.Root().loadSync(protoFile, {
+    keepCase: PROTO_LOADER_OPTIONS.keepCase,
+    alternateCommentMode: true,
+  });
+  root.resolveAll();
+
+  return new ProtoModuleGenerator(root, protoFile).generate(displayPath);
+}
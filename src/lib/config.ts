@@ -0,0 +1,468 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { z } from 'zod';
+
+// Env vars and CLI flags are strings; these accept them as well as typed values from files
+const number = (schema: z.ZodNumber = z.number()) =>
+  z.preprocess(value => (typeof value === 'string' && value.trim() !== '' ? Number(value) : value), schema);
+
+const integer = (schema: z.ZodNumber = z.number()) => number(schema.int());
+
+const boolean = () =>
+  z.preprocess(value => {
+    if (value === 'true' || value === '1') return true;
+    if (value === 'false' || value === '0') return false;
+    return value;
+  }, z.boolean());
+
+const json = <T extends z.ZodType>(schema: T) =>
+  z.preprocess(value => {
+    if (typeof value !== 'string') return value;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }, schema);
+
+const TlsConfigSchema = z.strictObject({
+  certFile: z.string().min(1),
+  keyFile: z.string().min(1),
+  caFile: z.string().min(1).optional(),
+  requireClientCert: boolean().default(false),
+  reloadIntervalMs: integer(z.number().positive()).optional(),
+});
+
+export const ConfigSchema = z.strictObject({
+  server: z
+    .strictObject({
+      address: z.string().min(1).default('0.0.0.0:50051'),
+      /** Largest message received or sent */
+      maxMessageBytes: integer(z.number().positive()).default(4 * 1024 * 1024),
+      keepalive: z
+        .strictObject({
+          /** Interval of the pings sent to idle clients */
+          timeMs: integer(z.number().positive()).default(2 * 60 * 60 * 1000),
+          /** How long a ping may go unanswered before the connection is closed */
+          timeoutMs: integer(z.number().positive()).default(20000),
+          permitWithoutCalls: boolean().default(false),
+        })
+        .prefault({}),
+      tls: TlsConfigSchema.optional(),
+    })
+    .prefault({}),
+  limits: z
+    .strictObject({
+      /** Token buckets by `package.Service/Method`, `package.Service/*` or `*` */
+      rateLimits: json(
+        z.record(
+          z.string().min(1),
+          z.strictObject({
+            ratePerSecond: number(z.number().positive()),
+            burst: integer(z.number().positive()).optional(),
+            key: z
+              .union([z.enum(['principal', 'peer']), z.templateLiteral(['metadata:', z.string().min(1)])])
+              .default('principal'),
+          })
+        )
+      ).default({}),
+      /** Unary and client-streaming calls handled at once; unlimited when unset */
+      maxConcurrentCalls: integer(z.number().positive()).optional(),
+      /** Calls waiting for a slot before further ones are shed */
+      maxQueuedCalls: integer(z.number().min(0)).default(100),
+      queueTimeoutMs: integer(z.number().positive()).default(5000),
+      /** Methods the concurrency limit does not apply to */
+      concurrencyExempt: json(z.array(z.string().min(1))).default([
+        'grpc.health.v1.Health/*',
+        'infra.InfraService/HealthCheck',
+      ]),
+      /** Failed authentications a peer address may make per second, after a burst of `authFailureBurst` */
+      authFailureRatePerSecond: number(z.number().positive()).default(1),
+      authFailureBurst: integer(z.number().positive()).default(10),
+    })
+    .prefault({}),
+  database: z
+    .strictObject({
+      /** Overrides the datasource URL of prisma/schema.prisma */
+      url: z.string().min(1).optional(),
+      connectionCheckIntervalMs: integer(z.number().positive()).default(60 * 60 * 1000),
+    })
+    .prefault({}),
+  pagination: z
+    .strictObject({
+      defaultPageSize: integer(z.number().positive()).default(10),
+      maxPageSize: integer(z.number().positive()).default(100),
+      defaultStreamBatchSize: integer(z.number().positive()).default(100),
+      maxStreamBatchSize: integer(z.number().positive()).default(1000),
+      /** Items per batch call or upload */
+      maxBatchSize: integer(z.number().positive()).default(500),
+    })
+    .prefault({})
+    .refine(limits => limits.defaultPageSize <= limits.maxPageSize, {
+      message: 'defaultPageSize must not exceed maxPageSize',
+      path: ['defaultPageSize'],
+    })
+    .refine(limits => limits.defaultStreamBatchSize <= limits.maxStreamBatchSize, {
+      message: 'defaultStreamBatchSize must not exceed maxStreamBatchSize',
+      path: ['defaultStreamBatchSize'],
+    }),
+  health: z
+    .strictObject({
+      checkIntervalMs: integer(z.number().positive()).default(30000),
+      /** How long probe results are reused before the probes run again */
+      cacheTtlMs: integer(z.number().min(0)).default(5000),
+      /** Time a probe may take before it counts as failed */
+      probeTimeoutMs: integer(z.number().positive()).default(2000),
+      /** Filesystem whose free space is probed */
+      diskPath: z.string().min(1).default('.'),
+      minFreeDiskBytes: integer(z.number().min(0)).default(100 * 1024 * 1024),
+      maxEventLoopLagMs: integer(z.number().positive()).default(1000),
+      /** Fraction of the V8 heap limit in use beyond which the process is no longer live */
+      maxHeapUsedRatio: number(z.number().positive().max(1)).default(0.95),
+      /** Downstream gRPC servers probed through grpc.health.v1 */
+      dependencies: json(
+        z.array(
+          z.strictObject({
+            name: z.string().min(1),
+            address: z.string().min(1),
+            service: z.string().default(''),
+            /** Whether readiness depends on it */
+            critical: boolean().default(false),
+          })
+        )
+      ).default([]),
+      /** Checks recorded by the poller, queried through GetHealthHistory */
+      history: z
+        .strictObject({
+          retentionDays: integer(z.number().positive()).default(30),
+          pruneIntervalMs: integer(z.number().positive()).default(60 * 60 * 1000),
+        })
+        .prefault({}),
+    })
+    .prefault({}),
+  audit: z
+    .strictObject({
+      /** How emails are stored in the audit log: as is, masked (`j***@example.com`) or as a SHA-256 prefix */
+      emailRedaction: z.enum(['none', 'mask', 'hash']).default('mask'),
+    })
+    .prefault({}),
+  cache: z
+    .strictObject({
+      /** Users and list pages kept by the in-memory cache of UserService */
+      maxEntries: integer(z.number().positive()).default(10000),
+      /** How long a looked-up user is served from the cache */
+      ttlMs: integer(z.number().positive()).default(60 * 1000),
+      /** Shorter, as every write drops the cached list pages */
+      listTtlMs: integer(z.number().positive()).default(5000),
+      /** How long a user id is known not to exist; 0 disables negative caching */
+      negativeTtlMs: integer(z.number().min(0)).default(5000),
+    })
+    .prefault({}),
+  idempotency: z
+    .strictObject({
+      /** How long the response to a call with an idempotency-key is replayed to retries */
+      ttlMs: integer(z.number().positive()).default(24 * 60 * 60 * 1000),
+      pruneIntervalMs: integer(z.number().positive()).default(60 * 60 * 1000),
+    })
+    .prefault({}),
+  outbox: z
+    .strictObject({
+      /** How often the dispatcher looks for due events */
+      pollIntervalMs: integer(z.number().positive()).default(1000),
+      /** Events delivered per pass */
+      batchSize: integer(z.number().positive()).default(100),
+      /** Failed deliveries after which an event goes to the dead letters */
+      maxAttempts: integer(z.number().positive()).default(10),
+      /** Delay before the first retry, doubled on each further failure up to retryMaxDelayMs */
+      retryBaseDelayMs: integer(z.number().positive()).default(1000),
+      retryMaxDelayMs: integer(z.number().positive()).default(10 * 60 * 1000),
+      /** Endpoints every event is POSTed to, signed with HMAC-SHA256 of their secret */
+      webhooks: json(
+        z.array(
+          z.strictObject({
+            name: z.string().min(1).optional(),
+            url: z.url(),
+            secret: z.string().min(1),
+            timeoutMs: integer(z.number().positive()).default(5000),
+          })
+        )
+      ).default([]),
+    })
+    .prefault({})
+    .refine(outbox => outbox.retryBaseDelayMs <= outbox.retryMaxDelayMs, {
+      message: 'retryBaseDelayMs must not exceed retryMaxDelayMs',
+      path: ['retryBaseDelayMs'],
+    }),
+  metrics: z
+    .strictObject({
+      port: integer(z.number().min(0).max(65535)).default(9464),
+      host: z.string().min(1).optional(),
+    })
+    .prefault({}),
+  tracing: z
+    .strictObject({
+      /** Full OTLP/HTTP traces URL; the standard OTEL_EXPORTER_OTLP_* variables apply when unset */
+      otlpEndpoint: z.url().optional(),
+      serviceName: z.string().min(1).default('grpc-proto'),
+    })
+    .prefault({}),
+  logging: z
+    .strictObject({
+      level: z.enum(['debug', 'info', 'warn', 'error', 'silent']).default('info'),
+    })
+    .prefault({}),
+  auth: z
+    .strictObject({
+      /** `kid` to HMAC secret, `default` being used for tokens without `kid` */
+      jwtKeys: json(z.record(z.string(), z.string().min(1))).optional(),
+      jwtIssuer: z.string().min(1).optional(),
+      jwtAudience: z.string().min(1).optional(),
+      apiKeys: json(z.record(z.string(), z.object({ subject: z.string(), scopes: z.array(z.string()) }))).optional(),
+    })
+    .prefault({}),
+  features: z
+    .strictObject({
+      reflection: boolean().default(true),
+      /** Fail calls whose response does not match the method schema (development aid) */
+      validateResponses: boolean().default(false),
+      metrics: boolean().default(true),
+      tracing: boolean().default(false),
+      userCache: boolean().default(true),
+    })
+    .prefault({}),
+});
+
+export type Config = z.infer<typeof ConfigSchema>;
+
+/**
+ * Environment variables and the config path each one sets
+ */
+export const ENV_VARS: Record<string, string> = {
+  GRPC_ADDRESS: 'server.address',
+  GRPC_PORT: 'server.address',
+  GRPC_MAX_MESSAGE_BYTES: 'server.maxMessageBytes',
+  GRPC_KEEPALIVE_TIME_MS: 'server.keepalive.timeMs',
+  GRPC_KEEPALIVE_TIMEOUT_MS: 'server.keepalive.timeoutMs',
+  GRPC_KEEPALIVE_PERMIT_WITHOUT_CALLS: 'server.keepalive.permitWithoutCalls',
+  GRPC_TLS_CERT: 'server.tls.certFile',
+  GRPC_TLS_KEY: 'server.tls.keyFile',
+  GRPC_TLS_CA: 'server.tls.caFile',
+  GRPC_TLS_REQUIRE_CLIENT_CERT: 'server.tls.requireClientCert',
+  GRPC_TLS_RELOAD_INTERVAL_MS: 'server.tls.reloadIntervalMs',
+  RATE_LIMITS: 'limits.rateLimits',
+  MAX_CONCURRENT_CALLS: 'limits.maxConcurrentCalls',
+  MAX_QUEUED_CALLS: 'limits.maxQueuedCalls',
+  CALL_QUEUE_TIMEOUT_MS: 'limits.queueTimeoutMs',
+  CONCURRENCY_EXEMPT_METHODS: 'limits.concurrencyExempt',
+  AUTH_FAILURE_RATE_PER_SECOND: 'limits.authFailureRatePerSecond',
+  AUTH_FAILURE_BURST: 'limits.authFailureBurst',
+  DATABASE_URL: 'database.url',
+  DATABASE_CHECK_INTERVAL_MS: 'database.connectionCheckIntervalMs',
+  USER_DEFAULT_PAGE_SIZE: 'pagination.defaultPageSize',
+  USER_MAX_PAGE_SIZE: 'pagination.maxPageSize',
+  USER_DEFAULT_STREAM_BATCH_SIZE: 'pagination.defaultStreamBatchSize',
+  USER_MAX_STREAM_BATCH_SIZE: 'pagination.maxStreamBatchSize',
+  USER_MAX_BATCH_SIZE: 'pagination.maxBatchSize',
+  HEALTH_CHECK_INTERVAL_MS: 'health.checkIntervalMs',
+  HEALTH_CACHE_TTL_MS: 'health.cacheTtlMs',
+  HEALTH_PROBE_TIMEOUT_MS: 'health.probeTimeoutMs',
+  HEALTH_DISK_PATH: 'health.diskPath',
+  HEALTH_MIN_FREE_DISK_BYTES: 'health.minFreeDiskBytes',
+  HEALTH_MAX_EVENT_LOOP_LAG_MS: 'health.maxEventLoopLagMs',
+  HEALTH_MAX_HEAP_USED_RATIO: 'health.maxHeapUsedRatio',
+  HEALTH_DEPENDENCIES: 'health.dependencies',
+  HEALTH_HISTORY_RETENTION_DAYS: 'health.history.retentionDays',
+  HEALTH_HISTORY_PRUNE_INTERVAL_MS: 'health.history.pruneIntervalMs',
+  AUDIT_EMAIL_REDACTION: 'audit.emailRedaction',
+  USER_CACHE_MAX_ENTRIES: 'cache.maxEntries',
+  USER_CACHE_TTL_MS: 'cache.ttlMs',
+  USER_CACHE_LIST_TTL_MS: 'cache.listTtlMs',
+  USER_CACHE_NEGATIVE_TTL_MS: 'cache.negativeTtlMs',
+  IDEMPOTENCY_TTL_MS: 'idempotency.ttlMs',
+  IDEMPOTENCY_PRUNE_INTERVAL_MS: 'idempotency.pruneIntervalMs',
+  OUTBOX_POLL_INTERVAL_MS: 'outbox.pollIntervalMs',
+  OUTBOX_BATCH_SIZE: 'outbox.batchSize',
+  OUTBOX_MAX_ATTEMPTS: 'outbox.maxAttempts',
+  OUTBOX_RETRY_BASE_DELAY_MS: 'outbox.retryBaseDelayMs',
+  OUTBOX_RETRY_MAX_DELAY_MS: 'outbox.retryMaxDelayMs',
+  OUTBOX_WEBHOOKS: 'outbox.webhooks',
+  METRICS_PORT: 'metrics.port',
+  METRICS_HOST: 'metrics.host',
+  OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: 'tracing.otlpEndpoint',
+  OTEL_SERVICE_NAME: 'tracing.serviceName',
+  LOG_LEVEL: 'logging.level',
+  AUTH_JWT_KEYS: 'auth.jwtKeys',
+  AUTH_JWT_ISSUER: 'auth.jwtIssuer',
+  AUTH_JWT_AUDIENCE: 'auth.jwtAudience',
+  AUTH_API_KEYS: 'auth.apiKeys',
+  GRPC_REFLECTION: 'features.reflection',
+  GRPC_VALIDATE_RESPONSES: 'features.validateResponses',
+  METRICS_ENABLED: 'features.metrics',
+  TRACING_ENABLED: 'features.tracing',
+  USER_CACHE_ENABLED: 'features.userCache',
+};
+
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+export interface ConfigSources {
+  /** CLI arguments: `--config <file>` and `--<path> <value>`, e.g. `--server.address=0.0.0.0:6000` */
+  argv?: string[];
+  env?: NodeJS.ProcessEnv;
+  /** Directory the config file path is resolved against (default: the working directory) */
+  cwd?: string;
+}
+
+type Layer = Record<string, unknown>;
+
+function isObject(value: unknown): value is Layer {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function setPath(target: Layer, keyPath: string, value: unknown): void {
+  const keys = keyPath.split('.');
+  const last = keys.pop()!;
+  const parent = keys.reduce<Layer>((obj, key) => {
+    if (!isObject(obj[key])) obj[key] = {};
+    return obj[key] as Layer;
+  }, target);
+  parent[last] = value;
+}
+
+function merge(target: Layer, source: Layer): Layer {
+  for (const [key, value] of Object.entries(source)) {
+    target[key] = isObject(value) && isObject(target[key]) ? merge({ ...(target[key] as Layer) }, value) : value;
+  }
+  return target;
+}
+
+function leafPaths(layer: Layer, prefix = ''): string[] {
+  return Object.entries(layer).flatMap(([key, value]) =>
+    isObject(value) && Object.keys(value).length > 0 ? leafPaths(value, `${prefix}${key}.`) : [`${prefix}${key}`]
+  );
+}
+
+// Defaults that depend on the environment rather than being fixed in the schema
+function environmentDefaults(env: NodeJS.ProcessEnv): Layer {
+  return {
+    logging: { level: env.NODE_ENV === 'test' ? 'silent' : 'info' },
+    features: {
+      reflection: env.NODE_ENV !== 'production',
+      tracing: !!(env.OTEL_EXPORTER_OTLP_ENDPOINT || env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT),
+    },
+  };
+}
+
+function parseArgs(argv: string[]): { configFile?: string; flags: Layer } {
+  const flags: Layer = {};
+  let configFile: string | undefined;
+
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (!arg.startsWith('--')) throw new ConfigError(`Unexpected argument "${arg}"`);
+
+    let [name, value] = arg.slice(2).split(/=(.*)/s, 2) as [string, string | undefined];
+    if (value === undefined) {
+      // A flag without value is a boolean toggle, e.g. `--features.reflection`
+      value = argv[index + 1] !== undefined && !argv[index + 1].startsWith('--') ? argv[++index] : 'true';
+    }
+
+    if (name === 'config') configFile = value;
+    else setPath(flags, name, value);
+  }
+
+  return { configFile, flags };
+}
+
+function readConfigFile(file: string): Layer {
+  let content: string;
+  try {
+    content = fs.readFileSync(file, 'utf8');
+  } catch (error) {
+    throw new ConfigError(`Cannot read config file ${file}: ${(error as Error).message}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = /\.ya?ml$/i.test(file) ? YAML.parse(content) : JSON.parse(content);
+  } catch (error) {
+    throw new ConfigError(`Cannot parse config file ${file}: ${(error as Error).message}`);
+  }
+  if (parsed == null) return {};
+  if (!isObject(parsed)) throw new ConfigError(`Config file ${file} must contain an object`);
+
+  return parsed;
+}
+
+/**
+ * Build the configuration from defaults, then the config file (`--config` or CONFIG_FILE,
+ * JSON or YAML), then environment variables, then CLI flags, each layer overriding the
+ * previous ones. Throws a ConfigError listing every invalid setting and where it came from.
+ */
+export function loadConfig(sources: ConfigSources = {}): Config {
+  const env = sources.env ?? {};
+  const { configFile, flags } = parseArgs(sources.argv ?? []);
+  const merged = environmentDefaults(env);
+  // Where each setting was last set, to point at the culprit of validation errors
+  const origins = new Map<string, string>();
+
+  const file = configFile ?? env.CONFIG_FILE;
+  if (file) {
+    const fileLayer = readConfigFile(path.resolve(sources.cwd ?? process.cwd(), file));
+    leafPaths(fileLayer).forEach(keyPath => origins.set(keyPath, `config file ${file}`));
+    merge(merged, fileLayer);
+  }
+
+  const envLayer: Layer = {};
+  for (const [name, keyPath] of Object.entries(ENV_VARS)) {
+    const value = env[name];
+    if (value === undefined || value === '') continue;
+    setPath(envLayer, keyPath, value);
+    origins.set(keyPath, `env ${name}`);
+  }
+  merge(merged, envLayer);
+
+  leafPaths(flags).forEach(keyPath => origins.set(keyPath, `flag --${keyPath}`));
+  merge(merged, flags);
+
+  const result = ConfigSchema.safeParse(merged);
+  if (result.success) return result.data;
+
+  const describe = (keyPath: string, message: string) => {
+    const origin = [...origins.entries()].find(
+      ([candidate]) =>
+        candidate === keyPath || candidate.startsWith(`${keyPath}.`) || keyPath.startsWith(`${candidate}.`)
+    )?.[1];
+    return `  - ${keyPath || '(root)'}: ${message}${origin ? ` (from ${origin})` : ''}`;
+  };
+  const problems = result.error.issues.flatMap(issue => {
+    const keyPath = issue.path.map(String).join('.');
+    if (issue.code !== 'unrecognized_keys') return [describe(keyPath, issue.message)];
+
+    return issue.keys.map(key => describe(keyPath ? `${keyPath}.${key}` : key, 'Unknown setting'));
+  });
+  throw new ConfigError(`Invalid configuration:\n${problems.join('\n')}`);
+}
+
+let current: Config | undefined;
+
+/**
+ * Make `config` the one returned by getConfig; entry points call it before anything reads it
+ */
+export function configure(config: Config): Config {
+  current = config;
+  return config;
+}
+
+/**
+ * Process-wide configuration; without a prior `configure`, it is loaded from the environment
+ */
+export function getConfig(): Config {
+  current ??= loadConfig({ env: process.env });
+  return current;
+}
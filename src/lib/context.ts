@@ -0,0 +1,36 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export const REQUEST_ID_METADATA_KEY = 'x-request-id';
+
+/**
+ * Metadata key naming who a call acts for, trusted only while authentication is disabled
+ */
+export const ACTOR_METADATA_KEY = 'x-actor';
+
+/**
+ * State following a call through every await, from the interceptors down to the repositories
+ */
+export interface RequestContext {
+  /** Taken from `x-request-id` metadata, generated when the client sent none */
+  requestId: string;
+  /** Full method path, e.g. `/user.UserService/GetUser` */
+  method?: string;
+  /** Subject of the authenticated principal, or `x-actor` metadata when authentication is disabled */
+  actor?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run `fn` with `context` visible to everything it awaits or schedules
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Context of the call being handled, undefined outside of one (e.g. in timers started at boot)
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
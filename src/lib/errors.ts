@@ -0,0 +1,271 @@
+import * as grpc from '@grpc/grpc-js';
+import { Prisma } from '@prisma/client';
+import { ZodError } from 'zod';
+import { logger } from '@/lib/logger';
+
+/**
+ * Trailing metadata key carrying JSON-encoded field violations
+ */
+export const FIELD_VIOLATIONS_METADATA_KEY = 'field-violations-bin';
+
+/**
+ * Trailing metadata key carrying the domain error class name
+ */
+export const ERROR_TYPE_METADATA_KEY = 'error-type';
+
+/**
+ * Trailing metadata key carrying how many milliseconds to wait before retrying a RESOURCE_EXHAUSTED call
+ */
+export const RETRY_AFTER_METADATA_KEY = 'retry-after-ms';
+
+export interface FieldViolation {
+  field: string;
+  description: string;
+}
+
+/**
+ * Base class for domain errors, each bound to the gRPC status it maps to
+ */
+export class AppError extends Error {
+  readonly code: grpc.status;
+  readonly violations: FieldViolation[];
+
+  constructor(code: grpc.status, message: string, violations: FieldViolation[] = []) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.violations = violations;
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(resource: string, id?: string) {
+    super(grpc.status.NOT_FOUND, id ? `${resource} ${id} not found` : `${resource} not found`);
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(message: string, violations: FieldViolation[] = []) {
+    super(grpc.status.INVALID_ARGUMENT, message, violations);
+  }
+
+  static fromZod(error: ZodError): ValidationError {
+    const violations = error.issues.map(issue => ({
+      field: issue.path.map(String).join('.'),
+      description: issue.message,
+    }));
+    const summary = violations
+      .map(violation => (violation.field ? `${violation.field}: ${violation.description}` : violation.description))
+      .join('; ');
+
+    return new ValidationError(`Invalid request: ${summary}`, violations);
+  }
+}
+
+export class AlreadyExistsError extends AppError {
+  constructor(message: string) {
+    super(grpc.status.ALREADY_EXISTS, message);
+  }
+}
+
+export class UnauthenticatedError extends AppError {
+  constructor(message: string) {
+    super(grpc.status.UNAUTHENTICATED, message);
+  }
+}
+
+export class PermissionDeniedError extends AppError {
+  constructor(message: string) {
+    super(grpc.status.PERMISSION_DENIED, message);
+  }
+}
+
+export class FailedPreconditionError extends AppError {
+  constructor(message: string) {
+    super(grpc.status.FAILED_PRECONDITION, message);
+  }
+}
+
+/**
+ * A conditional write lost to a concurrent one; the client should read again and retry
+ */
+export class AbortedError extends AppError {
+  constructor(message: string) {
+    super(grpc.status.ABORTED, message);
+  }
+}
+
+/**
+ * A rate or concurrency limit was hit; the client should wait `retryAfterMs` before retrying
+ */
+export class ResourceExhaustedError extends AppError {
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, retryAfterMs?: number) {
+    super(grpc.status.RESOURCE_EXHAUSTED, message);
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class UnavailableError extends AppError {
+  constructor(message: string) {
+    super(grpc.status.UNAVAILABLE, message);
+  }
+}
+
+export class InternalError extends AppError {
+  constructor(message: string) {
+    super(grpc.status.INTERNAL, message);
+  }
+}
+
+// Prisma error codes meaning the database could not be reached or a connection obtained
+const PRISMA_UNAVAILABLE_CODES = new Set(['P1001', 'P1002', 'P1008', 'P1017', 'P2024']);
+
+// Client-facing message of database outages, whose details (paths, engine messages) stay in the logs
+const DATABASE_UNAVAILABLE = 'Database unavailable';
+
+function isPrismaUnavailable(error: unknown): boolean {
+  return (
+    (error instanceof Prisma.PrismaClientKnownRequestError && PRISMA_UNAVAILABLE_CODES.has(error.code)) ||
+    error instanceof Prisma.PrismaClientInitializationError ||
+    error instanceof Prisma.PrismaClientRustPanicError
+  );
+}
+
+/**
+ * Translate a Prisma error into the matching domain error, leaving anything else untouched.
+ * Database outages are logged, since clients only get a generic message.
+ */
+export function fromPrismaError(error: unknown, resource: string, id?: string): unknown {
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    if (error.code === 'P2002') {
+      const target = error.meta?.target;
+      const fields = Array.isArray(target) ? target.join(', ') : String(target ?? 'unique field');
+      return new AlreadyExistsError(`${resource} with the same ${fields} already exists`);
+    }
+    if (error.code === 'P2025') {
+      return new NotFoundError(resource, id);
+    }
+  }
+
+  if (isPrismaUnavailable(error)) {
+    logger.error(DATABASE_UNAVAILABLE, { component: 'database', resource, error });
+    return new UnavailableError(DATABASE_UNAVAILABLE);
+  }
+
+  return error;
+}
+
+/**
+ * Normalize any thrown value into a domain error. Unexpected errors get a generic message, the
+ * original being logged with the failed call by the access log.
+ */
+export function toAppError(error: unknown): AppError {
+  if (error instanceof AppError) return error;
+  if (error instanceof ZodError) return ValidationError.fromZod(error);
+  if (isPrismaUnavailable(error)) return new UnavailableError(DATABASE_UNAVAILABLE);
+
+  const translated = fromPrismaError(error, 'Resource');
+  if (translated instanceof AppError) return translated;
+
+  return new InternalError('Internal error');
+}
+
+/**
+ * Convert any thrown value into a gRPC error response with structured trailing metadata
+ */
+export function toServiceError(error: unknown): grpc.ServerErrorResponse {
+  if (isServiceError(error)) return error;
+
+  const appError = toAppError(error);
+  const metadata = new grpc.Metadata();
+  metadata.set(ERROR_TYPE_METADATA_KEY, appError.name);
+  if (appError.violations.length > 0) {
+    metadata.set(FIELD_VIOLATIONS_METADATA_KEY, Buffer.from(JSON.stringify(appError.violations)));
+  }
+  if (appError instanceof ResourceExhaustedError && appError.retryAfterMs !== undefined) {
+    metadata.set(RETRY_AFTER_METADATA_KEY, String(Math.ceil(appError.retryAfterMs)));
+  }
+
+  return Object.assign(new Error(appError.message), {
+    code: appError.code,
+    details: appError.message,
+    metadata,
+  });
+}
+
+/**
+ * Status code a thrown value ends the call with
+ */
+export function getStatusCode(error: unknown): grpc.status {
+  return toServiceError(error).code ?? grpc.status.UNKNOWN;
+}
+
+/**
+ * Describe the outcome of one item of a batch call, OK when there is no error
+ */
+export function toItemStatus(error?: unknown): { code: grpc.status; message: string; violations: FieldViolation[] } {
+  if (error === undefined) return { code: grpc.status.OK, message: '', violations: [] };
+
+  const appError = toAppError(error);
+  return { code: appError.code, message: appError.message, violations: appError.violations };
+}
+
+/**
+ * Read the field violations attached by `toServiceError` back from trailing metadata
+ */
+export function getFieldViolations(metadata: grpc.Metadata): FieldViolation[] {
+  const [value] = metadata.get(FIELD_VIOLATIONS_METADATA_KEY);
+  if (!value) return [];
+
+  return JSON.parse(value.toString()) as FieldViolation[];
+}
+
+/**
+ * Read the retry delay attached by `toServiceError` back from trailing metadata
+ */
+export function getRetryAfterMs(metadata: grpc.Metadata): number | undefined {
+  const [value] = metadata.get(RETRY_AFTER_METADATA_KEY);
+  const retryAfterMs = Number(value?.toString());
+
+  return value !== undefined && Number.isFinite(retryAfterMs) ? retryAfterMs : undefined;
+}
+
+// Errors rebuilt on the client side, by status code; other codes become a plain AppError
+const STATUS_ERRORS: Partial<
+  Record<grpc.status, (message: string, violations: FieldViolation[], metadata: grpc.Metadata) => AppError>
+> = {
+  [grpc.status.INVALID_ARGUMENT]: (message, violations) => new ValidationError(message, violations),
+  [grpc.status.NOT_FOUND]: message => Object.assign(new NotFoundError('Resource'), { message }),
+  [grpc.status.ALREADY_EXISTS]: message => new AlreadyExistsError(message),
+  [grpc.status.UNAUTHENTICATED]: message => new UnauthenticatedError(message),
+  [grpc.status.PERMISSION_DENIED]: message => new PermissionDeniedError(message),
+  [grpc.status.FAILED_PRECONDITION]: message => new FailedPreconditionError(message),
+  [grpc.status.ABORTED]: message => new AbortedError(message),
+  [grpc.status.RESOURCE_EXHAUSTED]: (message, _, metadata) =>
+    new ResourceExhaustedError(message, getRetryAfterMs(metadata)),
+  [grpc.status.UNAVAILABLE]: message => new UnavailableError(message),
+  [grpc.status.INTERNAL]: message => new InternalError(message),
+};
+
+/**
+ * Rebuild the domain error from a status received by a gRPC client, the inverse of `toServiceError`
+ */
+export function fromServiceError(error: grpc.ServiceError): AppError {
+  const message = error.details || error.message;
+  const metadata = error.metadata ?? new grpc.Metadata();
+  const violations = getFieldViolations(metadata);
+  const create = STATUS_ERRORS[error.code];
+
+  return create ? create(message, violations, metadata) : new AppError(error.code, message, violations);
+}
+
+function isServiceError(error: unknown): error is grpc.ServerErrorResponse {
+  return (
+    error instanceof Error &&
+    !(error instanceof AppError) &&
+    typeof (error as grpc.ServerErrorResponse).code === 'number' &&
+    (error as grpc.ServerErrorResponse).metadata instanceof grpc.Metadata
+  );
+}
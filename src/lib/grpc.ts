@@ -1,27 +1,112 @@
 import * as grpc from '@grpc/grpc-js';
 import * as protoLoader from '@grpc/proto-loader';
+import { ReflectionService } from '@grpc/reflection';
 import path from 'path';
+import { wrapHandler, type ServerInterceptor } from '@/lib/interceptors';
+import { createAccessLogInterceptor, logger as rootLogger, type Logger } from '@/lib/logger';
+import {
+  createMetricsInterceptor,
+  startMetricsServer,
+  type MetricsServer,
+  type MetricsServerOptions,
+} from '@/lib/metrics';
+import {
+  createAuthFailureLimitInterceptor,
+  createConcurrencyLimitInterceptor,
+  createRateLimitInterceptor,
+  type ConcurrencyLimitOptions,
+  type RateLimitRule,
+  type RateLimitRules,
+} from '@/lib/ratelimit';
+import { loadServerCredentials, type TlsOptions } from '@/lib/tls';
+import { createTracingInterceptor } from '@/lib/tracing';
+import { createValidationInterceptor, type ServiceSchemas } from '@/lib/validation';
 
 export interface GrpcServiceDefinition {
   protoPath: string;
   packageName: string;
   serviceName: string;
   implementation: grpc.UntypedServiceImplementation;
+  /** Interceptors applied to this service only, after the global ones */
+  interceptors?: ServerInterceptor[];
+  /** Request/response schemas by method name, checked right before the handler runs */
+  schemas?: ServiceSchemas;
+}
+
+export type LifecycleHook = () => void | Promise<void>;
+
+export interface KeepaliveOptions {
+  /** Interval of the pings sent on idle connections */
+  timeMs?: number;
+  /** How long a ping may go unanswered before the connection is closed */
+  timeoutMs?: number;
+  /** Keep pinging connections without active calls */
+  permitWithoutCalls?: boolean;
+}
+
+export interface GrpcServerOptions {
+  /** Expose grpc.reflection.v1 and v1alpha for the registered services (default: true) */
+  reflection?: boolean;
+  /** Serve TLS, or mTLS with `requireClientCert`; insecure when omitted */
+  tls?: TlsOptions;
+  /** Check responses against the method schemas too, failing the call with INTERNAL (default: false) */
+  validateResponses?: boolean;
+  /** Receives the server and access logs (default: the root logger) */
+  logger?: Logger;
+  /** Serve Prometheus metrics over HTTP while the server runs; RPCs are measured either way */
+  metrics?: MetricsServerOptions;
+  /** Largest message received or sent, in bytes (default: grpc-js limits, 4 MiB received) */
+  maxMessageBytes?: number;
+  keepalive?: KeepaliveOptions;
+  /** Token-bucket limits by method, applied after the interceptors registered with `use` */
+  rateLimits?: RateLimitRules;
+  /** Cap on the calls handled at once, with queueing and load shedding beyond it */
+  concurrency?: ConcurrencyLimitOptions;
+  /** Failed authentications allowed per peer address, checked before the interceptors registered with `use` */
+  authFailureLimit?: Omit<RateLimitRule, 'key'>;
+}
+
+/**
+ * Options every proto is loaded with; the generated message types in src/DTO/generated follow them
+ */
+export const PROTO_LOADER_OPTIONS = {
+  keepCase: true,
+  longs: String,
+  enums: String,
+  defaults: true,
+  oneofs: true,
+} satisfies protoLoader.Options;
+
+/**
+ * Load a proto file and return its raw proto-loader package definition
+ */
+export function loadPackageDefinition(protoPath: string): protoLoader.PackageDefinition {
+  return protoLoader.loadSync(protoPath, PROTO_LOADER_OPTIONS);
 }
 
 /**
  * Load a proto file and return the package definition
  */
 export function loadProtoFile(protoPath: string): grpc.GrpcObject {
-  const packageDefinition = protoLoader.loadSync(protoPath, {
-    keepCase: true,
-    longs: String,
-    enums: String,
-    defaults: true,
-    oneofs: true,
-  });
-
-  return grpc.loadPackageDefinition(packageDefinition);
+  return grpc.loadPackageDefinition(loadPackageDefinition(protoPath));
+}
+
+type ProtoEntry = grpc.GrpcObject[string];
+
+// Namespaces are plain objects; services are client constructors and messages carry a `format`
+function isNamespace(entry: ProtoEntry | undefined): entry is grpc.GrpcObject {
+  return typeof entry === 'object' && !('format' in entry);
+}
+
+/**
+ * Find a service of a loaded proto by its fully qualified name, e.g. `user.UserService`
+ */
+export function findServiceDefinition(proto: grpc.GrpcObject, serviceName: string): grpc.ServiceDefinition | undefined {
+  const entry = serviceName
+    .split('.')
+    .reduce<ProtoEntry | undefined>((namespace, name) => (isNamespace(namespace) ? namespace[name] : undefined), proto);
+
+  return typeof entry === 'function' ? entry.service : undefined;
 }
 
 /**
@@ -30,9 +115,94 @@ export function loadProtoFile(protoPath: string): grpc.GrpcObject {
 export class GrpcServer {
   private server: grpc.Server;
   private services: GrpcServiceDefinition[] = [];
+  private interceptors: ServerInterceptor[] = [];
+  private startHooks: LifecycleHook[] = [];
+  private stopHooks: LifecycleHook[] = [];
+  private packageDefinitions: protoLoader.PackageDefinition[] = [];
+  private reflection: boolean;
+  private tls?: TlsOptions;
+  private validateResponses: boolean;
+  private logger: Logger;
+  private tracing: ServerInterceptor;
+  private accessLog: ServerInterceptor;
+  private metrics: ServerInterceptor;
+  private limits: ServerInterceptor[] = [];
+  private authFailureLimit: ServerInterceptor[] = [];
+  private metricsServer?: MetricsServer;
+
+  constructor(options: GrpcServerOptions = {}) {
+    this.server = new grpc.Server(GrpcServer.channelOptions(options));
+    this.reflection = options.reflection ?? true;
+    this.tls = options.tls;
+    this.validateResponses = options.validateResponses ?? false;
+    this.logger = (options.logger ?? rootLogger).child({ component: 'GrpcServer' });
+    this.tracing = createTracingInterceptor();
+    this.accessLog = createAccessLogInterceptor(options.logger);
+    this.metrics = createMetricsInterceptor();
+    if (options.rateLimits && Object.keys(options.rateLimits).length > 0) {
+      this.limits.push(createRateLimitInterceptor(options.rateLimits));
+    }
+    if (options.concurrency) this.limits.push(createConcurrencyLimitInterceptor(options.concurrency));
+    if (options.authFailureLimit) {
+      this.authFailureLimit.push(createAuthFailureLimitInterceptor(options.authFailureLimit));
+    }
+
+    const metricsOptions = options.metrics;
+    if (metricsOptions) {
+      this.onStart(async () => {
+        this.metricsServer = await startMetricsServer(metricsOptions);
+      });
+      this.onStop(async () => {
+        await this.metricsServer?.close();
+        this.metricsServer = undefined;
+      });
+    }
+  }
 
-  constructor() {
-    this.server = new grpc.Server();
+  private static channelOptions({ maxMessageBytes, keepalive = {} }: GrpcServerOptions): grpc.ServerOptions {
+    const channelOptions: grpc.ServerOptions = {};
+    if (maxMessageBytes !== undefined) {
+      channelOptions['grpc.max_receive_message_length'] = maxMessageBytes;
+      channelOptions['grpc.max_send_message_length'] = maxMessageBytes;
+    }
+    if (keepalive.timeMs !== undefined) channelOptions['grpc.keepalive_time_ms'] = keepalive.timeMs;
+    if (keepalive.timeoutMs !== undefined) channelOptions['grpc.keepalive_timeout_ms'] = keepalive.timeoutMs;
+    if (keepalive.permitWithoutCalls !== undefined) {
+      channelOptions['grpc.keepalive_permit_without_calls'] = keepalive.permitWithoutCalls ? 1 : 0;
+    }
+
+    return channelOptions;
+  }
+
+  /**
+   * Port of the metrics endpoint while the server runs
+   */
+  get metricsPort(): number | undefined {
+    return this.metricsServer?.port;
+  }
+
+  /**
+   * Register an interceptor applied to every service, in registration order
+   */
+  use(interceptor: ServerInterceptor): this {
+    this.interceptors.push(interceptor);
+    return this;
+  }
+
+  /**
+   * Register a hook run once the server is bound
+   */
+  onStart(hook: LifecycleHook): this {
+    this.startHooks.push(hook);
+    return this;
+  }
+
+  /**
+   * Register a hook run before the server shuts down, e.g. to end long-lived streams
+   */
+  onStop(hook: LifecycleHook): this {
+    this.stopHooks.push(hook);
+    return this;
   }
 
   /**
@@ -40,54 +210,127 @@ export class GrpcServer {
    */
   addService(serviceDefinition: GrpcServiceDefinition): void {
     const protoPath = path.resolve(__dirname, '../../proto', serviceDefinition.protoPath);
-    const proto = loadProtoFile(protoPath);
+    const packageDefinition = loadPackageDefinition(protoPath);
+    const proto = grpc.loadPackageDefinition(packageDefinition);
 
-    const packageObj = proto[serviceDefinition.packageName] as any;
-    const serviceObj = packageObj[serviceDefinition.serviceName];
+    const service = findServiceDefinition(proto, `${serviceDefinition.packageName}.${serviceDefinition.serviceName}`);
 
-    if (!serviceObj || !serviceObj.service) {
+    if (!service) {
       throw new Error(
         `Service ${serviceDefinition.serviceName} not found in package ${serviceDefinition.packageName}`
       );
     }
 
-    this.server.addService(serviceObj.service, serviceDefinition.implementation);
+    const serviceInterceptors = [...(serviceDefinition.interceptors ?? [])];
+
+    if (serviceDefinition.schemas) {
+      const methodNames = Object.values(service).map(method => method.path.split('/')[2]);
+      const unknown = Object.keys(serviceDefinition.schemas).filter(name => !methodNames.includes(name));
+      if (unknown.length > 0) {
+        throw new Error(`Schemas for unknown methods of ${serviceDefinition.serviceName}: ${unknown.join(', ')}`);
+      }
+
+      serviceInterceptors.push(
+        createValidationInterceptor(serviceDefinition.schemas, { validateResponses: this.validateResponses })
+      );
+    }
+    const implementation: grpc.UntypedServiceImplementation = {};
+
+    for (const [name, method] of Object.entries(service)) {
+      const handler =
+        serviceDefinition.implementation[name] ??
+        (method.originalName ? serviceDefinition.implementation[method.originalName] : undefined);
+      if (!handler) continue;
+
+      implementation[name] = wrapHandler(
+        handler,
+        method,
+        // Tracing, access logging and metrics come first so that calls rejected by any interceptor are
+        // recorded too, and the server span is active while the access log line is written. Limits
+        // follow the global interceptors, authentication included, so that they can key on principals;
+        // only failed authentications are limited ahead of them, by peer.
+        () => [
+          this.tracing,
+          this.accessLog,
+          this.metrics,
+          ...this.authFailureLimit,
+          ...this.interceptors,
+          ...this.limits,
+          ...serviceInterceptors,
+        ],
+        () => !!this.tls?.requireClientCert
+      );
+    }
+
+    this.server.addService(service, implementation);
     this.services.push(serviceDefinition);
-    console.log(`✓ Added service: ${serviceDefinition.packageName}.${serviceDefinition.serviceName}`);
+    this.packageDefinitions.push(packageDefinition);
+    this.logger.info('Service added', {
+      service: `${serviceDefinition.packageName}.${serviceDefinition.serviceName}`,
+    });
   }
 
   /**
-   * Start the gRPC server
+   * Start the gRPC server, resolving with the bound port
    */
-  async start(port: string = '0.0.0.0:50051'): Promise<void> {
-    return new Promise((resolve, reject) => {
+  async start(port: string = '0.0.0.0:50051'): Promise<number> {
+    if (this.reflection) this.addReflectionService();
+
+    const credentials = await loadServerCredentials(this.tls);
+    const actualPort = await new Promise<number>((resolve, reject) => {
       this.server.bindAsync(
         port,
-        grpc.ServerCredentials.createInsecure(),
+        credentials,
         (error, actualPort) => {
           if (error) {
             reject(error);
             return;
           }
 
-          console.log(`\n🚀 gRPC Server started on ${actualPort}`);
-          console.log(`Registered services: ${this.services.length}`);
-          this.services.forEach(service => {
-            console.log(`  - ${service.packageName}.${service.serviceName}`);
+          this.logger.info('gRPC Server started', {
+            port: actualPort,
+            security: this.describeSecurity(),
+            services: this.services.map(service => `${service.packageName}.${service.serviceName}`),
           });
-          resolve();
+          resolve(actualPort);
         }
       );
     });
+
+    for (const hook of this.startHooks) {
+      await hook();
+    }
+
+    return actualPort;
+  }
+
+  private describeSecurity(): string {
+    if (!this.tls) return 'insecure';
+    return this.tls.requireClientCert ? 'mTLS' : 'TLS';
+  }
+
+  /**
+   * Expose every proto loaded through addService, nested types included, via server reflection
+   */
+  private addReflectionService(): void {
+    const packageDefinition = Object.assign({}, ...this.packageDefinitions);
+    const services = this.services.map(service => `${service.packageName}.${service.serviceName}`);
+
+    new ReflectionService(packageDefinition, { services }).addToServer(this.server);
+    this.logger.info('Service added', { service: 'grpc.reflection', versions: ['v1', 'v1alpha'] });
   }
 
   /**
    * Stop the gRPC server gracefully
    */
   async stop(): Promise<void> {
+    for (const hook of this.stopHooks) {
+      await hook();
+    }
+
     return new Promise((resolve) => {
       this.server.tryShutdown(() => {
-        console.log('gRPC Server stopped');
+        this.logger.info('gRPC Server stopped');
         resolve();
       });
     });
@@ -97,15 +340,18 @@ export class GrpcServer {
    * Force shutdown the gRPC server
    */
   forceShutdown(): void {
+    this.stopHooks.forEach(hook => {
+      Promise.resolve(hook()).catch(error => this.logger.error('Stop hook failed', { error }));
+    });
     this.server.forceShutdown();
-    console.log('gRPC Server force shutdown');
+    this.logger.info('gRPC Server force shutdown');
   }
 }
 
 // Handle graceful shutdown globally, outside the class
 function setupGracefulShutdown(server: GrpcServer): void {
   const shutdown = async (signal: string) => {
-    console.log(`\nReceived ${signal}, shutting down gracefully...`);
+    rootLogger.info('Shutting down gracefully', { signal });
     await server.stop();
     process.exit(0);
   };
@@ -115,3 +361,7 @@ function setupGracefulShutdown(server: GrpcServer): void {
 }
 
 export { grpc, setupGracefulShutdown };
+export type { CallContext, NextFn, ServerInterceptor } from '@/lib/interceptors';
+export type { TlsOptions } from '@/lib/tls';
+export type { MethodSchemas, ServiceSchemas } from '@/lib/validation';
+export type { MetricsServerOptions } from '@/lib/metrics';
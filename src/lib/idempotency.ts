@@ -0,0 +1,167 @@
+import type * as grpc from '@grpc/grpc-js';
+import { createHash } from 'crypto';
+import { getRequestContext } from '@/lib/context';
+import { AbortedError, ValidationError } from '@/lib/errors';
+import type { ServerInterceptor } from '@/lib/interceptors';
+import { logger } from '@/lib/logger';
+
+export const IDEMPOTENCY_KEY_METADATA_KEY = 'idempotency-key';
+
+const MAX_KEY_LENGTH = 255;
+
+export interface IdempotencyRecord {
+  /** Hash of the method and request the key was first used with */
+  requestHash: string;
+  /** Unset while the first call is still running */
+  response?: unknown;
+  expiresAt: Date;
+}
+
+/**
+ * Where keys and the responses they produced are kept until they expire
+ */
+export interface IdempotencyStore {
+  /**
+   * Reserve the key for a call; resolves null when reserved, or the unexpired record of a
+   * previous call with the same key
+   */
+  claim(key: string, requestHash: string, expiresAt: Date): Promise<IdempotencyRecord | null>;
+  /** Store the response of the call holding the key */
+  complete(key: string, response: unknown): Promise<void>;
+  /** Drop the reservation of a call that failed, so that a retry runs again */
+  release(key: string): Promise<void>;
+  /** Delete the records expired before `now`; resolves how many were deleted */
+  deleteExpired(now: Date): Promise<number>;
+}
+
+export interface IdempotencyOptions {
+  /** Method names as declared in the proto, e.g. `CreateUser`; only unary methods are supported */
+  methods: string[];
+  store: IdempotencyStore;
+  /** How long a key and its response are kept */
+  ttlMs: number;
+}
+
+const log = logger.child({ component: 'idempotency' });
+
+function getIdempotencyKey(metadata: grpc.Metadata): string | undefined {
+  const [value] = metadata.get(IDEMPOTENCY_KEY_METADATA_KEY);
+  if (value === undefined) return undefined;
+
+  const key = value.toString().trim();
+  if (!key || key.length > MAX_KEY_LENGTH) {
+    throw new ValidationError(`Invalid ${IDEMPOTENCY_KEY_METADATA_KEY}`, [
+      { field: IDEMPOTENCY_KEY_METADATA_KEY, description: `Must be 1 to ${MAX_KEY_LENGTH} characters` },
+    ]);
+  }
+
+  return key;
+}
+
+function hashRequest(path: string, request: unknown): string {
+  return createHash('sha256').update(path).update('\n').update(JSON.stringify(request)).digest('hex');
+}
+
+/**
+ * Make the listed unary methods safe to retry with an `idempotency-key` metadata entry: the first
+ * successful response is stored with a hash of the request, and later calls with the same key get
+ * it back without the handler running again. Reusing a key with another request (or method)
+ * fails with INVALID_ARGUMENT, and a retry racing the first call with ABORTED. Failed calls are
+ * not stored, so they can be retried with the same key. Keys are scoped to the actor of the call.
+ */
+export function createIdempotencyInterceptor(options: IdempotencyOptions): ServerInterceptor {
+  const methods = new Set(options.methods);
+
+  return async (ctx, next) => {
+    if (!methods.has(ctx.method) || ctx.type !== 'unary') return next();
+
+    const idempotencyKey = getIdempotencyKey(ctx.metadata);
+    if (!idempotencyKey) return next();
+
+    const key = `${getRequestContext()?.actor ?? ''}:${idempotencyKey}`;
+    const requestHash = hashRequest(ctx.path, ctx.request);
+    const previous = await options.store.claim(key, requestHash, new Date(Date.now() + options.ttlMs));
+
+    if (previous) {
+      if (previous.requestHash !== requestHash) {
+        throw new ValidationError(`${IDEMPOTENCY_KEY_METADATA_KEY} was already used with a different request`, [
+          { field: IDEMPOTENCY_KEY_METADATA_KEY, description: 'Already used with a different request' },
+        ]);
+      }
+      if (previous.response === undefined) {
+        throw new AbortedError(`A call with this ${IDEMPOTENCY_KEY_METADATA_KEY} is still in progress`);
+      }
+
+      log.debug('Replaying stored response', { method: ctx.method });
+      return previous.response;
+    }
+
+    let response: unknown;
+    try {
+      response = await next();
+    } catch (error) {
+      await options.store
+        .release(key)
+        .catch(releaseError => log.error('Idempotency key not released', { error: releaseError }));
+      throw error;
+    }
+
+    // The call succeeded either way; the key is released so that a retry runs it again rather
+    // than being turned away as still in progress until the key expires
+    await options.store.complete(key, response).catch(async error => {
+      log.error('Response not stored', { error });
+      await options.store
+        .release(key)
+        .catch(releaseError => log.error('Idempotency key not released', { error: releaseError }));
+    });
+    return response;
+  };
+}
+
+/**
+ * Keeps records in the process, for tests and single-instance deployments without a database
+ */
+export function createMemoryIdempotencyStore(): IdempotencyStore {
+  const records = new Map<string, IdempotencyRecord>();
+
+  return {
+    claim: async (key, requestHash, expiresAt) => {
+      const record = records.get(key);
+      if (record && record.expiresAt.getTime() > Date.now()) return record;
+
+      records.set(key, { requestHash, expiresAt });
+      return null;
+    },
+    complete: async (key, response) => {
+      const record = records.get(key);
+      if (record) record.response = response;
+    },
+    release: async key => {
+      if (records.get(key)?.response === undefined) records.delete(key);
+    },
+    deleteExpired: async now => {
+      let deleted = 0;
+      records.forEach((record, key) => {
+        if (record.expiresAt <= now && records.delete(key)) deleted += 1;
+      });
+
+      return deleted;
+    },
+  };
+}
+
+/**
+ * Delete expired records periodically; returns the function stopping the timer
+ */
+export function startIdempotencyPruning(store: IdempotencyStore, intervalMs: number): () => void {
+  const prune = async () => {
+    const deleted = await store.deleteExpired(new Date());
+    if (deleted > 0) log.info('Expired idempotency keys deleted', { deleted });
+  };
+  const timer = setInterval(() => {
+    prune().catch(error => log.error('Idempotency key pruning failed', { error }));
+  }, intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,158 @@
+import * as grpc from '@grpc/grpc-js';
+import { toServiceError } from '@/lib/errors';
+import { getClientCertificate, type ClientCertificate } from '@/lib/tls';
+
+export type RpcType = 'unary' | 'clientStream' | 'serverStream' | 'bidi';
+
+export type ServerCall =
+  | grpc.ServerUnaryCall<unknown, unknown>
+  | grpc.ServerReadableStream<unknown, unknown>
+  | grpc.ServerWritableStream<unknown, unknown>
+  | grpc.ServerDuplexStream<unknown, unknown>;
+
+/**
+ * Per-call context handed to every interceptor
+ */
+export interface CallContext {
+  /** Full method path, e.g. `/user.UserService/GetUser` */
+  path: string;
+  /** Fully qualified service name, e.g. `user.UserService` */
+  service: string;
+  /** Method name as declared in the proto, e.g. `GetUser` */
+  method: string;
+  type: RpcType;
+  call: ServerCall;
+  metadata: grpc.Metadata;
+  deadline: grpc.Deadline;
+  peer: string;
+  /** Verified client certificate, only set when the server requires client certificates */
+  clientCertificate?: ClientCertificate;
+  /** Request message for unary and server-streaming calls; replacing it changes what the handler sees */
+  request?: unknown;
+  /** Response message once a unary or client-streaming handler has answered */
+  response?: unknown;
+  /** Scratch space shared between interceptors and handlers */
+  state: Record<string, unknown>;
+}
+
+export type NextFn = () => Promise<unknown>;
+
+/**
+ * Middleware run around every handler. Call `next()` to continue the chain; return a value
+ * without calling it (unary only) or throw to short-circuit the call with a status.
+ */
+export type ServerInterceptor = (ctx: CallContext, next: NextFn) => Promise<unknown>;
+
+const contexts = new WeakMap<ServerCall, CallContext>();
+
+/**
+ * Get the interceptor context of a call from inside a handler
+ */
+export function getCallContext(call: ServerCall): CallContext | undefined {
+  return contexts.get(call);
+}
+
+/**
+ * Run the interceptors in order around the terminal handler invocation
+ */
+export function runInterceptors(
+  ctx: CallContext,
+  interceptors: ServerInterceptor[],
+  handler: NextFn
+): Promise<unknown> {
+  const dispatch = (index: number): Promise<unknown> => {
+    if (index === interceptors.length) return handler();
+
+    let called = false;
+    return interceptors[index](ctx, () => {
+      if (called) return Promise.reject(new Error('next() called multiple times'));
+      called = true;
+      return dispatch(index + 1);
+    });
+  };
+
+  return dispatch(0);
+}
+
+function getRpcType(method: grpc.MethodDefinition<unknown, unknown>): RpcType {
+  if (method.requestStream && method.responseStream) return 'bidi';
+  if (method.requestStream) return 'clientStream';
+  if (method.responseStream) return 'serverStream';
+  return 'unary';
+}
+
+function createContext(
+  call: ServerCall,
+  method: grpc.MethodDefinition<unknown, unknown>,
+  type: RpcType,
+  trustClientCertificate: boolean
+): CallContext {
+  const [, service = '', name = ''] = method.path.split('/');
+  const ctx: CallContext = {
+    path: method.path,
+    service,
+    method: name,
+    type,
+    call,
+    metadata: call.metadata,
+    deadline: call.getDeadline(),
+    peer: call.getPeer(),
+    clientCertificate: trustClientCertificate ? getClientCertificate(call.getAuthContext()) : undefined,
+    request: 'request' in call ? (call as grpc.ServerUnaryCall<unknown, unknown>).request : undefined,
+    state: {},
+  };
+  contexts.set(call, ctx);
+
+  return ctx;
+}
+
+/**
+ * Wrap a raw handler so that every call goes through the interceptor chain.
+ * Streaming handlers should return a promise settling once the stream is done.
+ */
+export function wrapHandler(
+  handler: grpc.UntypedHandleCall,
+  method: grpc.MethodDefinition<unknown, unknown>,
+  getInterceptors: () => ServerInterceptor[],
+  trustClientCertificate: () => boolean = () => false
+): grpc.UntypedHandleCall {
+  const type = getRpcType(method);
+
+  if (type === 'unary' || type === 'clientStream') {
+    const callbackHandler = handler as (
+      call: ServerCall,
+      callback: grpc.sendUnaryData<unknown>
+    ) => unknown;
+
+    return (call: ServerCall, callback: grpc.sendUnaryData<unknown>) => {
+      const ctx = createContext(call, method, type, trustClientCertificate());
+
+      runInterceptors(ctx, getInterceptors(), () => {
+        if ('request' in call) (call as grpc.ServerUnaryCall<unknown, unknown>).request = ctx.request;
+
+        return new Promise((resolve, reject) => {
+          const result = callbackHandler(call, (error, value) => (error ? reject(error) : resolve(value)));
+          Promise.resolve(result).catch(reject);
+        });
+      }).then(
+        response => {
+          ctx.response = response;
+          callback(null, response);
+        },
+        error => callback(toServiceError(error), null)
+      );
+    };
+  }
+
+  const streamHandler = handler as (call: ServerCall) => unknown;
+
+  return (call: ServerCall) => {
+    const ctx = createContext(call, method, type, trustClientCertificate());
+
+    runInterceptors(ctx, getInterceptors(), async () => {
+      if ('request' in call) (call as grpc.ServerWritableStream<unknown, unknown>).request = ctx.request;
+
+      await streamHandler(call);
+    }).catch(error => call.emit('error', toServiceError(error)));
+  };
+}
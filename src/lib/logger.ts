@@ -0,0 +1,173 @@
+import * as grpc from '@grpc/grpc-js';
+import { randomUUID } from 'crypto';
+import { getConfig } from '@/lib/config';
+import { ACTOR_METADATA_KEY, getRequestContext, REQUEST_ID_METADATA_KEY, runWithRequestContext } from '@/lib/context';
+import { toServiceError } from '@/lib/errors';
+import type { ServerInterceptor } from '@/lib/interceptors';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel | 'silent', number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+/**
+ * Field names whose values never reach the output, compared case-insensitively at any depth
+ */
+export const DEFAULT_REDACTED_FIELDS = ['email', 'password', 'token', 'secret', 'authorization', 'apiKey', 'api_key'];
+
+export interface LoggerOptions {
+  /** Lowest level written, or a function read on every line; `silent` disables the logger (default: info) */
+  level?: LogLevel | 'silent' | (() => LogLevel | 'silent');
+  /** Fields added to every line */
+  bindings?: LogFields;
+  redact?: string[];
+  /** Receives each line as serialized JSON (default: stdout) */
+  write?: (line: string) => void;
+}
+
+function serializeError(error: Error): LogFields {
+  const code = (error as { code?: unknown }).code;
+  return { name: error.name, message: error.message, ...(code !== undefined && { code }), stack: error.stack };
+}
+
+function redactValue(value: unknown, redacted: Set<string>, seen: WeakSet<object>): unknown {
+  if (value instanceof Error) return redactValue(serializeError(value), redacted, seen);
+  if (value === null || typeof value !== 'object') return typeof value === 'bigint' ? value.toString() : value;
+  if (value instanceof Date) return value.toISOString();
+  if (Buffer.isBuffer(value)) return `<Buffer ${value.length} bytes>`;
+  if (seen.has(value)) return '[Circular]';
+  seen.add(value);
+
+  if (Array.isArray(value)) return value.map(item => redactValue(item, redacted, seen));
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, field]) => [
+      key,
+      redacted.has(key.toLowerCase()) ? '[REDACTED]' : redactValue(field, redacted, seen),
+    ])
+  );
+}
+
+/**
+ * Writes one JSON object per line: time, level, msg, the bindings, the request ID of the
+ * current call and the given fields, with sensitive fields redacted
+ */
+export class Logger {
+  private readonly options: LoggerOptions;
+  private readonly bindings: LogFields;
+  private readonly redacted: Set<string>;
+  private readonly write: (line: string) => void;
+
+  constructor(options: LoggerOptions = {}) {
+    this.options = options;
+    this.bindings = options.bindings ?? {};
+    this.redacted = new Set((options.redact ?? DEFAULT_REDACTED_FIELDS).map(field => field.toLowerCase()));
+    this.write = options.write ?? (line => process.stdout.write(`${line}\n`));
+  }
+
+  /**
+   * Logger adding `bindings` to every line, e.g. the component name
+   */
+  child(bindings: LogFields): Logger {
+    return new Logger({ ...this.options, bindings: { ...this.bindings, ...bindings } });
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    const threshold = typeof this.options.level === 'function' ? this.options.level() : this.options.level;
+    return LEVELS[level] >= LEVELS[threshold ?? 'info'];
+  }
+
+  debug(msg: string, fields?: LogFields): void {
+    this.log('debug', msg, fields);
+  }
+
+  info(msg: string, fields?: LogFields): void {
+    this.log('info', msg, fields);
+  }
+
+  warn(msg: string, fields?: LogFields): void {
+    this.log('warn', msg, fields);
+  }
+
+  error(msg: string, fields?: LogFields): void {
+    this.log('error', msg, fields);
+  }
+
+  log(level: LogLevel, msg: string, fields: LogFields = {}): void {
+    if (!this.isLevelEnabled(level)) return;
+
+    const requestId = getRequestContext()?.requestId;
+    const entry = {
+      time: new Date().toISOString(),
+      level,
+      msg,
+      ...this.bindings,
+      ...(requestId && { requestId }),
+      ...fields,
+    };
+    this.write(JSON.stringify(redactValue(entry, this.redacted, new WeakSet())));
+  }
+}
+
+/**
+ * Root logger, at the level of `logging.level` (LOG_LEVEL); silent under Jest by default. The level
+ * is read as lines are written, so that it follows `configure`.
+ */
+export const logger = new Logger({ level: () => getConfig().logging.level });
+
+const SERVER_FAULTS = new Set([grpc.status.UNKNOWN, grpc.status.INTERNAL, grpc.status.DATA_LOSS]);
+
+function getRequestId(metadata: grpc.Metadata): string {
+  const [value] = metadata.get(REQUEST_ID_METADATA_KEY);
+  const requestId = typeof value === 'string' ? value.trim() : '';
+
+  return requestId && requestId.length <= 128 ? requestId : randomUUID();
+}
+
+function getActor(metadata: grpc.Metadata): string | undefined {
+  const [value] = metadata.get(ACTOR_METADATA_KEY);
+  const actor = typeof value === 'string' ? value.trim() : '';
+
+  return actor && actor.length <= 128 ? actor : undefined;
+}
+
+/**
+ * Run each call inside a request context carrying its request ID and claimed actor, then write one access log
+ * line with method, peer, status code and duration. Register it before any other interceptor.
+ */
+export function createAccessLogInterceptor(log: Logger = logger): ServerInterceptor {
+  const access = log.child({ component: 'access' });
+
+  return (ctx, next) => {
+    const requestId = getRequestId(ctx.metadata);
+    ctx.state.requestId = requestId;
+
+    return runWithRequestContext({ requestId, method: ctx.path, actor: getActor(ctx.metadata) }, async () => {
+      const startedAt = process.hrtime.bigint();
+      const finish = (code: grpc.status, fields: LogFields = {}) => {
+        const level = code === grpc.status.OK ? 'info' : SERVER_FAULTS.has(code) ? 'error' : 'warn';
+        access.log(level, 'RPC finished', {
+          method: ctx.path,
+          type: ctx.type,
+          peer: ctx.peer,
+          code,
+          status: grpc.status[code],
+          durationMs: Number(process.hrtime.bigint() - startedAt) / 1e6,
+          ...fields,
+        });
+      };
+
+      try {
+        const result = await next();
+        finish(ctx.call.cancelled ? grpc.status.CANCELLED : grpc.status.OK);
+        return result;
+      } catch (error) {
+        const { code = grpc.status.UNKNOWN, details } = toServiceError(error);
+        // Only server faults carry the original error and its stack; the rest are the caller's doing
+        finish(code, SERVER_FAULTS.has(code) ? { error } : { details });
+        throw error;
+      }
+    });
+  };
+}
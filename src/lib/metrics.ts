@@ -0,0 +1,127 @@
+import * as grpc from '@grpc/grpc-js';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client';
+import { getStatusCode } from '@/lib/errors';
+import type { ServerInterceptor } from '@/lib/interceptors';
+import { logger } from '@/lib/logger';
+
+/**
+ * Registry every metric of the process is registered in and `/metrics` serves
+ */
+export const registry = new Registry();
+
+export const DEFAULT_METRICS_PATH = '/metrics';
+
+// Latency buckets in seconds, from sub-millisecond cache hits to multi-second batch calls
+const LATENCY_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const rpcHandled = new Counter({
+  name: 'grpc_server_handled_total',
+  help: 'RPCs completed on the server, by status code',
+  labelNames: ['grpc_service', 'grpc_method', 'grpc_type', 'grpc_code'],
+  registers: [registry],
+});
+
+const rpcDuration = new Histogram({
+  name: 'grpc_server_handling_seconds',
+  help: 'Time from receiving an RPC to completing it, by status code',
+  labelNames: ['grpc_service', 'grpc_method', 'grpc_type', 'grpc_code'],
+  buckets: LATENCY_BUCKETS,
+  registers: [registry],
+});
+
+const rpcInFlight = new Gauge({
+  name: 'grpc_server_in_flight_calls',
+  help: 'RPCs currently being handled',
+  labelNames: ['grpc_service', 'grpc_method'],
+  registers: [registry],
+});
+
+/**
+ * Count, time and track in-flight calls. Register it right after the access log so that calls
+ * rejected by any other interceptor are counted with their status.
+ */
+export function createMetricsInterceptor(): ServerInterceptor {
+  return async (ctx, next) => {
+    const method = { grpc_service: ctx.service, grpc_method: ctx.method };
+    const stopTimer = rpcDuration.startTimer({ ...method, grpc_type: ctx.type });
+    const finish = (code: grpc.status) => {
+      const labels = { ...method, grpc_type: ctx.type, grpc_code: grpc.status[code] };
+      rpcHandled.inc(labels);
+      stopTimer(labels);
+    };
+
+    rpcInFlight.inc(method);
+    try {
+      const result = await next();
+      finish(ctx.call.cancelled ? grpc.status.CANCELLED : grpc.status.OK);
+      return result;
+    } catch (error) {
+      finish(getStatusCode(error));
+      throw error;
+    } finally {
+      rpcInFlight.dec(method);
+    }
+  };
+}
+
+export interface MetricsServerOptions {
+  port: number;
+  host?: string;
+  path?: string;
+}
+
+export interface MetricsServer {
+  /** Bound port, useful when listening on port 0 */
+  port: number;
+  close(): Promise<void>;
+}
+
+let defaultMetricsCollected = false;
+
+/**
+ * Serve the registry in Prometheus text format over HTTP, along with the Node process stats
+ */
+export async function startMetricsServer(options: MetricsServerOptions): Promise<MetricsServer> {
+  const path = options.path ?? DEFAULT_METRICS_PATH;
+  if (!defaultMetricsCollected) {
+    collectDefaultMetrics({ register: registry });
+    defaultMetricsCollected = true;
+  }
+
+  const server = http.createServer((req, res) => {
+    if (req.method !== 'GET' || req.url?.split('?')[0] !== path) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    registry.metrics().then(
+      body => res.writeHead(200, { 'Content-Type': registry.contentType }).end(body),
+      error => {
+        logger.error('Metrics collection failed', { component: 'metrics', error });
+        res.writeHead(500).end();
+      }
+    );
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const { port } = server.address() as AddressInfo;
+  logger.info('Metrics server started', { component: 'metrics', port, path });
+
+  return {
+    port,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close(error => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+      }),
+  };
+}
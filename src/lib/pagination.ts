@@ -0,0 +1,54 @@
+import { createHash } from 'crypto';
+import type { z } from 'zod';
+import { ValidationError } from '@/lib/errors';
+
+interface PageTokenPayload<T> {
+  /** Fingerprint of the query the token was issued for */
+  q: string;
+  /** Position of the last item returned */
+  c: T;
+}
+
+/**
+ * Fingerprint the parts of a query that must not change between pages (ordering, filters)
+ */
+export function queryFingerprint(query: unknown): string {
+  return createHash('sha256').update(JSON.stringify(query ?? null)).digest('base64url').slice(0, 16);
+}
+
+/**
+ * Encode a cursor into an opaque page token bound to the query it was issued for
+ */
+export function encodePageToken<T>(cursor: T, fingerprint: string): string {
+  const payload: PageTokenPayload<T> = { q: fingerprint, c: cursor };
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decode a page token, rejecting malformed tokens, cursors not matching `cursorSchema` and tokens
+ * issued for another query
+ */
+export function decodePageToken<T>(token: string, fingerprint: string, cursorSchema: z.ZodType<T>): T {
+  let payload: PageTokenPayload<unknown>;
+  try {
+    payload = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'));
+  } catch {
+    throw new ValidationError('Invalid page_token', [{ field: 'page_token', description: 'Malformed token' }]);
+  }
+
+  if (!payload || typeof payload !== 'object' || payload.c === undefined) {
+    throw new ValidationError('Invalid page_token', [{ field: 'page_token', description: 'Malformed token' }]);
+  }
+  if (payload.q !== fingerprint) {
+    throw new ValidationError('Invalid page_token', [
+      { field: 'page_token', description: 'Token was issued for a different order_by or filter' },
+    ]);
+  }
+
+  const cursor = cursorSchema.safeParse(payload.c);
+  if (!cursor.success) {
+    throw new ValidationError('Invalid page_token', [{ field: 'page_token', description: 'Malformed token' }]);
+  }
+
+  return cursor.data;
+}
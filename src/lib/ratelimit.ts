@@ -0,0 +1,259 @@
+import type { EventEmitter } from 'events';
+import * as grpc from '@grpc/grpc-js';
+import { Counter, Gauge } from 'prom-client';
+import { getPrincipal } from '@/lib/auth';
+import { AppError, ResourceExhaustedError, UnauthenticatedError } from '@/lib/errors';
+import type { CallContext, ServerInterceptor } from '@/lib/interceptors';
+import { registry } from '@/lib/metrics';
+
+/**
+ * What calls are counted by: the authenticated principal (the peer for anonymous calls), the peer
+ * address, or the value of a metadata entry such as `metadata:x-api-client`
+ */
+export type RateLimitKey = 'principal' | 'peer' | `metadata:${string}`;
+
+export interface RateLimitRule {
+  /** Sustained calls per second */
+  ratePerSecond: number;
+  /** Calls allowed in a burst, i.e. the bucket size (default: ratePerSecond, at least 1) */
+  burst?: number;
+  /** Default: principal */
+  key?: RateLimitKey;
+}
+
+/**
+ * Rules keyed by `package.Service/Method`, `package.Service/*` or `*`; only the most specific
+ * applies to a call, and calls of the methods a wildcard rule covers share its buckets
+ */
+export type RateLimitRules = Record<string, RateLimitRule>;
+
+export interface ConcurrencyLimitOptions {
+  /** Unary and client-streaming calls handled at once; long-lived server streams are not counted */
+  maxConcurrentCalls: number;
+  /** Calls waiting for a slot, beyond which further calls are shed (default: 0, shed right away) */
+  maxQueuedCalls?: number;
+  /** Longest wait for a slot before the call is shed (default: 5s) */
+  queueTimeoutMs?: number;
+  /** Methods never limited, as `package.Service/Method` or `package.Service/*`, e.g. health checks */
+  exempt?: string[];
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface QueuedCall {
+  start: () => void;
+  timer: NodeJS.Timeout;
+}
+
+// Buckets kept at most; the least recently used are dropped first, as they are likely full anyway
+const MAX_BUCKETS = 10_000;
+// Hint given to shed calls, since how soon a slot frees up cannot be known
+const SHED_RETRY_AFTER_MS = 1000;
+const DEFAULT_QUEUE_TIMEOUT_MS = 5000;
+
+const rejectedCalls = new Counter({
+  name: 'grpc_server_rejected_calls_total',
+  help: 'RPCs rejected with RESOURCE_EXHAUSTED, by limit: rate, auth or concurrency',
+  labelNames: ['grpc_service', 'grpc_method', 'limit'],
+  registers: [registry],
+});
+
+const queuedCalls = new Gauge({
+  name: 'grpc_server_queued_calls',
+  help: 'RPCs waiting for a concurrency slot',
+  registers: [registry],
+});
+
+function findRule(rules: RateLimitRules, ctx: CallContext): [string, RateLimitRule] | undefined {
+  const names = [`${ctx.service}/${ctx.method}`, `${ctx.service}/*`, '*'];
+  const name = names.find(candidate => rules[candidate]);
+
+  return name ? [name, rules[name]] : undefined;
+}
+
+function matches(patterns: string[], ctx: CallContext): boolean {
+  return patterns.some(pattern => pattern === `${ctx.service}/${ctx.method}` || pattern === `${ctx.service}/*`);
+}
+
+// Address without the port, which changes with every connection of the same client
+function peerAddress(peer: string): string {
+  return peer.replace(/:\d+$/, '');
+}
+
+function clientKey(ctx: CallContext, key: RateLimitKey): string {
+  if (key === 'peer') return `peer:${peerAddress(ctx.peer)}`;
+  if (key === 'principal') {
+    const principal = getPrincipal(ctx);
+    return principal ? `principal:${principal.subject}` : `peer:${peerAddress(ctx.peer)}`;
+  }
+
+  const metadataKey = key.slice('metadata:'.length);
+  const [value] = ctx.metadata.get(metadataKey);
+  return `${key}=${value?.toString() ?? ''}`;
+}
+
+/**
+ * Token buckets by client, the least recently used dropped first beyond MAX_BUCKETS
+ */
+function createBuckets() {
+  const buckets = new Map<string, Bucket>();
+
+  // The bucket of `id` refilled up to now
+  return (id: string, rule: RateLimitRule): Bucket => {
+    const capacity = Math.max(1, rule.burst ?? rule.ratePerSecond);
+    const now = Date.now();
+
+    const bucket = buckets.get(id) ?? { tokens: capacity, updatedAt: now };
+    bucket.tokens = Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * rule.ratePerSecond);
+    bucket.updatedAt = now;
+    // Re-inserted so that the map stays ordered by last use
+    buckets.delete(id);
+    buckets.set(id, bucket);
+    if (buckets.size > MAX_BUCKETS) buckets.delete(buckets.keys().next().value!);
+
+    return bucket;
+  };
+}
+
+// Time until the bucket has a token again
+function retryAfter(bucket: Bucket, rule: RateLimitRule): number {
+  return Math.ceil(((1 - bucket.tokens) / rule.ratePerSecond) * 1000);
+}
+
+/**
+ * Token-bucket rate limits: each client gets `burst` calls, refilled at `ratePerSecond`, and calls
+ * finding the bucket empty fail with RESOURCE_EXHAUSTED and the time until a token is available.
+ * Register it after authentication so that principals are known.
+ */
+export function createRateLimitInterceptor(rules: RateLimitRules): ServerInterceptor {
+  const bucketOf = createBuckets();
+
+  return async (ctx, next) => {
+    const match = findRule(rules, ctx);
+    if (!match) return next();
+
+    const [name, rule] = match;
+    const bucket = bucketOf(`${name}|${clientKey(ctx, rule.key ?? 'principal')}`, rule);
+
+    if (bucket.tokens < 1) {
+      rejectedCalls.inc({ grpc_service: ctx.service, grpc_method: ctx.method, limit: 'rate' });
+      throw new ResourceExhaustedError(
+        `Rate limit of ${rule.ratePerSecond}/s exceeded for ${ctx.method}`,
+        retryAfter(bucket, rule)
+      );
+    }
+
+    bucket.tokens -= 1;
+    return next();
+  };
+}
+
+/**
+ * Limit failed authentications by peer address, so that credentials cannot be guessed at will:
+ * each failure takes a token of the peer's bucket (`burst`, refilled at `ratePerSecond`), and
+ * calls from a peer whose bucket is empty fail with RESOURCE_EXHAUSTED before being authenticated.
+ * Register it before authentication; calls that authenticate cost nothing.
+ */
+export function createAuthFailureLimitInterceptor(rule: Omit<RateLimitRule, 'key'>): ServerInterceptor {
+  const bucketOf = createBuckets();
+
+  return async (ctx, next) => {
+    const id = `peer:${peerAddress(ctx.peer)}`;
+    const bucket = bucketOf(id, rule);
+
+    if (bucket.tokens < 1) {
+      rejectedCalls.inc({ grpc_service: ctx.service, grpc_method: ctx.method, limit: 'auth' });
+      throw new ResourceExhaustedError('Too many failed authentication attempts', retryAfter(bucket, rule));
+    }
+
+    try {
+      return await next();
+    } catch (error) {
+      if (error instanceof UnauthenticatedError) bucketOf(id, rule).tokens -= 1;
+      throw error;
+    }
+  };
+}
+
+/**
+ * Handle at most `maxConcurrentCalls` calls at once, the next ones waiting in line (first come,
+ * first served) up to `maxQueuedCalls` and `queueTimeoutMs`. Calls beyond that are shed with
+ * RESOURCE_EXHAUSTED, so that an overloaded server fails fast rather than slowing every call down.
+ * Queued calls that are cancelled or run out of time leave the queue right away.
+ */
+export function createConcurrencyLimitInterceptor(options: ConcurrencyLimitOptions): ServerInterceptor {
+  const { maxConcurrentCalls, maxQueuedCalls = 0, queueTimeoutMs = DEFAULT_QUEUE_TIMEOUT_MS, exempt = [] } = options;
+  const queue: QueuedCall[] = [];
+  let active = 0;
+
+  const shed = (ctx: CallContext, reason: string) => {
+    rejectedCalls.inc({ grpc_service: ctx.service, grpc_method: ctx.method, limit: 'concurrency' });
+    return new ResourceExhaustedError(`Server overloaded: ${reason}`, SHED_RETRY_AFTER_MS);
+  };
+
+  const acquire = (ctx: CallContext): Promise<void> => {
+    if (active < maxConcurrentCalls) {
+      active += 1;
+      return Promise.resolve();
+    }
+    if (queue.length >= maxQueuedCalls) return Promise.reject(shed(ctx, 'too many calls in progress'));
+
+    // A call whose deadline passes while it waits is answered by grpc-js, so it only leaves the queue
+    const untilDeadline = (ctx.deadline instanceof Date ? ctx.deadline.getTime() : ctx.deadline) - Date.now();
+    const expires = untilDeadline < queueTimeoutMs;
+    const call: EventEmitter = ctx.call;
+
+    return new Promise((resolve, reject) => {
+      const dequeue = (error: Error) => {
+        clearTimeout(entry.timer);
+        call.off('cancelled', cancelled);
+        queue.splice(queue.indexOf(entry), 1);
+        queuedCalls.set(queue.length);
+        reject(error);
+      };
+      const cancelled = () => dequeue(new AppError(grpc.status.CANCELLED, 'Call cancelled while waiting for a slot'));
+
+      const entry: QueuedCall = {
+        // The slot of the call that finished is handed over, so `active` does not change
+        start: () => {
+          clearTimeout(entry.timer);
+          call.off('cancelled', cancelled);
+          resolve();
+        },
+        timer: setTimeout(
+          () =>
+            dequeue(
+              expires
+                ? new AppError(grpc.status.DEADLINE_EXCEEDED, 'Deadline exceeded while waiting for a slot')
+                : shed(ctx, `no slot freed up within ${queueTimeoutMs}ms`)
+            ),
+          Math.max(0, Math.min(untilDeadline, queueTimeoutMs))
+        ),
+      };
+      queue.push(entry);
+      queuedCalls.set(queue.length);
+      call.once('cancelled', cancelled);
+    });
+  };
+
+  const release = () => {
+    const next = queue.shift();
+    queuedCalls.set(queue.length);
+    if (next) next.start();
+    else active -= 1;
+  };
+
+  return async (ctx, next) => {
+    if (ctx.type === 'serverStream' || ctx.type === 'bidi' || matches(exempt, ctx)) return next();
+
+    await acquire(ctx);
+    try {
+      return await next();
+    } finally {
+      release();
+    }
+  };
+}
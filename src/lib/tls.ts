@@ -0,0 +1,74 @@
+import * as grpc from '@grpc/grpc-js';
+
+export interface TlsOptions {
+  /** PEM server certificate chain */
+  certFile: string;
+  /** PEM server private key */
+  keyFile: string;
+  /** PEM CA bundle used to verify client certificates */
+  caFile?: string;
+  /** Reject clients without a certificate signed by `caFile` (mTLS) */
+  requireClientCert?: boolean;
+  /** How often the files are re-read to pick up rotated certificates (default: 60s) */
+  reloadIntervalMs?: number;
+}
+
+type AuthContext = ReturnType<grpc.ServerUnaryCall<unknown, unknown>['getAuthContext']>;
+
+export interface ClientCertificate {
+  /** Subject attributes of the verified client certificate, e.g. `{ CN: 'billing', O: 'acme' }` */
+  subject: Record<string, string>;
+  commonName?: string;
+  fingerprint256: string;
+}
+
+/**
+ * Build server credentials: insecure without TLS options, otherwise TLS (or mTLS) backed by
+ * files that are polled so that rotated certificates are served without a restart.
+ * Resolves once the certificates have been read, so no connection is refused while loading.
+ */
+export async function loadServerCredentials(tls?: TlsOptions): Promise<grpc.ServerCredentials> {
+  if (!tls) return grpc.ServerCredentials.createInsecure();
+
+  if (tls.requireClientCert && !tls.caFile) {
+    throw new Error('TLS requireClientCert needs a caFile to verify client certificates');
+  }
+
+  const provider = new grpc.experimental.FileWatcherCertificateProvider({
+    certificateFile: tls.certFile,
+    privateKeyFile: tls.keyFile,
+    caCertificateFile: tls.caFile,
+    refreshIntervalMs: tls.reloadIntervalMs ?? 60000,
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    const listener = (update: unknown) => {
+      provider.removeIdentityCertificateListener(listener);
+      if (update) resolve();
+      else reject(new Error(`Could not read TLS certificate ${tls.certFile} or key ${tls.keyFile}`));
+    };
+    provider.addIdentityCertificateListener(listener);
+  });
+
+  // grpc-js hands its first argument to the credentials as the identity provider, so the same
+  // provider serves both roles when a CA is configured and the CA slot stays empty otherwise
+  return grpc.experimental.createCertificateProviderServerCredentials(
+    provider,
+    tls.caFile ? provider : null,
+    tls.requireClientCert ?? false
+  );
+}
+
+/**
+ * Read the client certificate presented on a TLS connection
+ */
+export function getClientCertificate(authContext: AuthContext | null | undefined): ClientCertificate | undefined {
+  const certificate = authContext?.sslPeerCertificate;
+  if (!certificate || !certificate.subject) return undefined;
+
+  const subject = Object.fromEntries(
+    Object.entries(certificate.subject).map(([key, value]) => [key, [value].flat().join(',')])
+  );
+
+  return { subject, commonName: subject.CN, fingerprint256: certificate.fingerprint256 };
+}
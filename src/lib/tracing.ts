@@ -0,0 +1,186 @@
+import * as grpc from '@grpc/grpc-js';
+import {
+  context,
+  propagation,
+  ROOT_CONTEXT,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+  type Attributes,
+  type Span,
+  type TextMapGetter,
+  type TextMapSetter,
+} from '@opentelemetry/api';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BatchSpanProcessor,
+  InMemorySpanExporter,
+  NodeTracerProvider,
+  SimpleSpanProcessor,
+  type SpanExporter,
+  type SpanProcessor,
+} from '@opentelemetry/sdk-trace-node';
+import { ATTR_SERVICE_NAME } from '@opentelemetry/semantic-conventions';
+import { getStatusCode } from '@/lib/errors';
+import type { ServerInterceptor } from '@/lib/interceptors';
+
+export const TRACER_NAME = 'grpc-proto';
+
+// Status codes marking a server span as failed, the others being the caller's doing
+const SERVER_ERRORS = new Set([
+  grpc.status.UNKNOWN,
+  grpc.status.DEADLINE_EXCEEDED,
+  grpc.status.UNIMPLEMENTED,
+  grpc.status.INTERNAL,
+  grpc.status.UNAVAILABLE,
+  grpc.status.DATA_LOSS,
+]);
+
+const metadataGetter: TextMapGetter<grpc.Metadata> = {
+  keys: metadata => Object.keys(metadata.getMap()),
+  get: (metadata, key) => {
+    const values = metadata.get(key).map(String);
+    return values.length > 1 ? values : values[0];
+  },
+};
+
+const metadataSetter: TextMapSetter<grpc.Metadata> = {
+  set: (metadata, key, value) => metadata.set(key, value),
+};
+
+export interface TracingOptions {
+  /** `service.name` of the exported spans (default: grpc-proto) */
+  serviceName?: string;
+  /**
+   * `otlp` exports over OTLP/HTTP in batches (endpoint from `otlpEndpoint` or the standard
+   * OTEL_EXPORTER_OTLP_* variables); `memory` keeps finished spans for tests
+   */
+  exporter?: 'otlp' | 'memory' | SpanExporter;
+  otlpEndpoint?: string;
+}
+
+export interface Tracing {
+  provider: NodeTracerProvider;
+  /** Set with the `memory` exporter */
+  memoryExporter?: InMemorySpanExporter;
+  /** Flush pending spans and unregister the global tracer provider */
+  shutdown(): Promise<void>;
+}
+
+/**
+ * Register the global tracer provider, with W3C trace context propagation and async context
+ * tracking. Until it is called every span is a no-op.
+ */
+export function initTracing(options: TracingOptions = {}): Tracing {
+  const exporter = options.exporter ?? 'otlp';
+  let memoryExporter: InMemorySpanExporter | undefined;
+  let spanProcessor: SpanProcessor;
+  if (exporter === 'memory') {
+    memoryExporter = new InMemorySpanExporter();
+    spanProcessor = new SimpleSpanProcessor(memoryExporter);
+  } else {
+    spanProcessor = new BatchSpanProcessor(
+      exporter === 'otlp' ? new OTLPTraceExporter({ url: options.otlpEndpoint }) : exporter
+    );
+  }
+
+  const provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({ [ATTR_SERVICE_NAME]: options.serviceName ?? TRACER_NAME }),
+    spanProcessors: [spanProcessor],
+  });
+  provider.register();
+
+  return {
+    provider,
+    memoryExporter,
+    shutdown: async () => {
+      await provider.shutdown();
+      trace.disable();
+      context.disable();
+      propagation.disable();
+    },
+  };
+}
+
+export function getTracer() {
+  return trace.getTracer(TRACER_NAME);
+}
+
+function recordError(span: Span, error: unknown): void {
+  span.recordException(error instanceof Error ? error : String(error));
+  span.setStatus({ code: SpanStatusCode.ERROR, message: error instanceof Error ? error.message : undefined });
+}
+
+/**
+ * Run `fn` in a child span of the active one, ending it once the returned promise settles
+ */
+export function withSpan<T>(
+  name: string,
+  fn: (span: Span) => Promise<T>,
+  options: { kind?: SpanKind; attributes?: Attributes } = {}
+): Promise<T> {
+  return getTracer().startActiveSpan(name, options, async span => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      recordError(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+/**
+ * Wrap an async function so that each invocation runs in its own span
+ */
+export function traced<A extends unknown[], R>(name: string, fn: (...args: A) => Promise<R>) {
+  return (...args: A): Promise<R> => withSpan(name, () => fn(...args));
+}
+
+/**
+ * Add the trace context of the active span to outgoing metadata
+ */
+export function injectTraceContext(metadata: grpc.Metadata): void {
+  propagation.inject(context.active(), metadata, metadataSetter);
+}
+
+/**
+ * Open a server span per call, continuing the trace of the `traceparent` metadata if any, and
+ * run the rest of the chain inside it so that the handler's spans become its children
+ */
+export function createTracingInterceptor(): ServerInterceptor {
+  return (ctx, next) => {
+    const parent = propagation.extract(ROOT_CONTEXT, ctx.metadata, metadataGetter);
+    const span = getTracer().startSpan(
+      `${ctx.service}/${ctx.method}`,
+      {
+        kind: SpanKind.SERVER,
+        attributes: {
+          'rpc.system': 'grpc',
+          'rpc.service': ctx.service,
+          'rpc.method': ctx.method,
+          'network.peer.address': ctx.peer,
+        },
+      },
+      parent
+    );
+
+    return context.with(trace.setSpan(parent, span), async () => {
+      try {
+        const result = await next();
+        const code = ctx.call.cancelled ? grpc.status.CANCELLED : grpc.status.OK;
+        span.setAttribute('rpc.grpc.status_code', code);
+        return result;
+      } catch (error) {
+        const code = getStatusCode(error);
+        span.setAttribute('rpc.grpc.status_code', code);
+        if (SERVER_ERRORS.has(code)) recordError(span, error);
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  };
+}
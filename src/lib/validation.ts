@@ -0,0 +1,71 @@
+import type { z } from 'zod';
+import { InternalError, ValidationError } from '@/lib/errors';
+import type { ServerInterceptor } from '@/lib/interceptors';
+import { logger } from '@/lib/logger';
+
+export interface MethodSchemas {
+  /** Validates and coerces each request message; the parsed value is what the handler receives */
+  request?: z.ZodType;
+  /** Checked against each response message when response validation is enabled */
+  response?: z.ZodType;
+}
+
+/**
+ * Schemas keyed by method name as declared in the proto, e.g. `GetUser`
+ */
+export type ServiceSchemas = Record<string, MethodSchemas>;
+
+function parseRequest(schema: z.ZodType, request: unknown): unknown {
+  const result = schema.safeParse(request);
+  if (!result.success) throw ValidationError.fromZod(result.error);
+
+  return result.data;
+}
+
+function checkResponse(schema: z.ZodType, response: unknown, method: string): void {
+  const result = schema.safeParse(response);
+  if (result.success) return;
+
+  logger.error('Invalid response', { component: 'validation', method, issues: result.error.issues });
+  throw new InternalError(`Invalid ${method} response`);
+}
+
+/**
+ * Validate requests against the schemas of their method before the handler runs, and
+ * optionally the responses it produces, so a mismatch surfaces during development
+ */
+export function createValidationInterceptor(
+  schemas: ServiceSchemas,
+  options: { validateResponses?: boolean } = {}
+): ServerInterceptor {
+  return async (ctx, next) => {
+    const { request, response } = schemas[ctx.method] ?? {};
+    const responseSchema = options.validateResponses ? response : undefined;
+
+    if (request && (ctx.type === 'clientStream' || ctx.type === 'bidi')) {
+      const call = ctx.call as AsyncIterable<unknown>;
+      const iterate = call[Symbol.asyncIterator].bind(call);
+      call[Symbol.asyncIterator] = async function* () {
+        for await (const message of { [Symbol.asyncIterator]: iterate }) yield parseRequest(request, message);
+      };
+    } else if (request) {
+      ctx.request = parseRequest(request, ctx.request);
+    }
+
+    if (responseSchema && (ctx.type === 'serverStream' || ctx.type === 'bidi')) {
+      const call = ctx.call as { write: (message: unknown, ...rest: unknown[]) => boolean };
+      const write = call.write.bind(call);
+      call.write = (message, ...rest) => {
+        checkResponse(responseSchema, message, ctx.method);
+        return write(message, ...rest);
+      };
+    }
+
+    const result = await next();
+    if (responseSchema && (ctx.type === 'unary' || ctx.type === 'clientStream')) {
+      checkResponse(responseSchema, result, ctx.method);
+    }
+
+    return result;
+  };
+}
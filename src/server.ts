@@ -1,12 +1,84 @@
+// Applies the config file, env vars and CLI flags of this process before the server is set up
+import { config } from '@/config';
 import { GrpcServer, setupGracefulShutdown } from '@/lib/grpc';
-import { infraServiceImplementation } from '@/grpc/infra.server';
-import { userServiceImplementation } from '@/grpc/user.server';
+import {
+  createApiKeyAuthenticator,
+  createAuthInterceptor,
+  createJwtAuthenticator,
+  type Authenticator,
+} from '@/lib/auth';
+import { createIdempotencyInterceptor, startIdempotencyPruning } from '@/lib/idempotency';
+import { logger } from '@/lib/logger';
+import { initTracing } from '@/lib/tracing';
+import { HealthService } from '@/BL/health.service';
+import { registerDefaultProbes } from '@/BL/infra.probes';
+import { InfraService } from '@/BL/infra.service';
+import { OutboxService } from '@/BL/outbox.service';
+import { registerWebhookSinks } from '@/BL/outbox.sinks';
+import { UserService } from '@/BL/user.service';
+import { IdempotencyRepository } from '@/DAL/idempotency.repository';
+import { healthServiceImplementation, healthServicePolicies } from '@/grpc/health.server';
+import { infraServiceImplementation, infraServicePolicies, infraServiceSchemas } from '@/grpc/infra.server';
+import {
+  userServiceIdempotentMethods,
+  userServiceImplementation,
+  userServicePolicies,
+  userServiceSchemas,
+} from '@/grpc/user.server';
 
-const server = new GrpcServer();
+const server = new GrpcServer({
+  reflection: config.features.reflection,
+  tls: config.server.tls,
+  validateResponses: config.features.validateResponses,
+  metrics: config.features.metrics ? config.metrics : undefined,
+  maxMessageBytes: config.server.maxMessageBytes,
+  keepalive: config.server.keepalive,
+  rateLimits: config.limits.rateLimits,
+  concurrency: config.limits.maxConcurrentCalls
+    ? {
+        maxConcurrentCalls: config.limits.maxConcurrentCalls,
+        maxQueuedCalls: config.limits.maxQueuedCalls,
+        queueTimeoutMs: config.limits.queueTimeoutMs,
+        exempt: config.limits.concurrencyExempt,
+      }
+    : undefined,
+  authFailureLimit: { ratePerSecond: config.limits.authFailureRatePerSecond, burst: config.limits.authFailureBurst },
+});
+
+function createAuthenticators(): Authenticator[] {
+  const { jwtKeys, jwtIssuer, jwtAudience, apiKeys } = config.auth;
+  const authenticators: Authenticator[] = [];
+
+  if (jwtKeys) {
+    authenticators.push(createJwtAuthenticator({ keys: jwtKeys, issuer: jwtIssuer, audience: jwtAudience }));
+  }
+  if (apiKeys) {
+    authenticators.push(createApiKeyAuthenticator(apiKeys));
+  }
+
+  return authenticators;
+}
 
 async function main() {
   try {
-    console.log('Starting gRPC Server...');
+    logger.info('Starting gRPC Server');
+
+    // Spans are exported over OTLP/HTTP when tracing is on, and are no-ops otherwise
+    const tracing = config.features.tracing
+      ? initTracing({ serviceName: config.tracing.serviceName, otlpEndpoint: config.tracing.otlpEndpoint })
+      : undefined;
+
+    const authenticators = createAuthenticators();
+    if (authenticators.length > 0) {
+      server.use(
+        createAuthInterceptor({
+          authenticators,
+          policies: { ...healthServicePolicies, ...infraServicePolicies, ...userServicePolicies },
+        })
+      );
+    } else {
+      logger.warn('Authentication disabled: set AUTH_JWT_KEYS or AUTH_API_KEYS to enable it');
+    }
 
     // Add infrastructure service
     server.addService({
@@ -14,6 +86,7 @@ async function main() {
       packageName: 'infra',
       serviceName: 'InfraService',
       implementation: infraServiceImplementation,
+      schemas: infraServiceSchemas,
     });
 
     // Add user service
@@ -22,16 +95,61 @@ async function main() {
       packageName: 'user',
       serviceName: 'UserService',
       implementation: userServiceImplementation,
+      interceptors: [
+        createIdempotencyInterceptor({
+          methods: userServiceIdempotentMethods,
+          store: IdempotencyRepository,
+          ttlMs: config.idempotency.ttlMs,
+        }),
+      ],
+      schemas: userServiceSchemas,
+    });
+
+    // Add standard gRPC health service
+    server.addService({
+      protoPath: 'health.proto',
+      packageName: 'grpc.health.v1',
+      serviceName: 'Health',
+      implementation: healthServiceImplementation,
+    });
+
+    registerDefaultProbes(config.health);
+    registerWebhookSinks(config.outbox);
+
+    HealthService.register('', { dependsOnDatabase: true });
+    HealthService.register('infra.InfraService');
+    HealthService.register('user.UserService', { dependsOnDatabase: true });
+
+    let stopHealthPolling = () => {};
+    let stopHistoryRetention = () => {};
+    let stopOutboxDispatcher = () => {};
+    let stopIdempotencyPruning = () => {};
+    server.onStart(() => {
+      stopHealthPolling = HealthService.startPolling(config.health.checkIntervalMs);
+      stopHistoryRetention = InfraService.startHistoryRetention(config.health.history.pruneIntervalMs);
+      stopOutboxDispatcher = OutboxService.startDispatcher(config.outbox.pollIntervalMs);
+      stopIdempotencyPruning = startIdempotencyPruning(IdempotencyRepository, config.idempotency.pruneIntervalMs);
+    });
+    server.onStop(() => {
+      stopHealthPolling();
+      stopHistoryRetention();
+      stopOutboxDispatcher();
+      stopIdempotencyPruning();
+      HealthService.shutdown();
+      InfraService.closeProbes();
+      UserService.closeWatchers();
+    });
+    server.onStop(async () => {
+      await tracing?.shutdown();
     });
 
     // Start the server
-    const port = process.env.GRPC_PORT || '0.0.0.0:50051';
-    await server.start(port);
+    await server.start(config.server.address);
 
     // Setup graceful shutdown
     setupGracefulShutdown(server);
   } catch (error) {
-    console.error('Failed to start server:', error);
+    logger.error('Failed to start server', { error });
     process.exit(1);
   }
 }